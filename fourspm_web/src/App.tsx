@@ -7,9 +7,11 @@ import './dx-styles.scss';
 import LoadPanel from 'devextreme-react/load-panel';
 import { NavigationProvider } from './contexts/navigation';
 import { AuthProvider, useAuth } from './contexts/auth';
+import { UndoProvider } from './contexts/undo/undo-context';
 import { useScreenSizeClass } from './utils/media-query';
 import Content from './Content';
 import UnauthenticatedContent from './UnauthenticatedContent';
+import { SessionExpiredPopup } from './components';
 import { useThemeContext, ThemeContext } from './theme/theme';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
@@ -27,6 +29,7 @@ const AppContent: React.FC = () => {
     return (
       <div className={`app dx-theme-material-${themeContext.theme} app-theme-${themeContext.theme} ${screenSizeClass}`} style={{ backgroundColor: 'var(--dx-surface-color)' }}>
         <Content />
+        <SessionExpiredPopup />
       </div>
     );
   }
@@ -55,7 +58,9 @@ const RootApp = () => {
         <QueryClientProvider client={queryClient}>
           <AuthProvider>
             <NavigationProvider>
-              <AppContent />
+              <UndoProvider>
+                <AppContent />
+              </UndoProvider>
             </NavigationProvider>
           </AuthProvider>
           <ReactQueryDevtools initialIsOpen={false} />
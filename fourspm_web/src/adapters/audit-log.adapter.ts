@@ -0,0 +1,38 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { AUDIT_LOGS_ENDPOINT } from '../config/api-endpoints';
+import { createEqualsFilter, createODataFilterParam } from '../utils/odata-filters';
+import { AuditLog } from '../types/odata-types';
+
+/**
+ * Audit log adapter - provides methods for reading the change history of entities
+ * Entries are written by the server; the client only reads them
+ */
+
+/**
+ * Gets every recorded change to one entity, newest first
+ * @param entityName Entity set of the entity, e.g. 'Deliverables'
+ * @param entityGuid The entity GUID
+ * @param token User authentication token
+ * @returns The entity's audit log entries
+ */
+export const getChangeHistory = async (
+  entityName: string,
+  entityGuid: string,
+  token: string
+): Promise<AuditLog[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    const filter = `${createEqualsFilter('entityName', entityName)} and entityGuid eq ${entityGuid}`;
+    return await sharedApiService.getAll<AuditLog>(
+      AUDIT_LOGS_ENDPOINT,
+      token,
+      `${createODataFilterParam(filter)}&$orderby=changed desc`
+    );
+  } catch (error) {
+    console.error(`Error fetching change history for ${entityName} ${entityGuid}:`, error);
+    throw error;
+  }
+};
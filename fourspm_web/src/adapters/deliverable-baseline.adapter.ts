@@ -0,0 +1,86 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { createProjectFilterParam } from '../utils/odata-filters';
+import { DELIVERABLE_BASELINES_ENDPOINT, DELIVERABLE_BASELINE_ITEMS_ENDPOINT } from '../config/api-endpoints';
+import { DeliverableBaseline, DeliverableBaselineItem } from '../types/odata-types';
+
+/**
+ * Deliverable baseline adapter - provides methods for snapshotting a project's deliverables register
+ * and reading the snapshots back for comparison
+ */
+
+/**
+ * Gets the baselines of a project
+ * @param projectId Project GUID
+ * @param token User authentication token
+ * @returns Array of baselines for the project
+ */
+export const getProjectBaselines = async (projectId: string, token: string): Promise<DeliverableBaseline[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<DeliverableBaseline>(
+      DELIVERABLE_BASELINES_ENDPOINT,
+      token,
+      createProjectFilterParam(projectId)
+    );
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    throw error;
+  }
+};
+
+/**
+ * Creates a baseline of a project's deliverables register
+ * The server copies every deliverable (hours, gate and document numbers) into the baseline
+ * @param projectId Project GUID
+ * @param name Name of the baseline, e.g. "Contract award"
+ * @param description Optional notes about the baseline
+ * @param token User authentication token
+ * @returns The created baseline
+ */
+export const createBaseline = async (
+  projectId: string,
+  name: string,
+  description: string | null,
+  token: string
+): Promise<DeliverableBaseline> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.post<DeliverableBaseline>(
+      `${DELIVERABLE_BASELINES_ENDPOINT}/CreateBaseline`,
+      token,
+      { projectGuid: projectId, name, description }
+    );
+  } catch (error) {
+    console.error('Error creating baseline:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the deliverables captured in a baseline
+ * @param baselineId Baseline GUID
+ * @param token User authentication token
+ * @returns Array of baseline items
+ */
+export const getBaselineItems = async (baselineId: string, token: string): Promise<DeliverableBaselineItem[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<DeliverableBaselineItem>(
+      DELIVERABLE_BASELINE_ITEMS_ENDPOINT,
+      token,
+      createProjectFilterParam(baselineId, 'baselineGuid')
+    );
+  } catch (error) {
+    console.error('Error fetching baseline items:', error);
+    throw error;
+  }
+};
@@ -3,6 +3,7 @@ import { baseApiService } from '../api/base-api.service';
 import { API_CONFIG } from '../config/api';
 import { createProjectFilter } from '../utils/odata-filters';
 import { DELIVERABLES_ENDPOINT, getDeliverablesByVariationUrl } from '../config/api-endpoints';
+import { Deliverable as DeliverableEntity } from '../types/odata-types';
 
 /**
  * Represents a Deliverable entity with backend-calculated fields
@@ -65,6 +66,29 @@ export const getDeliverables = async (token: string, projectId?: string): Promis
   }
 };
 
+/**
+ * Creates a new deliverable
+ * The server assigns the calculated fields (client/project number, booking code, total hours)
+ * @param deliverable The deliverable data to create
+ * @param token User authentication token
+ * @returns The created deliverable
+ */
+export const createDeliverable = async (
+  deliverable: Partial<DeliverableEntity>,
+  token: string
+): Promise<Deliverable> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.post<Deliverable>(DELIVERABLES_ENDPOINT, token, deliverable);
+  } catch (error) {
+    console.error('Error creating deliverable:', error);
+    throw error;
+  }
+};
+
 /**
  * Gets a suggested internal document number from the server
  * @param projectId Project GUID
@@ -0,0 +1,92 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { createEqualsFilter, createODataFilterParam } from '../utils/odata-filters';
+import { GRID_LAYOUTS_ENDPOINT } from '../config/api-endpoints';
+import { GridLayout } from '../types/odata-types';
+
+/**
+ * Grid layout adapter - provides methods for saving and loading named grid layouts
+ */
+
+/**
+ * Gets the layouts available for a grid: the user's own layouts and those shared with the team
+ * @param gridKey Identifies the grid the layouts belong to
+ * @param token User authentication token
+ * @returns Array of grid layouts
+ */
+export const getGridLayouts = async (gridKey: string, token: string): Promise<GridLayout[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    // The key may contain characters such as & or # that end the query string, so the value is encoded
+    const filter = createODataFilterParam(encodeURIComponent(createEqualsFilter('gridKey', gridKey.replace(/'/g, "''"))));
+    return await sharedApiService.getAll<GridLayout>(GRID_LAYOUTS_ENDPOINT, token, filter);
+  } catch (error) {
+    console.error('Error fetching grid layouts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Saves a new grid layout for the current user
+ * @param layout The layout to create
+ * @param token User authentication token
+ * @returns The created layout
+ */
+export const createGridLayout = async (
+  layout: Pick<GridLayout, 'guid' | 'gridKey' | 'name' | 'state' | 'isShared'>,
+  token: string
+): Promise<GridLayout> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.post<GridLayout>(GRID_LAYOUTS_ENDPOINT, token, layout);
+  } catch (error) {
+    console.error('Error creating grid layout:', error);
+    throw error;
+  }
+};
+
+/**
+ * Updates an existing grid layout (only the owner may update it)
+ * @param guid The GUID of the layout
+ * @param changes The fields to change
+ * @param token User authentication token
+ */
+export const updateGridLayout = async (
+  guid: string,
+  changes: Partial<Pick<GridLayout, 'name' | 'state' | 'isShared'>>,
+  token: string
+): Promise<void> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    await sharedApiService.update<GridLayout>(GRID_LAYOUTS_ENDPOINT, guid, changes, token);
+  } catch (error) {
+    console.error('Error updating grid layout:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes a grid layout (only the owner may delete it)
+ * @param guid The GUID of the layout
+ * @param token User authentication token
+ */
+export const deleteGridLayout = async (guid: string, token: string): Promise<void> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    await sharedApiService.delete(GRID_LAYOUTS_ENDPOINT, guid, token);
+  } catch (error) {
+    console.error('Error deleting grid layout:', error);
+    throw error;
+  }
+};
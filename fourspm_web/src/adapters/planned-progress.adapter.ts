@@ -0,0 +1,38 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { PLANNED_PROGRESS_ENDPOINT } from '../config/api-endpoints';
+import { PlannedProgress } from '../types/odata-types';
+
+/**
+ * Planned progress adapter - provides methods for maintaining the planned progress baseline
+ */
+
+/**
+ * Sets the planned cumulative percentage of a deliverable for one period
+ * Creates the baseline entry for the period or updates the existing one
+ * @param deliverableGuid The deliverable GUID
+ * @param period The reporting period
+ * @param cumulativePlannedPercentage Planned % up to and including the period (0..1)
+ * @param token User authentication token
+ * @returns The saved baseline entry
+ */
+export const updatePlannedProgress = async (
+  deliverableGuid: string,
+  period: number,
+  cumulativePlannedPercentage: number,
+  token: string
+): Promise<PlannedProgress> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.post<PlannedProgress>(
+      `${PLANNED_PROGRESS_ENDPOINT}/AddOrUpdateExisting`,
+      token,
+      { deliverableGuid, period, cumulativePlannedPercentage }
+    );
+  } catch (error) {
+    console.error(`Error updating planned progress for period ${period}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,91 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { createProjectFilterParam } from '../utils/odata-filters';
+import { PROGRESS_PERIOD_LOCKS_ENDPOINT } from '../config/api-endpoints';
+import { ProgressPeriodLock } from '../types/odata-types';
+
+/**
+ * Progress period lock adapter - provides methods for closing and reopening reporting periods
+ */
+
+/**
+ * Gets all period locks (active and reopened) for a project
+ * @param projectId Project GUID
+ * @param token User authentication token
+ * @returns Array of period locks for the project
+ */
+export const getProjectPeriodLocks = async (projectId: string, token: string): Promise<ProgressPeriodLock[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<ProgressPeriodLock>(
+      PROGRESS_PERIOD_LOCKS_ENDPOINT,
+      token,
+      createProjectFilterParam(projectId)
+    );
+  } catch (error) {
+    console.error('Error fetching period locks:', error);
+    throw error;
+  }
+};
+
+/**
+ * Closes a reporting period so its progress can no longer be changed
+ * @param projectId Project GUID
+ * @param period The period number to close
+ * @param token User authentication token
+ * @returns The created period lock
+ */
+export const closeProgressPeriod = async (
+  projectId: string,
+  period: number,
+  token: string
+): Promise<ProgressPeriodLock> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.post<ProgressPeriodLock>(
+      `${PROGRESS_PERIOD_LOCKS_ENDPOINT}/ClosePeriod`,
+      token,
+      { projectGuid: projectId, period }
+    );
+  } catch (error) {
+    console.error(`Error closing period ${period}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Reopens a closed reporting period, recording why it was reopened
+ * @param lockGuid The GUID of the active period lock
+ * @param reason The reason for reopening, kept for audit purposes
+ * @param token User authentication token
+ * @returns The updated period lock with reopen details
+ */
+export const reopenProgressPeriod = async (
+  lockGuid: string,
+  reason: string,
+  token: string
+): Promise<ProgressPeriodLock> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  if (!reason || !reason.trim()) {
+    throw new Error('A reason is required to reopen a period');
+  }
+
+  try {
+    return await sharedApiService.post<ProgressPeriodLock>(
+      `${PROGRESS_PERIOD_LOCKS_ENDPOINT}/ReopenPeriod/${lockGuid}`,
+      token,
+      { reason: reason.trim() }
+    );
+  } catch (error) {
+    console.error('Error reopening period:', error);
+    throw error;
+  }
+};
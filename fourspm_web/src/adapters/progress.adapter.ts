@@ -2,7 +2,32 @@
 import { v4 as uuidv4 } from 'uuid';
 import { DeliverableProgressDto } from '../types/index';
 import { sharedApiService } from '../api/shared-api.service';
-import { PROGRESS_ENDPOINT } from '../config/api-endpoints';
+import { PROGRESS_ENDPOINT, getDeliverablesWithProgressUrl } from '../config/api-endpoints';
+
+/**
+ * Gets all deliverables of a project with their progress values for one period
+ * @param projectId The project GUID
+ * @param period The reporting period
+ * @param token Authentication token for API access
+ * @returns Deliverables with progress percentages and earned hours for the period
+ */
+export const getDeliverablesWithProgress = async (
+  projectId: string,
+  period: number,
+  token: string
+): Promise<DeliverableProgressDto[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    const response = await sharedApiService.get<any>(getDeliverablesWithProgressUrl(projectId, period), token);
+    return response.value || [];
+  } catch (error) {
+    console.error(`Error fetching progress for period ${period}:`, error);
+    throw error;
+  }
+};
 
 /**
  * Custom function to handle progress updates
@@ -56,6 +81,7 @@ export const handleProgressUpdate = async (
       cumulativeEarntPercentage: totalEarnedPercentage, // Total earned percentage up to this period
       currentPeriodEarntPercentage: currentPeriodPercentage, // Percentage earned specifically in this period
       units: currentPeriodPercentage * totalHours, // Calculate units based on the available totalHours
+      cumulativeActualHours: values.cumulativeActualHours ?? oldData?.cumulativeActualHours ?? null, // Keep actual hours already booked
       createdBy: JSON.parse(localStorage.getItem('user') || '{}').accountId,
     };
     
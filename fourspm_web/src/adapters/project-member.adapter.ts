@@ -0,0 +1,27 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { PROJECT_MEMBERS_ENDPOINT } from '../config/api-endpoints';
+import { ProjectMember } from '../types/odata-types';
+
+/**
+ * Project member adapter - provides methods for loading project memberships
+ * Members are added and removed through the ODataGrid on the project members page
+ */
+
+/**
+ * Gets the projects the signed-in user is a member of
+ * The server identifies the user from the token
+ * @param token User authentication token
+ * @returns The user's memberships, one per project
+ */
+export const getMyProjectMemberships = async (token: string): Promise<ProjectMember[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<ProjectMember>(`${PROJECT_MEMBERS_ENDPOINT}/GetMyMemberships`, token);
+  } catch (error) {
+    console.error('Error fetching project memberships:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { sharedApiService } from '../api/shared-api.service';
+import { createProjectFilterParam } from '../utils/odata-filters';
+import { PROJECT_RATES_ENDPOINT } from '../config/api-endpoints';
+import { ProjectRate } from '../types/odata-types';
+
+/**
+ * Project rate adapter - provides methods for loading a project's hourly rate table
+ * Rates are edited through the ODataGrid on the project rates page
+ */
+
+/**
+ * Gets the hourly rates for a project
+ * @param projectId Project GUID
+ * @param token User authentication token
+ * @returns Array of rates for the project
+ */
+export const getProjectRates = async (projectId: string, token: string): Promise<ProjectRate[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<ProjectRate>(PROJECT_RATES_ENDPOINT, token, createProjectFilterParam(projectId));
+  } catch (error) {
+    console.error('Error fetching project rates:', error);
+    throw error;
+  }
+};
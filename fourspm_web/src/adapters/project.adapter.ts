@@ -1,5 +1,6 @@
-import { NavigationItem } from '../app-navigation';
+import { NavigationItem, filterNavigationByPermission } from '../app-navigation';
 import { Project, projectStatuses, ProjectNavigationItem } from '../types/index';
+import { ProjectMember } from '../types/odata-types';
 import { sharedApiService } from '../api/shared-api.service';
 import { PROJECTS_ENDPOINT } from '../config/api-endpoints';
 
@@ -31,17 +32,49 @@ export const fetchProject = async (projectId: string, userToken: string): Promis
   }
 };
 
+/**
+ * Gets the projects the user can see, without client details
+ * @param token User authentication token
+ * @returns Array of projects
+ */
+export const getProjects = async (token: string): Promise<Project[]> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    return await sharedApiService.getAll<Project>(PROJECTS_ENDPOINT, token);
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    throw error;
+  }
+};
+
 /**
  * Gets project navigation items for the application menu
  * @param token User authentication token
+ * @param memberships The user's project memberships; null lists every project (admins)
  * @returns Array of navigation items for projects
  */
-export const getProjectNavigation = async (token: string): Promise<NavigationItem[]> => {
+export const getProjectNavigation = async (
+  token: string,
+  memberships: ProjectMember[] | null = null
+): Promise<NavigationItem[]> => {
   try {
-    const projects: ProjectNavigationItem[] = await sharedApiService.getAll<ProjectNavigationItem>(
+    const allProjects: ProjectNavigationItem[] = await sharedApiService.getAll<ProjectNavigationItem>(
       PROJECTS_ENDPOINT,
       token
     );
+
+    // Members only see their own projects, with the pages their project role allows
+    const projectRoles = new Map(memberships?.map(membership => [membership.projectGuid, membership.projectRole]));
+    const projects = memberships
+      ? allProjects.filter(project => projectRoles.has(project.guid))
+      : allProjects;
+    const filterProjectItems = (projectGuid: string, items: NavigationItem[]) => {
+      const projectRole = projectRoles.get(projectGuid);
+      return projectRole ? filterNavigationByPermission(items, [projectRole]) : items;
+    };
     
     // Create status-based navigation structure
     const statusNavItems: NavigationItem[] = projectStatuses.map(status => ({
@@ -54,7 +87,7 @@ export const getProjectNavigation = async (token: string): Promise<NavigationIte
           text: `${project.projectNumber} - ${project.name}`,
           icon: 'folder',
           id: `project_${project.guid}`,
-          items: [
+          items: filterProjectItems(project.guid, [
             {
               text: 'Deliverables',
               path: `/projects/${project.guid}/deliverables`,
@@ -67,25 +100,58 @@ export const getProjectNavigation = async (token: string): Promise<NavigationIte
               icon: 'chart',
               id: `progress_${project.guid}`
             },
+            {
+              text: 'Progress Chart',
+              path: `/projects/${project.guid}/progress-chart`,
+              icon: 'chart',
+              id: `progress_chart_${project.guid}`
+            },
             {
               text: 'Variations',
               path: `/projects/${project.guid}/variations`,
               icon: 'detailslayout',
               id: `variations_${project.guid}`
             },
+            {
+              text: 'Baselines',
+              path: `/projects/${project.guid}/baselines`,
+              icon: 'copy',
+              id: `baselines_${project.guid}`
+            },
+            {
+              text: 'Rates',
+              path: `/projects/${project.guid}/rates`,
+              icon: 'money',
+              id: `rates_${project.guid}`,
+              permission: 'commercials.view'
+            },
+            {
+              text: 'Members',
+              path: `/projects/${project.guid}/members`,
+              icon: 'group',
+              id: `members_${project.guid}`,
+              permission: 'projects.manageMembers'
+            },
             {
               text: 'Areas',
               path: `/projects/${project.guid}/areas`,
               icon: 'map',
               id: `areas_${project.guid}`
             },
+            {
+              text: 'Recycle Bin',
+              path: `/projects/${project.guid}/recycle-bin`,
+              icon: 'trash',
+              id: `recycle_bin_${project.guid}`,
+              permission: 'deliverables.edit'
+            },
             {
               text: 'Project Details',
               path: `/projects/${project.guid}/profile`,
               icon: 'info',
               id: `details_${project.guid}`
             }
-          ]
+          ])
         }))
     }));
 
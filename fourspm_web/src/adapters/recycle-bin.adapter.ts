@@ -0,0 +1,47 @@
+import { sharedApiService } from '../api/shared-api.service';
+
+/**
+ * Recycle bin adapter - provides methods for restoring and purging soft-deleted records
+ * Deleted records are listed through the ODataGrid on the recycle bin page
+ */
+
+/**
+ * Restores a soft-deleted record
+ * The server clears deleted/deletedBy and records the restore in the audit log
+ * @param endpoint The entity set endpoint, e.g. DELIVERABLES_ENDPOINT
+ * @param guid The GUID of the deleted record
+ * @param token User authentication token
+ * @returns A promise that resolves when the record is restored
+ */
+export const restoreDeletedRecord = async (endpoint: string, guid: string, token: string): Promise<void> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    await sharedApiService.post<void>(`${endpoint}/Restore/${guid}`, token, {});
+  } catch (error) {
+    console.error('Error restoring record:', error);
+    throw error;
+  }
+};
+
+/**
+ * Permanently removes a soft-deleted record; it cannot be restored afterwards
+ * @param endpoint The entity set endpoint, e.g. DELIVERABLES_ENDPOINT
+ * @param guid The GUID of the deleted record
+ * @param token User authentication token
+ * @returns A promise that resolves when the record is purged
+ */
+export const purgeDeletedRecord = async (endpoint: string, guid: string, token: string): Promise<void> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+
+  try {
+    await sharedApiService.post<void>(`${endpoint}/Purge/${guid}`, token, {});
+  } catch (error) {
+    console.error('Error purging record:', error);
+    throw error;
+  }
+};
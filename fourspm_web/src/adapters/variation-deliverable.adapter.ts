@@ -7,11 +7,17 @@ import {
   DELIVERABLES_ENDPOINT, 
   VARIATION_DELIVERABLES_ENDPOINT, 
   getVariationDeliverablesEndpoint,
+  getProjectVariationDeliverablesEndpoint,
   getCancelDeliverableUrl
 } from '../config/api-endpoints';
 import { VariationDeliverableUiStatus } from '../types/app-types';
 import { Deliverable } from '../types/odata-types';
 import { getAuthHeaders } from '../utils/auth-headers';
+import { sessionService } from '../api/session.service';
+
+// Requests rejected with an expired token are retried once the session is refreshed
+const sendRequest = (url: string, init: RequestInit & { headers: Record<string, string> }, token?: string) =>
+  token ? sessionService.fetch(url, init, token) : fetch(url, init);
 
 /**
  * Get all deliverables for a specific project
@@ -20,10 +26,10 @@ import { getAuthHeaders } from '../utils/auth-headers';
  * @returns Promise with array of deliverables
  */
 export async function getProjectDeliverables(projectGuid: string, token?: string): Promise<Deliverable[]> {
-  const response = await fetch(`${DELIVERABLES_ENDPOINT}/ByProject/${projectGuid}`, {
+  const response = await sendRequest(`${DELIVERABLES_ENDPOINT}/ByProject/${projectGuid}`, {
     method: 'GET',
     headers: getAuthHeaders(token)
-  });
+  }, token);
   const data = await response.json();
   const deliverables = data.value.filter((d: any) => d !== null && d !== undefined) as Deliverable[];
   return deliverables;
@@ -39,10 +45,10 @@ export async function getVariationDeliverables(variationGuid: string, token?: st
   // Use the dedicated OData endpoint with filter for variationGuid
   const endpoint = getVariationDeliverablesEndpoint(variationGuid);
   
-  const response = await fetch(endpoint, {
+  const response = await sendRequest(endpoint, {
     method: 'GET',
     headers: getAuthHeaders(token)
-  });
+  }, token);
   
   if (!response.ok) {
     const errorText = await response.text();
@@ -56,6 +62,28 @@ export async function getVariationDeliverables(variationGuid: string, token?: st
   return deliverables.filter((d: any) => d !== null && d !== undefined) as Deliverable[];
 }
 
+/**
+ * Get the deliverables of every variation in a project in one request
+ * @param projectGuid The project GUID
+ * @param token Optional auth token
+ * @returns Promise with array of deliverables; each has the variationGuid it belongs to
+ */
+export async function getProjectVariationDeliverables(projectGuid: string, token?: string): Promise<Deliverable[]> {
+  const response = await sendRequest(getProjectVariationDeliverablesEndpoint(projectGuid), {
+    method: 'GET',
+    headers: getAuthHeaders(token)
+  }, token);
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to get project variation deliverables: ${errorText}`);
+  }
+  
+  const data = await response.json();
+  const deliverables = data.value || [];
+  return deliverables.filter((d: any) => d !== null && d !== undefined) as Deliverable[];
+}
+
 /**
  * Add an existing deliverable to a variation (creates a copy with 'Edit' status)
  * @param deliverable The complete deliverable entity with all required properties
@@ -83,7 +111,7 @@ export async function addExistingDeliverableToVariation(
   // If not, we'll be creating a new variation copy based on the original
   const targetGuid = deliverable.guid;
 
-  const response = await fetch(`${VARIATION_DELIVERABLES_ENDPOINT}(${targetGuid})`, {
+  const response = await sendRequest(`${VARIATION_DELIVERABLES_ENDPOINT}(${targetGuid})`, {
     method: 'PATCH',
     headers: {
       ...getAuthHeaders(token),
@@ -94,7 +122,7 @@ export async function addExistingDeliverableToVariation(
       ...deliverable,
       originalDeliverableGuid: originalGuid
     })
-  });
+  }, token);
   
   if (!response.ok) {
     const errorText = await response.text();
@@ -121,13 +149,13 @@ export async function cancelDeliverableVariation(
   // Use our new dedicated cancellation endpoint
   const url = getCancelDeliverableUrl(originalDeliverableGuid, variationGuid);
   
-  const response = await fetch(url, {
+  const response = await sendRequest(url, {
     method: 'POST',
     headers: {
       ...getAuthHeaders(token),
       'Content-Type': 'application/json'
     }
-  });
+  }, token);
   
   if (!response.ok) {
     const errorText = await response.text();
@@ -150,7 +178,7 @@ export async function addNewDeliverableToVariation(
   token?: string
 ): Promise<Deliverable> {
   // Use POST to the VariationDeliverables endpoint for creating new entities
-  const response = await fetch(`${VARIATION_DELIVERABLES_ENDPOINT}`, {
+  const response = await sendRequest(`${VARIATION_DELIVERABLES_ENDPOINT}`, {
     method: 'POST',
     headers: {
       ...getAuthHeaders(token),
@@ -158,7 +186,7 @@ export async function addNewDeliverableToVariation(
       'Prefer': 'return=representation'
     },
     body: JSON.stringify(data)
-  });
+  }, token);
   
   if (!response.ok) {
     const errorText = await response.text();
@@ -1,5 +1,5 @@
 import { sharedApiService } from '../api/shared-api.service';
-import { createProjectFilter } from '../utils/odata-filters';
+import { createProjectFilterParam } from '../utils/odata-filters';
 import { VARIATIONS_ENDPOINT } from '../config/api-endpoints';
 import { Variation } from '../types/odata-types';
 
@@ -17,7 +17,7 @@ export const getProjectVariations = async (projectId: string, token: string): Pr
   try {
     let query = '';
     if (projectId) {
-      query = createProjectFilter(projectId);
+      query = createProjectFilterParam(projectId);
     }
     
     return await sharedApiService.getAll<Variation>(VARIATIONS_ENDPOINT, token, query);
@@ -126,7 +126,8 @@ export const approveVariation = async (variationGuid: string, token: string): Pr
 };
 
 /**
- * Rejects a previously approved variation
+ * Records the client's rejection of a submitted variation, or rejects a previously approved one
+ * The server stamps rejected/rejectedBy and reverts any approved deliverables
  * @param variationGuid The GUID of the variation to reject
  * @param token User authentication token
  * @returns The updated variation with approval information cleared
@@ -145,3 +146,43 @@ export const rejectVariation = async (variationGuid: string, token: string): Pro
     throw error;
   }
 };
+
+/**
+ * Submits a draft variation to the client
+ * The server stamps submitted/submittedBy; the variation and its deliverables can no longer be edited
+ * @param variationGuid The GUID of the variation to submit
+ * @param token User authentication token
+ * @returns The updated variation with submission information
+ */
+export const submitVariation = async (variationGuid: string, token: string): Promise<Variation> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+  
+  try {
+    return await sharedApiService.post<Variation>(`${VARIATIONS_ENDPOINT}/SubmitVariation/${variationGuid}`, token, {});
+  } catch (error) {
+    console.error('Error submitting variation:', error);
+    throw error;
+  }
+};
+
+/**
+ * Withdraws a variation that is no longer being pursued
+ * The server stamps withdrawn/withdrawnBy; approved variations must be rejected first
+ * @param variationGuid The GUID of the variation to withdraw
+ * @param token User authentication token
+ * @returns The updated variation with withdrawal information
+ */
+export const withdrawVariation = async (variationGuid: string, token: string): Promise<Variation> => {
+  if (!token) {
+    throw new Error('Token is required');
+  }
+  
+  try {
+    return await sharedApiService.post<Variation>(`${VARIATIONS_ENDPOINT}/WithdrawVariation/${variationGuid}`, token, {});
+  } catch (error) {
+    console.error('Error withdrawing variation:', error);
+    throw error;
+  }
+};
@@ -1,12 +1,14 @@
 import defaultUser from '../utils/default-user';
 import { apiRequest } from './base-api.service';
-import { User } from '../types';
+import { User, UserProfile } from '../types';
+import { getRolesFromToken, isTokenExpired } from '../utils/token-utils';
+import { sessionService } from './session.service';
 import { 
   LOGIN_ENDPOINT, 
   LOGOUT_ENDPOINT, 
-  PROJECTS_ENDPOINT, 
   REGISTER_ENDPOINT, 
   CHANGE_PASSWORD_ENDPOINT, 
+  PROFILE_ENDPOINT, 
   RESET_PASSWORD_ENDPOINT 
 } from '../config/api-endpoints';
 
@@ -34,7 +36,9 @@ export async function signIn(email: string, password: string): Promise<ApiRespon
     const user: User = {
       ...defaultUser,
       token: data.token,
-      email
+      refreshToken: data.refreshToken,
+      email,
+      roles: getRolesFromToken(data.token)
     };
     // Store user in localStorage
     localStorage.setItem('user', JSON.stringify(user));
@@ -90,36 +94,29 @@ export async function getUser(): Promise<ApiResponse<User>> {
 
     const user: User = JSON.parse(userJson);
 
-    // Validate token with a backend request
-    try {
-      const response = await apiRequest(PROJECTS_ENDPOINT, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${user.token}`
-        }
-      });
-
-      if (response.ok) {
+    // An expired token is renewed with the refresh token before the session starts
+    // A token that is still valid is used until the API rejects it
+    if (isTokenExpired(user.token)) {
+      try {
+        const refreshedUser = await sessionService.refresh();
         return {
           isOk: true,
-          data: user
+          data: refreshedUser
         };
-      } else {
-        // Token is invalid
+      } catch {
         localStorage.removeItem('user');
         return {
           isOk: false,
           message: 'Token expired'
         };
       }
-    } catch (error) {
-      // Network or other error
-      localStorage.removeItem('user');
-      return {
-        isOk: false,
-        message: 'Failed to validate token'
-      };
     }
+
+    return {
+      isOk: true,
+      // Roles are always read from the token rather than trusted from storage
+      data: { ...user, roles: getRolesFromToken(user.token) }
+    };
   } catch {
     return {
       isOk: false,
@@ -230,3 +227,49 @@ export async function resetPassword(email: string): Promise<ApiResponse> {
     };
   }
 }
+
+/**
+ * Gets the signed-in user's profile
+ * @returns ApiResponse containing the profile or error message
+ */
+export async function getProfile(): Promise<ApiResponse<UserProfile>> {
+  try {
+    const response = await apiRequest(PROFILE_ENDPOINT, {
+      method: 'GET'
+    });
+
+    return {
+      isOk: true,
+      data: await response.json()
+    };
+  } catch {
+    return {
+      isOk: false,
+      message: 'Failed to load profile'
+    };
+  }
+}
+
+/**
+ * Saves the signed-in user's profile
+ * @param profile The profile to save; the email address cannot be changed here
+ * @returns ApiResponse containing the saved profile or error message
+ */
+export async function updateProfile(profile: UserProfile): Promise<ApiResponse<UserProfile>> {
+  try {
+    const response = await apiRequest(PROFILE_ENDPOINT, {
+      method: 'PUT',
+      body: JSON.stringify(profile)
+    });
+
+    return {
+      isOk: true,
+      data: await response.json()
+    };
+  } catch {
+    return {
+      isOk: false,
+      message: 'Failed to save profile'
+    };
+  }
+}
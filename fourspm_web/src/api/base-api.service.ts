@@ -1,9 +1,21 @@
 import { User } from '../types';
+import { API_CONFIG } from '../config/api';
+import { sessionService } from './session.service';
 
 export interface RequestOptions extends RequestInit {
   headers?: Record<string, string>;
 }
 
+// Sign-in and refresh requests answer 401 for bad credentials, not for an expired session
+const AUTH_PATHS = [
+  API_CONFIG.endpoints.login,
+  API_CONFIG.endpoints.refresh,
+  API_CONFIG.endpoints.register,
+  API_CONFIG.endpoints.resetPassword
+];
+
+const isAuthRequest = (url: string) => AUTH_PATHS.some(path => url.includes(path));
+
 class BaseApiService {
   /**
    * Makes an API request with consistent error handling and authentication
@@ -32,14 +44,14 @@ class BaseApiService {
     };
 
     try {
-      const response = await fetch(url, mergedOptions);
+      // Requests rejected with an expired token are retried once the session is refreshed
+      const response = user?.token && !isAuthRequest(url)
+        ? await sessionService.fetch(url, mergedOptions, user.token)
+        : await fetch(url, mergedOptions);
       
       if (!response.ok) {
         // Handle 401 Unauthorized specifically
         if (response.status === 401) {
-          // Clear stored user data and redirect to login
-          localStorage.removeItem('user');
-          window.location.href = '/login';
           throw new Error('Session expired. Please log in again.');
         }
 
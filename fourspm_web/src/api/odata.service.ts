@@ -1,4 +1,5 @@
 import { API_CONFIG } from '../config/api';
+import { sessionService } from './session.service';
 
 export interface ODataResponse<T> {
   value: T[];
@@ -18,9 +19,9 @@ export class ODataService {
 
   async get<T>(endpoint: string, token: string, query?: string): Promise<ODataResponse<T>> {
     const url = query ? `${endpoint}?${query}` : endpoint;
-    const response = await fetch(url, {
+    const response = await sessionService.fetch(url, {
       headers: this.getHeaders(token)
-    });
+    }, token);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -30,11 +31,11 @@ export class ODataService {
   }
 
   async post<T>(endpoint: string, token: string, data: any): Promise<T> {
-    const response = await fetch(endpoint, {
+    const response = await sessionService.fetch(endpoint, {
       method: 'POST',
       headers: this.getHeaders(token),
       body: JSON.stringify(data)
-    });
+    }, token);
 
     if (!response.ok) {
       // Try to get the detailed error message from the response
@@ -58,18 +59,20 @@ export class ODataService {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    return response.json();
+    // Actions such as Restore answer 204 No Content
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 
   async patch<T>(endpoint: string, token: string, id: string, data: Partial<T>): Promise<void> {
-    const response = await fetch(`${endpoint}(${id})`, {
+    const response = await sessionService.fetch(`${endpoint}(${id})`, {
       method: 'PATCH',
       headers: {
         ...this.getHeaders(token),
         'Prefer': 'return=minimal'
       },
       body: JSON.stringify(data)
-    });
+    }, token);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -77,10 +80,10 @@ export class ODataService {
   }
 
   async delete(endpoint: string, token: string, id: string): Promise<void> {
-    const response = await fetch(`${endpoint}(${id})`, {
+    const response = await sessionService.fetch(`${endpoint}(${id})`, {
       method: 'DELETE',
       headers: this.getHeaders(token)
-    });
+    }, token);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
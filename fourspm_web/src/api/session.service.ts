@@ -0,0 +1,182 @@
+import { User } from '../types';
+import { REFRESH_TOKEN_ENDPOINT } from '../config/api-endpoints';
+import { getRolesFromToken } from '../utils/token-utils';
+
+/**
+ * Session changes the auth context listens to
+ * - refreshed: the access token was renewed with the refresh token
+ * - expired: the refresh token was rejected; the user has to sign in again
+ * - resumed: the user signed in again after the session expired
+ */
+export type SessionEvent =
+  | { type: 'refreshed'; user: User }
+  | { type: 'expired' }
+  | { type: 'resumed'; user: User };
+
+type SessionListener = (event: SessionEvent) => void;
+
+interface WaitingRequest {
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+}
+
+class SessionService {
+  private listeners = new Set<SessionListener>();
+  private refreshPromise: Promise<User> | null = null;
+  private waitingRequests: WaitingRequest[] = [];
+  private expired = false;
+
+  /**
+   * Gets the signed-in user from localStorage
+   * @returns The stored user, or null when nobody is signed in
+   */
+  getStoredUser(): User | null {
+    const userJson = localStorage.getItem('user');
+    return userJson ? JSON.parse(userJson) : null;
+  }
+
+  /**
+   * Registers a listener for session changes
+   * @param listener Called with every session event
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Exchanges the refresh token for a new access token
+   * Concurrent callers share the same refresh request
+   * @returns The user with the new tokens
+   */
+  refresh(): Promise<User> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.sendRefreshRequest().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Gets a token to retry a request the API rejected with 401
+   * Refreshes the session, or waits for the user to sign in again when the refresh fails,
+   * so in-flight requests and unsaved changes survive an expired session
+   * @param rejectedToken The token the request was sent with
+   * @returns A valid token to retry the request with
+   */
+  async getTokenAfterUnauthorized(rejectedToken?: string): Promise<string> {
+    // Another request has already renewed the token
+    const storedToken = this.getStoredUser()?.token;
+    if (!this.expired && storedToken && storedToken !== rejectedToken) {
+      return storedToken;
+    }
+
+    if (!this.expired) {
+      try {
+        const user = await this.refresh();
+        return user.token;
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+        this.expire();
+      }
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      this.waitingRequests.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Fetches a URL with a bearer token, retrying once with a renewed token on 401
+   * @param url The URL to fetch
+   * @param init Request options; the Authorization header is set from the token
+   * @param token The user's access token
+   * @returns The response of the last attempt
+   */
+  async fetch(url: string, init: RequestInit & { headers?: Record<string, string> }, token: string): Promise<Response> {
+    const send = (bearer: string) => fetch(url, {
+      ...init,
+      headers: { ...(init.headers || {}), 'Authorization': `Bearer ${bearer}` }
+    });
+
+    const response = await send(token);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    return send(await this.getTokenAfterUnauthorized(token));
+  }
+
+  /**
+   * Marks the session as expired and asks the user to sign in again
+   */
+  expire(): void {
+    if (this.expired) return;
+    this.expired = true;
+    this.emit({ type: 'expired' });
+  }
+
+  /**
+   * Continues the session after the user signed in again
+   * Requests waiting for a token are retried with the new one
+   * @param user The newly signed-in user
+   */
+  resume(user: User): void {
+    this.expired = false;
+    this.emit({ type: 'resumed', user });
+
+    const waiting = this.waitingRequests;
+    this.waitingRequests = [];
+    waiting.forEach(request => request.resolve(user.token));
+  }
+
+  /**
+   * Ends the session when the user signs out; waiting requests fail
+   */
+  end(): void {
+    this.expired = false;
+
+    const waiting = this.waitingRequests;
+    this.waitingRequests = [];
+    waiting.forEach(request => request.reject(new Error('Signed out')));
+  }
+
+  private async sendRefreshRequest(): Promise<User> {
+    const storedUser = this.getStoredUser();
+    if (!storedUser?.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    const response = await fetch(REFRESH_TOKEN_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: storedUser.token, refreshToken: storedUser.refreshToken })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const user: User = {
+      ...storedUser,
+      token: data.token,
+      refreshToken: data.refreshToken || storedUser.refreshToken,
+      roles: getRolesFromToken(data.token)
+    };
+    localStorage.setItem('user', JSON.stringify(user));
+    this.emit({ type: 'refreshed', user });
+    return user;
+  }
+
+  private emit(event: SessionEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// Export a singleton instance
+export const sessionService = new SessionService();
@@ -1,3 +1,6 @@
+import { hasPermission, Permission } from './config/permissions';
+import { UserRole } from './types';
+
 export interface NavigationItem {
   text: string;
   path?: string;
@@ -5,6 +8,7 @@ export interface NavigationItem {
   items?: NavigationItem[];
   expanded?: boolean;
   id?: string;
+  permission?: Permission; // Hidden from users without this permission
 }
 
 export const getStaticNavigation = (): NavigationItem[] => [
@@ -18,7 +22,8 @@ export const getStaticNavigation = (): NavigationItem[] => [
     text: 'Client List',
     path: '/clients',
     icon: 'user',
-    id: 'client_maintenance'
+    id: 'client_maintenance',
+    permission: 'configuration.edit'
   },
   {
     text: 'Project List',
@@ -36,6 +41,7 @@ export const navigation: NavigationItem[] = [
     text: 'Configurations',
     icon: 'preferences',
     path: '',
+    permission: 'configuration.edit',
     items: [
       {
         text: 'Disciplines',
@@ -52,6 +58,22 @@ export const navigation: NavigationItem[] = [
         path: '/deliverable-gates',
         icon: 'check'
       },
+      {
+        text: 'Recycle Bin',
+        path: '/recycle-bin',
+        icon: 'trash'
+      },
     ],
   },
 ];
+
+/**
+ * Removes the navigation items a user does not have permission to open
+ * @param items Navigation items
+ * @param roles The user's roles
+ * @returns The items (and child items) the user can open
+ */
+export const filterNavigationByPermission = (items: NavigationItem[], roles: UserRole[]): NavigationItem[] =>
+  items
+    .filter(item => !item.permission || hasPermission(roles, item.permission))
+    .map(item => item.items ? { ...item, items: filterNavigationByPermission(item.items, roles) } : item);
@@ -1,6 +1,10 @@
 import { ComponentType } from 'react';
 import { RouteComponentProps } from 'react-router-dom';
+import { LoadPanel } from 'devextreme-react/load-panel';
 import { withNavigationWatcher } from './contexts/navigation';
+import { AccessDenied } from './components';
+import { usePermissions } from './hooks/utils/usePermissions';
+import { Permission } from './config/permissions';
 import { 
   // Main pages
   HomePage, 
@@ -15,16 +19,49 @@ import {
   DocumentTypesPage as DocumentTypes,
   DeliverableGatesPage as DeliverableGates,
   VariationsPage as Variations,
+  ProjectRatesPage as ProjectRates,
+  DeliverableBaselinesPage as DeliverableBaselines,
+  ProjectMembersPage as ProjectMembers,
+  RecycleBinPage as RecycleBin,
   
   // Profile & detail pages
   ProjectProfilePage as ProjectProfile,
   DeliverableProgressPage as DeliverableProgress,
-  VariationDeliverablesPage as VariationDeliverables
+  VariationDeliverablesPage as VariationDeliverables,
+  ProgressChartPage as ProgressChart
 } from './pages';
 
 interface RouteConfig {
   path: string;
   component: ComponentType<RouteComponentProps>;
+  permission?: Permission; // Required to open the route; omitted routes are open to every signed-in user
+}
+
+/**
+ * Shows the access denied message instead of a page the user does not have permission for
+ * Routes with a :projectId are only open to members of that project
+ */
+function withPermissionGuard(Component: ComponentType<RouteComponentProps>, path: string, permission?: Permission) {
+  if (!permission && !path.includes(':projectId')) return Component;
+
+  return function WithPermissionGuard(props: RouteComponentProps<{ projectId?: string }>) {
+    const { can, isProjectMember, isLoading } = usePermissions(props.match.params.projectId);
+
+    if (isLoading) {
+      return <LoadPanel visible={true} position={{ of: '.app-main-content' }} />;
+    }
+
+    if (!isProjectMember) {
+      return (
+        <AccessDenied
+          title="No access to this project"
+          message="You are not a member of this project. Ask the project manager to add you."
+        />
+      );
+    }
+
+    return !permission || can(permission) ? <Component {...props} /> : <AccessDenied />;
+  };
 }
 
 const routes: RouteConfig[] = [
@@ -44,10 +81,33 @@ const routes: RouteConfig[] = [
     path: '/projects/:projectId/progress',
     component: DeliverableProgress
   },
+  {
+    path: '/projects/:projectId/progress-chart',
+    component: ProgressChart
+  },
   {
     path: '/projects/:projectId/variations',
     component: Variations
   },
+  {
+    path: '/projects/:projectId/rates',
+    component: ProjectRates,
+    permission: 'commercials.view'
+  },
+  {
+    path: '/projects/:projectId/baselines',
+    component: DeliverableBaselines
+  },
+  {
+    path: '/projects/:projectId/members',
+    component: ProjectMembers,
+    permission: 'projects.manageMembers'
+  },
+  {
+    path: '/projects/:projectId/recycle-bin',
+    component: RecycleBin,
+    permission: 'deliverables.edit'
+  },
   {
     path: '/variations/:variationId/deliverables',
     component: VariationDeliverables
@@ -58,19 +118,28 @@ const routes: RouteConfig[] = [
   },
   {
     path: '/clients',
-    component: Clients
+    component: Clients,
+    permission: 'configuration.edit'
   },
   {
     path: '/disciplines',
-    component: Disciplines
+    component: Disciplines,
+    permission: 'configuration.edit'
   },
   {
     path: '/document-types',
-    component: DocumentTypes
+    component: DocumentTypes,
+    permission: 'configuration.edit'
   },
   {
     path: '/deliverable-gates',
-    component: DeliverableGates
+    component: DeliverableGates,
+    permission: 'configuration.edit'
+  },
+  {
+    path: '/recycle-bin',
+    component: RecycleBin,
+    permission: 'configuration.edit'
   },
   {
     path: '/profile',
@@ -84,5 +153,5 @@ const routes: RouteConfig[] = [
 
 export default routes.map(route => ({
   ...route,
-  component: withNavigationWatcher(route.component)
+  component: withNavigationWatcher(withPermissionGuard(route.component, route.path, route.permission))
 }));
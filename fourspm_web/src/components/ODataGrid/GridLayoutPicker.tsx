@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import SelectBox from 'devextreme-react/select-box';
+import DropDownButton from 'devextreme-react/drop-down-button';
+import { Popup } from 'devextreme-react/popup';
+import TextBox from 'devextreme-react/text-box';
+import CheckBox from 'devextreme-react/check-box';
+import Button from 'devextreme-react/button';
+import notify from 'devextreme/ui/notify';
+import { confirm } from 'devextreme/ui/dialog';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from '../../contexts/auth';
+import { GridLayout } from '../../types/odata-types';
+import {
+  createGridLayout,
+  deleteGridLayout,
+  getGridLayouts,
+  updateGridLayout
+} from '../../adapters/grid-layout.adapter';
+
+interface GridLayoutPickerProps {
+  gridKey: string;
+  getState: () => any;
+  applyState: (state: any | null) => void; // null restores the default layout
+}
+
+// Remembers the last layout chosen for each grid so it is reapplied on the next visit
+const getStorageKey = (gridKey: string) => `gridLayout:${gridKey}`;
+
+/**
+ * Picker for saving and applying named grid layouts
+ * Layouts are stored on the server per user and grid; owners can share a layout with the whole team
+ */
+export const GridLayoutPicker: React.FC<GridLayoutPickerProps> = ({ gridKey, getState, applyState }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['gridLayouts', gridKey];
+
+  const { data: layouts = [] } = useQuery({
+    queryKey,
+    queryFn: () => getGridLayouts(gridKey, user?.token || ''),
+    enabled: !!user?.token,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const [selectedGuid, setSelectedGuid] = useState<string | null>(
+    () => localStorage.getItem(getStorageKey(gridKey))
+  );
+  const [isSaveAsVisible, setIsSaveAsVisible] = useState(false);
+  const [newLayoutName, setNewLayoutName] = useState('');
+  const [newLayoutShared, setNewLayoutShared] = useState(false);
+
+  const selectedLayout = layouts.find(layout => layout.guid === selectedGuid) || null;
+
+  // Reapply the remembered layout once the layouts have loaded
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current || !layouts.length) return;
+    restoredRef.current = true;
+    if (selectedLayout) {
+      applyState(JSON.parse(selectedLayout.state));
+    }
+  }, [layouts, selectedLayout, applyState]);
+
+  const rememberSelection = (guid: string | null) => {
+    setSelectedGuid(guid);
+    if (guid) {
+      localStorage.setItem(getStorageKey(gridKey), guid);
+    } else {
+      localStorage.removeItem(getStorageKey(gridKey));
+    }
+  };
+
+  const refreshLayouts = () => queryClient.invalidateQueries({ queryKey });
+
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      await action();
+      await refreshLayouts();
+      notify(successMessage, 'success', 2000);
+    } catch (error) {
+      notify(`Layout could not be saved: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    }
+  };
+
+  const handleLayoutChanged = (e: any) => {
+    // Only react to the user picking a layout, not to programmatic value changes
+    if (!e.event) return;
+
+    const layout = layouts.find(item => item.guid === e.value);
+    rememberSelection(layout ? layout.guid : null);
+    applyState(layout ? JSON.parse(layout.state) : null);
+  };
+
+  const handleSaveAs = async () => {
+    const name = newLayoutName.trim();
+    if (!name) return;
+
+    const guid = uuidv4();
+    await runAction(async () => {
+      await createGridLayout({
+        guid,
+        gridKey,
+        name,
+        state: JSON.stringify(getState()),
+        isShared: newLayoutShared
+      }, user?.token || '');
+      rememberSelection(guid);
+    }, `Layout "${name}" saved`);
+    setIsSaveAsVisible(false);
+  };
+
+  const handleMenuItemClick = async (e: any) => {
+    switch (e.itemData.id) {
+      case 'save':
+        if (selectedLayout) {
+          await runAction(
+            () => updateGridLayout(selectedLayout.guid, { state: JSON.stringify(getState()) }, user?.token || ''),
+            `Layout "${selectedLayout.name}" updated`
+          );
+        }
+        break;
+      case 'saveAs':
+        setNewLayoutName('');
+        setNewLayoutShared(false);
+        setIsSaveAsVisible(true);
+        break;
+      case 'share':
+        if (selectedLayout) {
+          await runAction(
+            () => updateGridLayout(selectedLayout.guid, { isShared: !selectedLayout.isShared }, user?.token || ''),
+            selectedLayout.isShared ? 'Layout is no longer shared' : 'Layout shared with the team'
+          );
+        }
+        break;
+      case 'delete':
+        if (selectedLayout && await confirm(`Delete the layout "${selectedLayout.name}"?`, 'Delete Layout')) {
+          await runAction(async () => {
+            await deleteGridLayout(selectedLayout.guid, user?.token || '');
+            rememberSelection(null);
+          }, 'Layout deleted');
+        }
+        break;
+      case 'reset':
+        rememberSelection(null);
+        applyState(null);
+        break;
+    }
+  };
+
+  const isOwner = !!selectedLayout?.isOwner;
+  const menuItems = [
+    { id: 'save', text: 'Save', icon: 'save', disabled: !isOwner },
+    { id: 'saveAs', text: 'Save as new layout...', icon: 'plus' },
+    {
+      id: 'share',
+      text: selectedLayout?.isShared ? 'Stop sharing' : 'Share with team',
+      icon: 'group',
+      disabled: !isOwner
+    },
+    { id: 'delete', text: 'Delete', icon: 'trash', disabled: !isOwner },
+    { id: 'reset', text: 'Reset to default', icon: 'revert' }
+  ];
+
+  return (
+    <div className="grid-layout-picker">
+      <SelectBox
+        items={layouts}
+        valueExpr="guid"
+        displayExpr={(layout: GridLayout | null) => layout ? `${layout.name}${layout.isShared ? ' (shared)' : ''}` : ''}
+        value={selectedLayout?.guid ?? null}
+        onValueChanged={handleLayoutChanged}
+        placeholder="Default layout"
+        showClearButton={true}
+        width={220}
+        stylingMode="outlined"
+      />
+      <DropDownButton
+        icon="preferences"
+        hint="Layout options"
+        items={menuItems}
+        displayExpr="text"
+        keyExpr="id"
+        showArrowIcon={false}
+        useSelectMode={false}
+        dropDownOptions={{ width: 200 }}
+        onItemClick={handleMenuItemClick}
+      />
+
+      <Popup
+        visible={isSaveAsVisible}
+        onHiding={() => setIsSaveAsVisible(false)}
+        title="Save Layout"
+        showCloseButton={true}
+        width={360}
+        height="auto"
+      >
+        <div className="grid-layout-save-form">
+          <TextBox
+            value={newLayoutName}
+            onValueChanged={(e) => setNewLayoutName(e.value)}
+            valueChangeEvent="keyup"
+            label="Layout name"
+            placeholder="e.g. Issued for Construction"
+            maxLength={100}
+          />
+          <CheckBox
+            value={newLayoutShared}
+            onValueChanged={(e) => setNewLayoutShared(e.value)}
+            text="Share with the whole team"
+          />
+          <div className="grid-layout-save-actions">
+            <Button
+              text="Save"
+              type="default"
+              stylingMode="contained"
+              onClick={handleSaveAs}
+              disabled={!newLayoutName.trim()}
+            />
+            <Button text="Cancel" stylingMode="outlined" onClick={() => setIsSaveAsVisible(false)} />
+          </div>
+        </div>
+      </Popup>
+    </div>
+  );
+};
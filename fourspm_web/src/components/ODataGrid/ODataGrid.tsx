@@ -1,4 +1,5 @@
-import React, { useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import { Properties } from 'devextreme/ui/data_grid';
 import DataGrid, {
   Column,
@@ -8,13 +9,26 @@ import DataGrid, {
   Lookup,
   Sorting,
   Summary,
-  TotalItem
+  TotalItem,
+  GroupItem,
+  Selection,
+  ColumnChooser,
+  GroupPanel,
+  Grouping,
+  HeaderFilter
 } from 'devextreme-react/data-grid';
 import ODataStore from 'devextreme/data/odata/store';
 import DataSource, { Options } from 'devextreme/data/data_source';
 import { useAuth } from '../../contexts/auth';
+import { useUndo } from '../../contexts/undo/undo-context';
+import { useGridUndo } from '../../hooks/utils/useGridUndo';
+import { sessionService } from '../../api/session.service';
 import notify from 'devextreme/ui/notify';
 import { useScreenSizeClass } from '../../utils/media-query';
+import { exportGrid, GridExportFormat } from '../../utils/grid-export-utils';
+import { getEntitySetName } from '../../utils/grid-utils';
+import { GridLayoutPicker } from './GridLayoutPicker';
+import { ChangeHistoryPopup } from '../change-history-popup/change-history-popup';
 
 export interface ODataGridColumn extends Partial<Column> {
   // Standard column properties
@@ -51,6 +65,12 @@ export interface ODataGridColumn extends Partial<Column> {
   showSummary?: boolean;
   summaryType?: 'sum' | 'avg' | 'min' | 'max' | 'count';
   summaryFormat?: string | object;
+  allowGrouping?: boolean; // Column can be dragged to the group panel (when the grid shows it)
+  groupIndex?: number; // Group by this column initially
+  allowHeaderFiltering?: boolean; // Set to false to hide the header filter icon for this column
+  calculateCellValue?: (rowData: any) => any; // Client-side calculated value; disable sorting and filtering as the server can't apply them
+  allowSorting?: boolean;
+  allowFiltering?: boolean;
   
   // Command column properties
   type?: 'buttons' | 'detailExpand' | 'selection';
@@ -84,7 +104,10 @@ interface ODataGridProps {
   onEditorPreparing?: (e: any) => void;
   onInitialized?: (e: any) => void;
   onSaving?: (e: any) => void;
-  defaultFilter?: [string, string, any][];
+  onSelectionChanged?: (e: any) => void;
+  onRowPrepared?: (e: any) => void;
+  selectionMode?: 'none' | 'single' | 'multiple'; // Row selection, off by default
+  defaultFilter?: any[]; // DevExtreme filter expression, e.g. [['projectGuid', '=', projectId]]
   defaultSort?: { selector: string; desc: boolean }[];
   expand?: string[];
   showRecordCount?: boolean;
@@ -92,8 +115,29 @@ interface ODataGridProps {
   customGridHeight?: string | number;
   loading?: boolean; // Loading state prop
   storeOptions?: any; // Options passed to the ODataStore
+  allowExport?: boolean; // Show the Excel/CSV export button, on by default
+  allowLayouts?: boolean; // Show the saved layout picker, on by default
+  showColumnChooser?: boolean; // Let users hide and show columns
+  showGroupPanel?: boolean; // Group by columns marked allowGrouping, with per-group summaries
+  showHeaderFilter?: boolean; // Excel-style value filters in column headers
+  layoutKey?: string; // Overrides the key layouts are saved under (defaults to route + title)
+  allowHistory?: boolean; // Offer "View change history" in the row context menu, on by default
+  historyEntity?: string; // Entity set the rows are audited under (defaults to the endpoint's entity set)
+  allowUndo?: boolean; // Record saved rows in the undo history, on by default for endpoint grids
 }
 
+// Grid state that belongs to the current session rather than to a saved layout
+const TRANSIENT_STATE_KEYS = ['selectedRowKeys', 'focusedRowKey', 'pageIndex', 'searchText'];
+
+/**
+ * Builds the key layouts are stored under from the current route and grid title
+ * GUIDs are replaced so a layout saved on one project applies to the same page of every project
+ */
+const getDefaultLayoutKey = (pathname: string, title: string): string => {
+  const route = pathname.replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, ':id');
+  return title.trim() ? `${route}|${title.trim()}` : route;
+};
+
 export const ODataGrid: React.FC<ODataGridProps> = ({
   title,
   endpoint,
@@ -112,6 +156,9 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
   onEditorPreparing,
   onInitialized,
   onSaving: onSavingProp,
+  onSelectionChanged,
+  onRowPrepared,
+  selectionMode = 'none',
   defaultFilter = [],
   defaultSort,
   expand,
@@ -120,157 +167,219 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
   customGridHeight,
   loading = false, // Default to false if not provided
   storeOptions = {}, // Default to empty object if not provided
+  allowExport = true,
+  allowLayouts = true,
+  layoutKey,
+  showColumnChooser = false,
+  showGroupPanel = false,
+  showHeaderFilter = false,
+  allowHistory = true,
+  historyEntity,
+  allowUndo = true,
 }) => {
   const { user } = useAuth();
   const token = user?.token;
   const dataGridRef = useRef<DataGrid>(null);
   const screenSizeClass = useScreenSizeClass();
+  const location = useLocation();
+  const gridLayoutKey = layoutKey || getDefaultLayoutKey(location.pathname, title);
+  const historyEntityName = allowHistory ? historyEntity || getEntitySetName(endpoint) : undefined;
+  const [historyRow, setHistoryRow] = useState<{ key: string; title: string } | null>(null);
 
-  let dataSourceInstance;
+  // Keep the latest token in a ref so the memoized store always sends a current token
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
 
-  // Use the provided custom dataSource if available, otherwise create one from the endpoint
-  if (customDataSource) {
-    dataSourceInstance = customDataSource;
-  } else if (endpoint) {
-    // Only create an ODataStore if an endpoint is provided
-    // Merge default options with the provided storeOptions
-    let store = new ODataStore({
-      url: endpoint,
-      version: 4,
-      key: keyField,
-      keyType: 'Guid',
-      // Merge default fieldTypes with those provided in storeOptions.fieldTypes
-      fieldTypes: {
-        projectGuid: 'Guid',
-        ...(storeOptions.fieldTypes || {})
-      },
-      beforeSend: (options: any) => {
-        if (!token) {
-          return false;
-        }
+  // Saved rows can be undone from anywhere in the app; reload when a change is undone or redone
+  const getToken = useCallback(() => tokenRef.current, []);
+  const { trackRowUpdating, handleRowUpdated, handleRowInserted, handleRowRemoved } = useGridUndo({
+    endpoint: customDataSource ? undefined : endpoint,
+    title,
+    columns,
+    getToken,
+    enabled: allowUndo
+  });
+  const { state: { revision: undoRevision } } = useUndo();
+  const loadedUndoRevision = useRef(undoRevision);
+  useEffect(() => {
+    if (undoRevision === loadedUndoRevision.current) return;
+    loadedUndoRevision.current = undoRevision;
+    dataGridRef.current?.instance.refresh();
+  }, [undoRevision]);
+
+  // Serialized option values used to decide when the data source must be rebuilt
+  // Parent re-renders (e.g. selection changes) must not reload the grid and lose its state
+  const dataSourceKey = JSON.stringify({
+    endpoint,
+    keyField,
+    defaultFilter,
+    defaultSort,
+    expand,
+    fieldTypes: storeOptions.fieldTypes
+  });
+
+  const dataSourceInstance = useMemo(() => {
+    // Use the provided custom dataSource if available, otherwise create one from the endpoint
+    if (customDataSource) {
+      return customDataSource;
+    } else if (endpoint) {
+      // Only create an ODataStore if an endpoint is provided
+      // Merge default options with the provided storeOptions
+      let store = new ODataStore({
+        url: endpoint,
+        version: 4,
+        key: keyField,
+        keyType: 'Guid',
+        // Merge default fieldTypes with those provided in storeOptions.fieldTypes
+        fieldTypes: {
+          projectGuid: 'Guid',
+          ...(storeOptions.fieldTypes || {})
+        },
+        beforeSend: (options: any) => {
+          const token = tokenRef.current;
+          if (!token) {
+            return false;
+          }
   
-        options.headers = {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/json'
-        };
+          options.headers = {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'application/json'
+          };
   
-        // Handle expand parameter based on the request method
-        const url = new URL(options.url);
-        const method = (options.method || '').toLowerCase();
+          // Handle expand parameter based on the request method
+          const url = new URL(options.url);
+          const method = (options.method || '').toLowerCase();
         
-        if (method === 'get' && expand) {
-          url.searchParams.set('$expand', expand.join(','));
-        } else {
-          url.searchParams.delete('$expand');
-        }
+          if (method === 'get' && expand) {
+            url.searchParams.set('$expand', expand.join(','));
+          } else {
+            url.searchParams.delete('$expand');
+          }
         
-        if ((method === 'patch' || method === 'put' || method === 'post') && expand && options.payload) {
-          try {
-            if (typeof options.payload === 'object' && options.payload !== null) {
-              expand.forEach(navProp => {
-                delete options.payload[navProp];
-                delete options.payload[navProp.toLowerCase()];
-              });
-            } else if (typeof options.payload === 'string') {
-              const payload = JSON.parse(options.payload);
-              let modified = false;
+          if ((method === 'patch' || method === 'put' || method === 'post') && expand && options.payload) {
+            try {
+              if (typeof options.payload === 'object' && options.payload !== null) {
+                expand.forEach(navProp => {
+                  delete options.payload[navProp];
+                  delete options.payload[navProp.toLowerCase()];
+                });
+              } else if (typeof options.payload === 'string') {
+                const payload = JSON.parse(options.payload);
+                let modified = false;
               
-              expand.forEach(navProp => {
-                if (payload.hasOwnProperty(navProp) || payload.hasOwnProperty(navProp.toLowerCase())) {
-                  delete payload[navProp];
-                  delete payload[navProp.toLowerCase()];
-                  modified = true;
-                }
-              });
+                expand.forEach(navProp => {
+                  if (payload.hasOwnProperty(navProp) || payload.hasOwnProperty(navProp.toLowerCase())) {
+                    delete payload[navProp];
+                    delete payload[navProp.toLowerCase()];
+                    modified = true;
+                  }
+                });
               
-              if (modified) {
-                options.payload = JSON.stringify(payload);
+                if (modified) {
+                  options.payload = JSON.stringify(payload);
+                }
               }
+            } catch (error) {
+              console.error('Error modifying payload:', error);
             }
-          } catch (error) {
-            console.error('Error modifying payload:', error);
           }
-        }
         
-        options.url = url.toString();
+          options.url = url.toString();
   
-        // Set appropriate headers for all HTTP methods
-        if (options.method === 'PUT' || options.method === 'PATCH' || options.method === 'POST') {
-          options.headers['Content-Type'] = 'application/json;odata.metadata=minimal;odata.streaming=true';
-          options.headers['Prefer'] = 'return=minimal';
-        }
+          // Set appropriate headers for all HTTP methods
+          if (options.method === 'PUT' || options.method === 'PATCH' || options.method === 'POST') {
+            options.headers['Content-Type'] = 'application/json;odata.metadata=minimal;odata.streaming=true';
+            options.headers['Prefer'] = 'return=minimal';
+          }
         
-        return true;
-      },
-      errorHandler: (error) => {
-        // Handle unauthorized access by redirecting to login
-        if (error.httpStatus === 401) {
-          localStorage.removeItem('user');
-          window.location.href = '/login';
           return true;
-        }
+        },
+        errorHandler: (error) => {
+          // Keep the page and any unsaved changes when the session expires
+          // Once the session is refreshed or the user signs in again, retry the save or reload
+          if (error.httpStatus === 401) {
+            sessionService.getTokenAfterUnauthorized(tokenRef.current)
+              .then(newToken => {
+                // Send the retry with the new token; tokenRef only follows it after the next render
+                tokenRef.current = newToken;
+                const grid = dataGridRef.current?.instance;
+                if (!grid) return;
+                if (grid.hasEditData()) {
+                  grid.saveEditData();
+                } else {
+                  grid.refresh();
+                }
+              })
+              .catch(() => {});
+            return true;
+          }
         
-        // Extract error message from the error object
-        // DevExtreme OData errors can have the message in different places
-        let errorMessage = '';
-        if (error.errorDetails && error.errorDetails.message) {
-          errorMessage = error.errorDetails.message;
-        } else if (error.errorDetails && typeof error.errorDetails === 'string') {
-          errorMessage = error.errorDetails;
-        } else if (error.requestOptions && error.requestOptions.data) {
-          errorMessage = 'Operation failed';
-        }
+          // Extract error message from the error object
+          // DevExtreme OData errors can have the message in different places
+          let errorMessage = '';
+          if (error.errorDetails && error.errorDetails.message) {
+            errorMessage = error.errorDetails.message;
+          } else if (error.errorDetails && typeof error.errorDetails === 'string') {
+            errorMessage = error.errorDetails;
+          } else if (error.requestOptions && error.requestOptions.data) {
+            errorMessage = 'Operation failed';
+          }
         
-        // Handle validation errors (HTTP 400) using toast notifications
-        if (error.httpStatus === 400) {
-          notify({
-            message: errorMessage || 'Cannot complete operation due to validation errors',
-            type: 'error',
-            displayTime: 3500,
-            position: {
-              at: 'top center',
-              my: 'top center',
-              offset: '0 10'
-            },
-            width: 'auto',
-            animation: {
-              show: { type: 'fade', duration: 300, from: 0, to: 1 },
-              hide: { type: 'fade', duration: 300, from: 1, to: 0 }
-            }
-          });
-          return true;
-        }
+          // Handle validation errors (HTTP 400) using toast notifications
+          if (error.httpStatus === 400) {
+            notify({
+              message: errorMessage || 'Cannot complete operation due to validation errors',
+              type: 'error',
+              displayTime: 3500,
+              position: {
+                at: 'top center',
+                my: 'top center',
+                offset: '0 10'
+              },
+              width: 'auto',
+              animation: {
+                show: { type: 'fade', duration: 300, from: 0, to: 1 },
+                hide: { type: 'fade', duration: 300, from: 1, to: 0 }
+              }
+            });
+            return true;
+          }
         
-        // Handle server errors (HTTP 500) using toast notifications
-        if (error.httpStatus >= 500) {
-          notify({
-            message: errorMessage || 'A server error occurred. Please try again later.',
-            type: 'error',
-            displayTime: 3500,
-            position: {
-              at: 'top center',
-              my: 'top center',
-              offset: '0 10'
-            }
-          });
-          return true;
-        }
+          // Handle server errors (HTTP 500) using toast notifications
+          if (error.httpStatus >= 500) {
+            notify({
+              message: errorMessage || 'A server error occurred. Please try again later.',
+              type: 'error',
+              displayTime: 3500,
+              position: {
+                at: 'top center',
+                my: 'top center',
+                offset: '0 10'
+              }
+            });
+            return true;
+          }
         
-        return false;
-      }
-    });
+          return false;
+        }
+      });
   
-    let dataSourceOptions: Options = {
-      store,
-      sort: defaultSort || [{ selector: 'created', desc: true }]
-    };
+      let dataSourceOptions: Options = {
+        store,
+        sort: defaultSort || [{ selector: 'created', desc: true }]
+      };
   
-    if (defaultFilter.length > 0) {
-      dataSourceOptions.filter = defaultFilter;
-    }
+      if (defaultFilter.length > 0) {
+        dataSourceOptions.filter = defaultFilter;
+      }
   
-    dataSourceInstance = new DataSource(dataSourceOptions);
-  } else {
+      return new DataSource(dataSourceOptions);
+    }
+    return null;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customDataSource, dataSourceKey]);
+
+  if (!dataSourceInstance) {
     // Throw error if neither endpoint nor dataSource is provided
     throw new Error('Either endpoint or dataSource must be provided to ODataGrid');
   }
@@ -313,6 +422,12 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
     }
   };
 
+  // The page's handler runs first so the undo history sees its changes to newData
+  const handleRowUpdating = (e: any) => {
+    onRowUpdating?.(e);
+    trackRowUpdating(e);
+  };
+
   const onSaving = (e: any) => {
     if (!e.changes || !e.changes.length) return;
 
@@ -344,9 +459,87 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
     }
   };
 
+  // Export all rows (not just the loaded page) with the grid's current filter and sort
+  const handleExport = async (format: GridExportFormat) => {
+    const component = dataGridRef.current?.instance;
+    if (!component) return;
+
+    component.beginCustomLoading('Exporting...');
+    try {
+      await exportGrid(component, title, format);
+    } catch (error) {
+      console.error('Error exporting grid:', error);
+      notify(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    } finally {
+      component.endCustomLoading();
+    }
+  };
+
+  // Current column, filter, sort and grouping state for saving as a layout
+  const getLayoutState = useCallback(() => {
+    const state = { ...(dataGridRef.current?.instance.state() || {}) };
+    TRANSIENT_STATE_KEYS.forEach(key => delete state[key]);
+    return state;
+  }, []);
+
+  // Apply a saved layout, or restore the columns and filters the page defines when null
+  const applyLayoutState = useCallback((state: any | null) => {
+    dataGridRef.current?.instance.state(state || {});
+  }, []);
+
+  // Open the change history of a row from its context menu
+  const onContextMenuPreparing = (e: any) => {
+    if (!historyEntityName || e.target !== 'content' || e.row?.rowType !== 'data') return;
+
+    const titleColumn = columns.find(column => column.dataField && column.type !== 'buttons');
+    const rowTitle = titleColumn?.dataField ? e.row.data[titleColumn.dataField] : '';
+    e.items = [
+      ...(e.items || []),
+      {
+        text: 'View change history',
+        icon: 'clock',
+        onItemClick: () => setHistoryRow({ key: e.row.key, title: rowTitle ? String(rowTitle) : '' })
+      }
+    ];
+  };
+
+  // Add the export menu to the grid toolbar
+  const onToolbarPreparing = (e: any) => {
+    if (!allowExport) return;
+
+    e.toolbarOptions.items.unshift({
+      location: 'after',
+      widget: 'dxDropDownButton',
+      name: 'exportButton',
+      options: {
+        icon: 'export',
+        hint: 'Export',
+        displayExpr: 'text',
+        keyExpr: 'format',
+        showArrowIcon: false,
+        useSelectMode: false,
+        dropDownOptions: { width: 160 },
+        items: [
+          { format: 'xlsx', text: 'Export to Excel', icon: 'xlsxfile' },
+          { format: 'csv', text: 'Export to CSV', icon: 'textdocument' }
+        ],
+        onItemClick: (itemEvent: any) => handleExport(itemEvent.itemData.format)
+      }
+    });
+  };
+
   return (
     <React.Fragment>
-      <h2 className={'content-block'}>{title}</h2>
+      <div className="odata-grid-header">
+        <h2 className={'content-block'}>{title}</h2>
+        {allowLayouts && (
+          <GridLayoutPicker
+            gridKey={gridLayoutKey}
+            getState={getLayoutState}
+            applyState={applyLayoutState}
+          />
+        )}
+      </div>
       <div 
         className="grid-container" 
         style={{ 
@@ -387,16 +580,30 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
             useIcons: true
           }}
           onCellPrepared={onCellPrepared}
-          onRowUpdating={onRowUpdating}
+          onRowUpdating={handleRowUpdating}
           onRowInserting={onRowInserting}
           onRowRemoving={onRowRemoving}
+          onRowUpdated={handleRowUpdated}
+          onRowInserted={handleRowInserted}
+          onRowRemoved={handleRowRemoved}
           onInitNewRow={onInitNewRow}
           onRowValidating={handleRowValidating}
           onEditorPreparing={onEditorPreparing}
           onInitialized={onInitialized}
           onSaving={onSaving}
+          onSelectionChanged={onSelectionChanged}
+          onRowPrepared={onRowPrepared}
+          onToolbarPreparing={onToolbarPreparing}
+          onContextMenuPreparing={onContextMenuPreparing}
         >
           <Sorting mode="multiple" />
+          {selectionMode !== 'none' && (
+            <Selection
+              mode={selectionMode}
+              showCheckBoxesMode="always"
+              selectAllMode="page"
+            />
+          )}
           {screenSizeClass === 'screen-x-small' || screenSizeClass === 'screen-small' ? (
             <>
               <Paging defaultPageSize={defaultPageSize} />
@@ -406,6 +613,12 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
             <Paging enabled={false} />
           )}
           <FilterRow visible={true} />
+          {showHeaderFilter && <HeaderFilter visible={true} allowSearch={true} />}
+          {showColumnChooser && <ColumnChooser enabled={true} mode="select" />}
+          {showGroupPanel && (
+            <GroupPanel visible={true} emptyPanelText="Drag a column header here to group by that column" />
+          )}
+          <Grouping autoExpandAll={false} contextMenuEnabled={showGroupPanel} />
           {columns.map((column) => {
             // Create a unique key for each column
             const columnKey = column.dataField || `${column.type}-${column.name || column.caption}`; // Use name if available for better uniqueness
@@ -419,6 +632,7 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
               minWidth: (column.fixed && column.width) ? undefined : (column.minWidth || 150),
               allowEditing: column.allowEditing,
               cssClass: column.cellClass,
+              visible: column.visible,
               sortOrder: column.sortOrder,
               sortIndex: column.sortIndex,
               fixed: column.fixed,
@@ -458,6 +672,12 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
                 customizeText={column.customizeText}
                 cellRender={column.cellRender}
                 calculateDisplayValue={column.calculateDisplayValue}
+                allowGrouping={showGroupPanel && !!column.allowGrouping}
+                groupIndex={showGroupPanel ? column.groupIndex : undefined}
+                allowHeaderFiltering={column.allowHeaderFiltering}
+                calculateCellValue={column.calculateCellValue}
+                allowSorting={column.allowSorting}
+                allowFiltering={column.allowFiltering}
               >
                 {column.lookup && (
                   <Lookup
@@ -486,9 +706,32 @@ export const ODataGrid: React.FC<ODataGridProps> = ({
                 displayFormat={summary.displayFormat}
               />
             ))}
+            {/* Subtotals shown in each group row, aligned under their columns */}
+            {showGroupPanel && <GroupItem summaryType="count" displayFormat="{0} records" />}
+            {showGroupPanel && numericColumnSummaries
+              .filter(summary => summary.summaryType !== 'count')
+              .map((summary, index) => (
+                <GroupItem
+                  key={`group-${index}`}
+                  column={summary.column}
+                  summaryType={summary.summaryType}
+                  valueFormat={summary.valueFormat}
+                  displayFormat={summary.summaryType === 'sum' ? '{0}' : summary.displayFormat}
+                  alignByColumn={true}
+                />
+              ))}
           </Summary>
         </DataGrid>
       </div>
+      {historyEntityName && (
+        <ChangeHistoryPopup
+          visible={!!historyRow}
+          entityName={historyEntityName}
+          entityGuid={historyRow?.key}
+          title={historyRow?.title}
+          onHiding={() => setHistoryRow(null)}
+        />
+      )}
     </React.Fragment>
   );
 };
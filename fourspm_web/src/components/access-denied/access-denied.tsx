@@ -0,0 +1,30 @@
+import React from 'react';
+import { useHistory } from 'react-router-dom';
+import Button from 'devextreme-react/button';
+import './access-denied.scss';
+
+interface AccessDeniedProps {
+  /** Title of the message */
+  title?: string;
+  /** Explanation shown under the title */
+  message?: string;
+}
+
+/**
+ * Shown in place of a page the signed-in user is not allowed to open
+ */
+export const AccessDenied: React.FC<AccessDeniedProps> = ({
+  title = 'Access denied',
+  message = 'You do not have permission to view this page. Ask an administrator if you need access.'
+}) => {
+  const history = useHistory();
+
+  return (
+    <div className="access-denied dx-card">
+      <i className="dx-icon-lock access-denied-icon" />
+      <h3>{title}</h3>
+      <p>{message}</p>
+      <Button text="Go to Home" icon="home" stylingMode="outlined" onClick={() => history.push('/home')} />
+    </div>
+  );
+};
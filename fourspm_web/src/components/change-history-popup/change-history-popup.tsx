@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Popup } from 'devextreme-react/popup';
+import SelectBox from 'devextreme-react/select-box';
+import DateBox from 'devextreme-react/date-box';
+import Button from 'devextreme-react/button';
+import DataGrid, { Column, Paging, Sorting } from 'devextreme-react/data-grid';
+import { useAuth } from '../../contexts/auth';
+import { useChangeHistory } from '../../hooks/queries/useChangeHistory';
+import { AuditLog } from '../../types/odata-types';
+import { ErrorMessage } from '../error-message/error-message';
+import './change-history-popup.scss';
+
+interface ChangeHistoryPopupProps {
+  visible: boolean;
+  entityName?: string;   // Entity set of the entity, e.g. 'Deliverables'
+  entityGuid?: string;
+  title?: string;        // Describes the entity, e.g. its document number
+  onHiding: () => void;
+}
+
+// budgetHours -> Budget Hours
+const formatFieldName = (fieldName?: string | null) =>
+  fieldName ? fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase()) : '';
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+/**
+ * Lists the field-level changes recorded against an entity: who changed what, from and to
+ * which value, when, and which variation approval applied it
+ * Can be narrowed to one user and a date range
+ */
+export const ChangeHistoryPopup: React.FC<ChangeHistoryPopupProps> = ({
+  visible,
+  entityName,
+  entityGuid,
+  title,
+  onHiding
+}) => {
+  const { user } = useAuth();
+  const { data: entries = [], isLoading, error, refetch } = useChangeHistory(
+    visible ? entityName : undefined,
+    entityGuid,
+    user?.token
+  );
+
+  const [changedBy, setChangedBy] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState<Date | null>(null);
+
+  // Start each entity with no filters
+  useEffect(() => {
+    setChangedBy(null);
+    setFromDate(null);
+    setToDate(null);
+  }, [entityName, entityGuid]);
+
+  const users = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.changedBy))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    const changed = new Date(entry.changed);
+    return (!changedBy || entry.changedBy === changedBy) &&
+      (!fromDate || changed >= fromDate) &&
+      (!toDate || changed <= endOfDay(toDate));
+  }), [entries, changedBy, fromDate, toDate]);
+
+  const renderSource = (cellData: { data: AuditLog }) => cellData.data.variationGuid
+    ? (
+      <Link to={`/variations/${cellData.data.variationGuid}/deliverables`} onClick={onHiding}>
+        {`Variation ${cellData.data.variationName || ''}`.trim()}
+      </Link>
+    )
+    : <span>Direct edit</span>;
+
+  return (
+    <Popup
+      visible={visible}
+      title={title ? `Change History - ${title}` : 'Change History'}
+      onHiding={onHiding}
+      showCloseButton={true}
+      closeOnOutsideClick={true}
+      width="90%"
+      maxWidth={1100}
+      height="80%"
+    >
+      <div className="change-history">
+        <div className="change-history-filters">
+          <SelectBox
+            items={users}
+            value={changedBy}
+            onValueChanged={e => setChangedBy(e.value)}
+            placeholder="All users"
+            showClearButton={true}
+            searchEnabled={true}
+            label="Changed by"
+            width={240}
+          />
+          <DateBox
+            type="date"
+            value={fromDate || undefined}
+            onValueChanged={e => setFromDate(e.value)}
+            showClearButton={true}
+            label="From"
+            width={160}
+          />
+          <DateBox
+            type="date"
+            value={toDate || undefined}
+            onValueChanged={e => setToDate(e.value)}
+            showClearButton={true}
+            label="To"
+            width={160}
+          />
+          <Button icon="refresh" hint="Refresh history" stylingMode="text" onClick={() => refetch()} />
+        </div>
+
+        {error ? (
+          <ErrorMessage
+            title="Error Loading Change History"
+            message={(error as Error).message}
+            onRetry={() => refetch()}
+          />
+        ) : (
+          <DataGrid
+            dataSource={filteredEntries}
+            keyExpr="guid"
+            showBorders={true}
+            columnAutoWidth={true}
+            wordWrapEnabled={true}
+            height="100%"
+            noDataText={isLoading ? 'Loading change history...' : 'No changes recorded'}
+          >
+            <Sorting mode="single" />
+            <Paging enabled={false} />
+            <Column dataField="changed" caption="Date" dataType="datetime" sortOrder="desc" width={160} />
+            <Column dataField="changedBy" caption="User" />
+            <Column dataField="action" caption="Action" width={90} />
+            <Column
+              dataField="fieldName"
+              caption="Field"
+              calculateCellValue={(entry: AuditLog) => formatFieldName(entry.fieldName)}
+            />
+            <Column dataField="oldValue" caption="From" />
+            <Column dataField="newValue" caption="To" />
+            <Column caption="Source" cellRender={renderSource} allowSorting={false} />
+          </DataGrid>
+        )}
+      </div>
+    </Popup>
+  );
+};
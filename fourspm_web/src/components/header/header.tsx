@@ -6,6 +6,7 @@ import './header.scss';
 import { Template } from 'devextreme-react/core/template';
 import logo from '@/assets/images/logo.avif';
 import { ThemeSwitcher } from '../theme-switcher/ThemeSwitcher';
+import { UndoHistory } from '../undo-history/undo-history';
 
 interface HeaderProps {
   menuToggleEnabled: boolean;
@@ -43,6 +44,9 @@ export default function Header({
           text={title}
           visible={!!title}
         />
+        <Item location='after' locateInMenu='never'>
+          <UndoHistory />
+        </Item>
         <Item location='after' locateInMenu='never'>
           <ThemeSwitcher />
         </Item>
@@ -6,6 +6,10 @@ export { default as CreateAccountForm } from './create-account-form/create-accou
 export { default as ChangePasswordForm } from './change-password-form/change-password-form';
 export { default as SideNavigationMenu } from './side-navigation-menu/side-navigation-menu';
 export { ErrorMessage } from './error-message/error-message';
+export { AccessDenied } from './access-denied/access-denied';
+export { SessionExpiredPopup } from './session-expired-popup/session-expired-popup';
+export { ChangeHistoryPopup } from './change-history-popup/change-history-popup';
+export { UndoHistory } from './undo-history/undo-history';
 
 // Additional components
 export { ODataGrid } from './ODataGrid/ODataGrid';
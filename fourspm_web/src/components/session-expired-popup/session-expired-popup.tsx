@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Popup } from 'devextreme-react/popup';
+import TextBox from 'devextreme-react/text-box';
+import Button from 'devextreme-react/button';
+import { useAuth } from '../../contexts/auth';
+import './session-expired-popup.scss';
+
+/**
+ * Asks the user to sign in again when the session has expired and cannot be refreshed
+ * The current page stays mounted, so unsaved grid changes are kept and saved once signed in
+ */
+export const SessionExpiredPopup: React.FC = () => {
+  const { user, sessionExpired, resumeSession, signOut } = useAuth();
+  const [password, setPassword] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    const result = await resumeSession(password);
+    setIsSigningIn(false);
+
+    if (result.isOk) {
+      setPassword('');
+      setMessage(null);
+    } else {
+      setMessage(result.message || 'Sign in failed');
+    }
+  };
+
+  return (
+    <Popup
+      visible={sessionExpired}
+      title="Session Expired"
+      showCloseButton={false}
+      closeOnOutsideClick={false}
+      width={380}
+      height="auto"
+    >
+      <div className="session-expired-form">
+        <p>Your session has expired. Sign in again to continue where you left off; unsaved changes are kept.</p>
+        <TextBox value={user?.email || ''} readOnly={true} label="Email" />
+        <TextBox
+          value={password}
+          mode="password"
+          label="Password"
+          valueChangeEvent="keyup"
+          onValueChanged={(e) => setPassword(e.value)}
+          onEnterKey={() => password && handleSignIn()}
+        />
+        {message && <div className="session-expired-message">{message}</div>}
+        <div className="session-expired-actions">
+          <Button
+            text="Sign In"
+            type="default"
+            stylingMode="contained"
+            onClick={handleSignIn}
+            disabled={!password || isSigningIn}
+          />
+          <Button text="Sign Out" stylingMode="outlined" onClick={signOut} disabled={isSigningIn} />
+        </div>
+      </div>
+    </Popup>
+  );
+};
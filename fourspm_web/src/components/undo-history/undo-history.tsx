@@ -0,0 +1,71 @@
+import React, { useCallback, useMemo } from 'react';
+import Button from 'devextreme-react/button';
+import DropDownButton from 'devextreme-react/drop-down-button';
+import { useUndo } from '../../contexts/undo/undo-context';
+import './undo-history.scss';
+
+// Number of recent changes listed in the history drop-down
+const HISTORY_LIST_SIZE = 10;
+
+/**
+ * Undo and redo buttons with a list of the latest changes for the header
+ * Choosing a change from the list undoes it together with every later change
+ */
+export const UndoHistory = () => {
+  const { state, canUndo, canRedo, undo, redo, undoTo } = useUndo();
+
+  // Newest first
+  const historyItems = useMemo(() => state.undoStack
+    .slice(-HISTORY_LIST_SIZE)
+    .reverse()
+    .map(change => ({
+      id: change.id,
+      text: change.description,
+      time: change.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    })), [state.undoStack]);
+
+  const handleItemClick = useCallback((e: any) => {
+    undoTo(e.itemData.id);
+  }, [undoTo]);
+
+  const renderHistoryItem = useCallback((item: { text: string; time: string }) => (
+    <div className="undo-history-item">
+      <span className="undo-history-item-text">{item.text}</span>
+      <span className="undo-history-item-time">{item.time}</span>
+    </div>
+  ), []);
+
+  return (
+    <div className="undo-history">
+      <Button
+        icon="undo"
+        hint="Undo (Ctrl+Z)"
+        stylingMode="text"
+        disabled={!canUndo}
+        onClick={undo}
+      />
+      <Button
+        icon="redo"
+        hint="Redo (Ctrl+Y)"
+        stylingMode="text"
+        disabled={!canRedo}
+        onClick={redo}
+      />
+      <DropDownButton
+        icon="clock"
+        hint="Recent changes"
+        items={historyItems}
+        keyExpr="id"
+        displayExpr="text"
+        itemRender={renderHistoryItem}
+        noDataText="No changes to undo"
+        stylingMode="text"
+        showArrowIcon={false}
+        useSelectMode={false}
+        disabled={state.isApplying}
+        dropDownOptions={{ width: 360 }}
+        onItemClick={handleItemClick}
+      />
+    </div>
+  );
+};
@@ -47,7 +47,7 @@ export default function UserPanel({ menuMode }: Props): ReactElement {
             }}
             className={'user-image'} />
         </div>
-        <div className={'user-name'}>{user.email || 'Anonymous'}</div>
+        <div className={'user-name'}>{user.name || user.email || 'Anonymous'}</div>
       </div>
 
       {menuMode === 'context' && (
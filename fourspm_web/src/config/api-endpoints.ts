@@ -6,10 +6,12 @@ import { API_CONFIG } from './api';
 // Authentication endpoints
 export const LOGIN_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.login}`;
 export const LOGOUT_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.logout}`;
+export const REFRESH_TOKEN_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.refresh}`;
 export const REGISTER_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.register}`;
 export const CREATE_USER_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.create}`;
 export const RESET_PASSWORD_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.resetPassword}`;
 export const CHANGE_PASSWORD_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.changePassword}`;
+export const PROFILE_ENDPOINT = `${API_CONFIG.baseUrl}${API_CONFIG.endpoints.profile}`;
 
 // Fully qualified OData endpoints with base URL
 export const PROJECTS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/Projects`;
@@ -22,6 +24,14 @@ export const DELIVERABLE_GATES_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/Delive
 export const PROGRESS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/Progress`;
 export const VARIATIONS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/Variations`;
 export const VARIATION_DELIVERABLES_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/VariationDeliverables`;
+export const PROGRESS_PERIOD_LOCKS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/ProgressPeriodLocks`;
+export const GRID_LAYOUTS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/GridLayouts`;
+export const PROJECT_RATES_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/ProjectRates`;
+export const PLANNED_PROGRESS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/PlannedProgress`;
+export const DELIVERABLE_BASELINES_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/DeliverableBaselines`;
+export const DELIVERABLE_BASELINE_ITEMS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/DeliverableBaselineItems`;
+export const PROJECT_MEMBERS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/ProjectMembers`;
+export const AUDIT_LOGS_ENDPOINT = `${API_CONFIG.baseUrl}/odata/v1/AuditLogs`;
 
 /**
  * Note on OData Custom Function Endpoints:
@@ -44,6 +54,15 @@ export const getVariationDeliverablesEndpoint = (variationGuid: string): string
   return `${VARIATION_DELIVERABLES_ENDPOINT}?$filter=variationGuid eq ${variationGuid}`;
 };
 
+/**
+ * Returns the endpoint URL for getting the variation deliverables of every variation in a project
+ * @param projectGuid The GUID of the project
+ * @returns URL to the VariationDeliverables endpoint with filter
+ */
+export const getProjectVariationDeliverablesEndpoint = (projectGuid: string): string => {
+  return `${VARIATION_DELIVERABLES_ENDPOINT}?$filter=projectGuid eq ${projectGuid} and variationGuid ne null`;
+};
+
 /**
  * Generate the full URL for the deliverables with progress endpoint for a specific project and period
  * @param projectId The project GUID
@@ -93,3 +112,12 @@ export const getCancelDeliverableUrl = (originalDeliverableGuid: string, variati
   // Using OData function call format to cancel a deliverable
   return `${VARIATION_DELIVERABLES_ENDPOINT}/CancelDeliverable(originalDeliverableGuid=${originalDeliverableGuid},variationGuid=${variationGuid})`;
 };
+
+/**
+ * Generate the URL listing the soft-deleted records of an entity set
+ * @param endpoint The entity set endpoint, e.g. DELIVERABLES_ENDPOINT
+ * @returns URL to the entity set's GetDeleted function
+ */
+export const getDeletedRecordsUrl = (endpoint: string): string => {
+  return `${endpoint}/GetDeleted()`;
+};
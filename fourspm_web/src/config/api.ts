@@ -1,11 +1,13 @@
 interface AuthEndpoints {
     login: string;
     logout: string;
+    refresh: string;
     register: string;
     create: string;
     projects: string; // Used for token validation
     resetPassword: string;
     changePassword: string;
+    profile: string;
 }
 
 interface ApiConfig {
@@ -18,10 +20,12 @@ const productionConfig: ApiConfig = {
     endpoints: {
         login: '/api/auth/login',
         logout: '/api/auth/logout',
+        refresh: '/api/auth/refresh',
         register: '/api/auth/register',
         create: '/api/auth/create',
         resetPassword: '/api/auth/reset-password',
         changePassword: '/api/auth/change-password',
+        profile: '/api/auth/profile',
         projects: '/odata/v1/Projects'  // Full path for OData endpoint, used for token validation
     }
 };
@@ -31,10 +35,12 @@ const developmentConfig: ApiConfig = {
     endpoints: {
         login: '/api/auth/login',
         logout: '/api/auth/logout',
+        refresh: '/api/auth/refresh',
         register: '/api/auth/register',
         create: '/api/auth/create',
         resetPassword: '/api/auth/reset-password',
         changePassword: '/api/auth/change-password',
+        profile: '/api/auth/profile',
         projects: '/Projects'  // Remove odata/v1 prefix since it's handled in the ODataStore config
     }
 };
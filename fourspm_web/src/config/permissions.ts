@@ -0,0 +1,86 @@
+import { ProjectRole, UserRole } from '../types';
+
+/**
+ * Capabilities checked by routes, grids and actions
+ * Every signed-in user can view projects, deliverables, progress and variations
+ */
+export type Permission =
+  | 'projects.edit'            // Create projects and edit project details
+  | 'projects.delete'
+  | 'projects.manageMembers'   // Invite users to a project and set their project role
+  | 'deliverables.edit'        // Add, edit, import and delete deliverables and areas
+  | 'progress.edit'            // Enter progress, planned % and actual hours
+  | 'progress.closePeriod'     // Close and reopen reporting periods
+  | 'variations.edit'          // Create, edit, submit and withdraw variations
+  | 'variations.approve'       // Record the client's approval or rejection
+  | 'commercials.view'         // Rates, contract value and cost roll-ups
+  | 'commercials.edit'         // Edit the rate table
+  | 'baselines.create'
+  | 'configuration.edit'       // Clients, disciplines, document types and gates
+  | 'recycleBin.purge';        // Permanently delete records from the recycle bin
+
+/**
+ * What each role is allowed to do
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  Admin: [
+    'projects.edit',
+    'projects.delete',
+    'projects.manageMembers',
+    'deliverables.edit',
+    'progress.edit',
+    'progress.closePeriod',
+    'variations.edit',
+    'variations.approve',
+    'commercials.view',
+    'commercials.edit',
+    'baselines.create',
+    'configuration.edit',
+    'recycleBin.purge'
+  ],
+  ProjectManager: [
+    'projects.edit',
+    'projects.manageMembers',
+    'deliverables.edit',
+    'progress.edit',
+    'progress.closePeriod',
+    'variations.edit',
+    'variations.approve',
+    'commercials.view',
+    'commercials.edit',
+    'baselines.create'
+  ],
+  DocumentController: [
+    'deliverables.edit',
+    'progress.edit',
+    'variations.edit'
+  ],
+  Viewer: []
+};
+
+/**
+ * Checks whether any of a user's roles grants a permission
+ * @param roles The user's roles
+ * @param permission The capability to check
+ * @returns True when the permission is granted
+ */
+export const hasPermission = (roles: UserRole[] | undefined, permission: Permission): boolean =>
+  (roles || []).some(role => ROLE_PERMISSIONS[role]?.includes(permission));
+
+/**
+ * Checks whether a user can do something on a single project
+ * Admins work on every project with their own role; everyone else works on a project
+ * with the role they were given as a member of it
+ * @param roles The user's roles
+ * @param projectRole The user's role on the project, or null when not a member
+ * @param permission The capability to check
+ * @returns True when the permission is granted on the project
+ */
+export const hasProjectPermission = (
+  roles: UserRole[] | undefined,
+  projectRole: ProjectRole | null | undefined,
+  permission: Permission
+): boolean =>
+  (roles || []).includes('Admin')
+    ? hasPermission(roles, permission)
+    : !!projectRole && hasPermission([projectRole], permission);
@@ -1,25 +1,37 @@
 import React, { useState, useEffect, createContext, useContext, useCallback, PropsWithChildren } from 'react';
 import { getUser, signIn as sendSignInRequest } from '../api/auth-api.service';
+import { sessionService } from '../api/session.service';
+import { getTokenExpiry } from '../utils/token-utils';
 import { User } from '@/types';
 
+// Refresh the access token this long before it expires
+const REFRESH_BEFORE_EXPIRY_MS = 60 * 1000;
+
 // Define interfaces for our types
 interface AuthContextType {
   user?: User;
   loading: boolean;
+  sessionExpired: boolean;
   signIn: (email: string, password: string) => Promise<{ isOk: boolean; data?: User; message?: string }>;
+  resumeSession: (password: string) => Promise<{ isOk: boolean; data?: User; message?: string }>;
+  updateUser: (changes: Partial<User>) => void;
   signOut: () => void;
 }
 
 // Create context with a default value matching our interface
 const AuthContext = createContext<AuthContextType>({
   loading: false,
+  sessionExpired: false,
   signIn: async () => ({ isOk: false }),
+  resumeSession: async () => ({ isOk: false }),
+  updateUser: () => {},
   signOut: () => {}
 });
 
 function AuthProvider({ children }: PropsWithChildren<{}>) {
   const [user, setUser] = useState<User | undefined>();
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   const validateUser = useCallback(async () => {
     const result = await getUser();
@@ -36,13 +48,28 @@ function AuthProvider({ children }: PropsWithChildren<{}>) {
     validateUser();
   }, [validateUser]);
 
-  // Revalidate token periodically
+  // Follow token refreshes and expiry reported by the API services
   useEffect(() => {
-    if (!user) return;
+    return sessionService.subscribe(event => {
+      if (event.type === 'expired') {
+        setSessionExpired(true);
+      } else {
+        setUser(event.user);
+        setSessionExpired(false);
+      }
+    });
+  }, []);
 
-    const interval = setInterval(validateUser, 5 * 60 * 1000); // Check every 5 minutes
-    return () => clearInterval(interval);
-  }, [user, validateUser]);
+  // Refresh the token shortly before it expires so requests are not rejected
+  useEffect(() => {
+    const expiry = getTokenExpiry(user?.token);
+    if (!expiry || sessionExpired) return;
+
+    const timeout = setTimeout(() => {
+      sessionService.refresh().catch(() => sessionService.expire());
+    }, Math.max(expiry - Date.now() - REFRESH_BEFORE_EXPIRY_MS, 0));
+    return () => clearTimeout(timeout);
+  }, [user?.token, sessionExpired]);
 
   const signIn = useCallback(async (email: string, password: string) => {
     const result = await sendSignInRequest(email, password);
@@ -52,18 +79,42 @@ function AuthProvider({ children }: PropsWithChildren<{}>) {
     return result;
   }, []);
 
+  // Signs the same user in again after the session expired, keeping the current page
+  const resumeSession = useCallback(async (password: string) => {
+    const result = await sendSignInRequest(user?.email || '', password);
+    if (result.isOk && result.data) {
+      sessionService.resume(result.data);
+    }
+    return result;
+  }, [user?.email]);
+
+  // Keeps the stored user in step with profile changes such as the display name and avatar
+  const updateUser = useCallback((changes: Partial<User>) => {
+    setUser(current => {
+      if (!current) return current;
+      const updated = { ...current, ...changes };
+      localStorage.setItem('user', JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
   const signOut = useCallback(() => {
     localStorage.removeItem('user');
+    sessionService.end();
+    setSessionExpired(false);
     setUser(undefined);
   }, []);
 
   return (
-    <AuthContext.Provider 
-      value={{ 
-        user, 
-        signIn, 
-        signOut, 
-        loading 
+    <AuthContext.Provider
+      value={{
+        user,
+        signIn,
+        resumeSession,
+        updateUser,
+        signOut,
+        loading,
+        sessionExpired
       }}
     >
       {children}
@@ -0,0 +1,160 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  DeliverableBaselinesContextProps,
+  DeliverableBaselinesProviderProps,
+  initialDeliverableBaselinesState
+} from './deliverable-baselines-types';
+import { deliverableBaselinesReducer } from './deliverable-baselines-reducer';
+import { fetchProject } from '../../adapters/project.adapter';
+import { getDeliverables } from '../../adapters/deliverable.adapter';
+import { createBaseline, getBaselineItems, getProjectBaselines } from '../../adapters/deliverable-baseline.adapter';
+import { compareToBaseline } from '../../utils/baseline-utils';
+import { useAuth } from '../auth';
+
+// Create the context
+const DeliverableBaselinesContext = createContext<DeliverableBaselinesContextProps | undefined>(undefined);
+
+/**
+ * Provider component for the deliverable baselines context
+ * Loads the project's baselines and compares the current deliverables register against the selected one
+ */
+export function DeliverableBaselinesProvider({ children, projectId }: DeliverableBaselinesProviderProps): React.ReactElement {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Track component mounted state to prevent updates after unmounting
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const [state, dispatch] = useReducer(deliverableBaselinesReducer, initialDeliverableBaselinesState);
+
+  const { data: project, isLoading: projectLoading } = useQuery({
+    queryKey: ['project', projectId],
+    queryFn: () => fetchProject(projectId, user?.token || ''),
+    enabled: !!projectId && !!user?.token
+  });
+
+  const { data: baselines = [], isLoading: baselinesLoading, error: baselinesError } = useQuery({
+    queryKey: ['deliverableBaselines', projectId],
+    queryFn: async () => {
+      const result = await getProjectBaselines(projectId, user?.token || '');
+      return [...result].sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+    },
+    enabled: !!projectId && !!user?.token
+  });
+
+  useEffect(() => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_ERROR', payload: baselinesError ? (baselinesError as Error).message : null });
+  }, [baselinesError]);
+
+  // Compare against the newest baseline until the user picks another
+  const selectedBaseline = useMemo(
+    () => baselines.find(baseline => baseline.guid === state.selectedBaselineGuid) || baselines[0] || null,
+    [baselines, state.selectedBaselineGuid]
+  );
+
+  const selectBaseline = useCallback((baselineGuid: string | null) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SELECT_BASELINE', payload: baselineGuid });
+  }, []);
+
+  const {
+    data: comparison = [],
+    isFetching: isComparisonLoading,
+    refetch
+  } = useQuery({
+    queryKey: ['deliverableBaselines', projectId, 'comparison', selectedBaseline?.guid],
+    queryFn: async () => {
+      const [current, baselineItems] = await Promise.all([
+        getDeliverables(user?.token || '', projectId),
+        getBaselineItems(selectedBaseline?.guid || '', user?.token || '')
+      ]);
+      return compareToBaseline(current, baselineItems);
+    },
+    enabled: !!selectedBaseline && !!user?.token
+  });
+
+  const refreshComparison = useCallback(() => {
+    refetch();
+  }, [refetch]);
+
+  /**
+   * Snapshots the project's current deliverables register and selects the new baseline
+   * @param name Name of the baseline
+   * @param description Optional notes about the baseline
+   * @returns The created baseline
+   */
+  const createProjectBaseline = useCallback(async (name: string, description: string | null) => {
+    if (isMountedRef.current) {
+      dispatch({ type: 'SET_LOADING', payload: true });
+    }
+
+    try {
+      const baseline = await createBaseline(projectId, name, description, user?.token || '');
+      await queryClient.invalidateQueries({ queryKey: ['deliverableBaselines', projectId] });
+      if (isMountedRef.current) {
+        dispatch({ type: 'SELECT_BASELINE', payload: baseline.guid });
+      }
+      return baseline;
+    } finally {
+      if (isMountedRef.current) {
+        dispatch({ type: 'SET_LOADING', payload: false });
+      }
+    }
+  }, [projectId, user?.token, queryClient]);
+
+  const isLookupDataLoading = projectLoading || baselinesLoading;
+
+  const contextValue = useMemo(() => ({
+    state,
+    projectId,
+    project,
+    isLookupDataLoading,
+    baselines,
+    selectedBaseline,
+    selectBaseline,
+    createProjectBaseline,
+    comparison,
+    isComparisonLoading,
+    refreshComparison
+  }), [
+    state,
+    projectId,
+    project,
+    isLookupDataLoading,
+    baselines,
+    selectedBaseline,
+    selectBaseline,
+    createProjectBaseline,
+    comparison,
+    isComparisonLoading,
+    refreshComparison
+  ]);
+
+  return (
+    <DeliverableBaselinesContext.Provider value={contextValue}>
+      {children}
+    </DeliverableBaselinesContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the deliverable baselines context
+ * Throws an error if used outside the DeliverableBaselinesProvider
+ */
+export function useDeliverableBaselines(): DeliverableBaselinesContextProps {
+  const context = useContext(DeliverableBaselinesContext);
+
+  if (!context) {
+    throw new Error('useDeliverableBaselines must be used within a DeliverableBaselinesProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,21 @@
+import { DeliverableBaselinesState, DeliverableBaselinesAction } from './deliverable-baselines-types';
+
+/**
+ * Reducer for the deliverable baselines context
+ * Handles state updates based on dispatched actions
+ */
+export function deliverableBaselinesReducer(
+  state: DeliverableBaselinesState,
+  action: DeliverableBaselinesAction
+): DeliverableBaselinesState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, loading: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload };
+    case 'SELECT_BASELINE':
+      return { ...state, selectedBaselineGuid: action.payload };
+    default:
+      return state;
+  }
+}
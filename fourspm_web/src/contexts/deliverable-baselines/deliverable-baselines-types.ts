@@ -0,0 +1,57 @@
+import { DeliverableBaseline, Project } from '@/types/odata-types';
+import { BaselineComparisonRow } from '@/utils/baseline-utils';
+
+/**
+ * State interface for deliverable baselines context
+ */
+export interface DeliverableBaselinesState {
+  loading: boolean;
+  error: string | null;
+  selectedBaselineGuid: string | null;
+}
+
+/**
+ * Initial state for deliverable baselines context
+ */
+export const initialDeliverableBaselinesState: DeliverableBaselinesState = {
+  loading: false,
+  error: null,
+  selectedBaselineGuid: null
+};
+
+/**
+ * Action types for deliverable baselines reducer
+ */
+export type DeliverableBaselinesAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SELECT_BASELINE'; payload: string | null };
+
+/**
+ * Props interface for DeliverableBaselinesContext
+ */
+export interface DeliverableBaselinesContextProps {
+  state: DeliverableBaselinesState;
+  projectId: string;
+  project?: Project;
+  isLookupDataLoading: boolean;
+
+  // Baselines of the project, newest first
+  baselines: DeliverableBaseline[];
+  selectedBaseline: DeliverableBaseline | null;
+  selectBaseline: (baselineGuid: string | null) => void;
+  createProjectBaseline: (name: string, description: string | null) => Promise<DeliverableBaseline>;
+
+  // Current register compared against the selected baseline
+  comparison: BaselineComparisonRow[];
+  isComparisonLoading: boolean;
+  refreshComparison: () => void;
+}
+
+/**
+ * Props interface for DeliverableBaselinesProvider
+ */
+export interface DeliverableBaselinesProviderProps {
+  children: React.ReactNode;
+  projectId: string;
+}
@@ -1,13 +1,22 @@
 import React, { createContext, useReducer, useContext, useMemo, useCallback, useRef, useEffect } from 'react';
-import { DeliverableProgressContextType, ValidationResult } from '../../contexts/deliverable-progress/deliverable-progress-types';
+import { DeliverableProgressContextType, ValidationResult, BulkProgressChange, BulkProgressResult } from '../../contexts/deliverable-progress/deliverable-progress-types';
+import { DeliverableProgressDto } from '../../types/app-types';
 import { usePeriodManager } from '../../hooks/utils/usePeriodManager';
 import { useDeliverableGateDataProvider } from '../../hooks/data-providers/useDeliverableGateDataProvider';
 import { deliverableProgressReducer } from './deliverable-progress-reducer';
-import { handleProgressUpdate } from '../../adapters/progress.adapter';
+import { getDeliverablesWithProgress, handleProgressUpdate } from '../../adapters/progress.adapter';
+import { updatePlannedProgress } from '../../adapters/planned-progress.adapter';
 import { updateDeliverableGate } from '../../adapters/deliverable.adapter';
+import { getProjectPeriodLocks, closeProgressPeriod, reopenProgressPeriod } from '../../adapters/progress-period-lock.adapter';
 import { compareGuids } from '../../utils/guid-utils';
+import { calculateCurrentPeriod, createPeriodCalendar } from '../../utils/period-utils';
+import { calculateEarnedValue } from '../../utils/earned-value-utils';
 import { useAuth } from '../auth';
-import { useQuery } from '@tanstack/react-query';
+import { useUndo } from '../undo/undo-context';
+import { NewUndoableChange } from '../undo/undo-types';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import notify from 'devextreme/ui/notify';
+import { getPeriodProgressRowsKey } from '../../hooks/queries/useProjectProgressHistory';
 import { baseApiService } from '../../api/base-api.service';
 import { PROJECTS_ENDPOINT } from '../../config/api-endpoints';
 
@@ -24,6 +33,20 @@ const fetchProject = async (projectId: string) => {
   return data;
 };
 
+// Progress values a grid edit can change, with their captions and the value used when none was saved
+const PROGRESS_FIELDS: { name: keyof DeliverableProgressDto; caption: string; emptyValue: number | null }[] = [
+  { name: 'deliverableGateGuid', caption: 'Gate', emptyValue: null },
+  { name: 'cumulativeEarntPercentage', caption: 'Cumulative %', emptyValue: 0 },
+  { name: 'cumulativeActualHours', caption: 'Actual Hours', emptyValue: null },
+  { name: 'cumulativePlannedPercentage', caption: 'Planned %', emptyValue: 0 }
+];
+
+const getPeriodClosedMessage = (period: number) =>
+  `Period ${period} is closed. Reopen it before changing progress.`;
+
+const getGateAutoPercentageSkippedMessage = (errorMessage?: string) =>
+  `Gate saved without its auto percentage: ${errorMessage}`;
+
 // Create a context with a default undefined value
 const DeliverableProgressContext = createContext<DeliverableProgressContextType | undefined>(undefined);
 
@@ -31,15 +54,13 @@ const DeliverableProgressContext = createContext<DeliverableProgressContextType
 export interface DeliverableProgressProviderProps {
   children: React.ReactNode;
   projectId: string;
-  initialPeriod?: number;
-  startDate?: string;
+  initialPeriod?: number; // Overrides the project's current period when provided
 }
 
 export function DeliverableProgressProvider({ 
   children, 
   projectId, 
-  initialPeriod = 0, 
-  startDate = undefined 
+  initialPeriod
 }: DeliverableProgressProviderProps): React.ReactElement {
   // Initialize state with reducer - without period management which is now handled by usePeriodManager
   const [state] = useReducer(deliverableProgressReducer, {
@@ -49,6 +70,8 @@ export function DeliverableProgressProvider({
   
   // Get authentication token for API calls
   const { user } = useAuth();
+  const { recordChange } = useUndo();
+  const queryClient = useQueryClient();
   
   // Track component mounted state to prevent updates after unmounting
   const isMountedRef = useRef(true);
@@ -63,9 +86,95 @@ export function DeliverableProgressProvider({
     };
   }, []);
 
-  // Use the period manager with provided initial values from props
-  // This ensures the context uses the same period state that the component receives
-  const periodManager = usePeriodManager(initialPeriod, startDate);
+  // Fetch project details - key addition to prevent flickering
+  const { 
+    data: project, 
+    isLoading: projectLoading
+  } = useQuery({
+    queryKey: ['project', projectId],
+    queryFn: () => fetchProject(projectId),
+    enabled: !!projectId && !!user?.token,
+    refetchOnWindowFocus: true // Auto-refresh data when window regains focus
+  });
+  
+  // Build the project's reporting period calendar - the single source of period dates
+  const periodCalendar = useMemo(() => createPeriodCalendar(project), [project]);
+  
+  // Current period from the calendar, only known once the project has loaded
+  const currentPeriod = useMemo(
+    () => periodCalendar ? calculateCurrentPeriod(periodCalendar) : null,
+    [periodCalendar]
+  );
+
+  // Use the period manager, starting at the explicit initial period or the project's current period
+  // Falls back to period 0 once the project is loaded without a progress start date
+  const periodManager = usePeriodManager(
+    initialPeriod ?? (project ? currentPeriod ?? 0 : null),
+    periodCalendar
+  );
+
+  // Fetch the project's period locks - closed periods are read-only
+  const {
+    data: periodLocks = [],
+    isLoading: isPeriodLocksLoading
+  } = useQuery({
+    queryKey: ['progressPeriodLocks', projectId],
+    queryFn: () => getProjectPeriodLocks(projectId, user?.token || ''),
+    enabled: !!projectId && !!user?.token
+  });
+
+  /**
+   * Finds the active (not reopened) lock for a period
+   * @param period The period number
+   * @returns The active lock, or undefined when the period is open
+   */
+  const getActivePeriodLock = useCallback((period: number | null) => {
+    if (period === null) return undefined;
+    return periodLocks.find(lock => lock.period === period && !lock.reopened);
+  }, [periodLocks]);
+
+  /**
+   * Checks that a period is still open before an undo or redo changes its progress
+   * The locks are fetched again, as the period may have been closed since the change was saved
+   * @param period The period number
+   * @param token Authentication token for API access
+   */
+  const ensurePeriodOpen = useCallback(async (period: number, token: string): Promise<void> => {
+    const locks = await queryClient.fetchQuery({
+      queryKey: ['progressPeriodLocks', projectId],
+      queryFn: () => getProjectPeriodLocks(projectId, token),
+      staleTime: 0
+    });
+    if (locks.some(lock => lock.period === period && !lock.reopened)) {
+      throw new Error(getPeriodClosedMessage(period));
+    }
+  }, [queryClient, projectId]);
+
+  // Lock state for the currently selected period
+  const selectedPeriodLock = useMemo(
+    () => getActivePeriodLock(periodManager.selectedPeriod) || null,
+    [getActivePeriodLock, periodManager.selectedPeriod]
+  );
+  const isSelectedPeriodClosed = !!selectedPeriodLock;
+
+  /**
+   * Closes the selected period, freezing its progress
+   */
+  const closeSelectedPeriod = useCallback(async (): Promise<void> => {
+    if (periodManager.selectedPeriod === null) return;
+    await closeProgressPeriod(projectId, periodManager.selectedPeriod, user?.token || '');
+    await queryClient.invalidateQueries({ queryKey: ['progressPeriodLocks', projectId] });
+  }, [projectId, periodManager.selectedPeriod, user?.token, queryClient]);
+
+  /**
+   * Reopens the selected period so progress can be edited again
+   * @param reason Why the period is being reopened
+   */
+  const reopenSelectedPeriod = useCallback(async (reason: string): Promise<void> => {
+    if (!selectedPeriodLock) return;
+    await reopenProgressPeriod(selectedPeriodLock.guid, reason, user?.token || '');
+    await queryClient.invalidateQueries({ queryKey: ['progressPeriodLocks', projectId] });
+  }, [selectedPeriodLock, projectId, user?.token, queryClient]);
 
   // Get deliverable gates data using the data provider hook
   // This follows the Collection View Doctrine by centralizing reference data in the context
@@ -76,7 +185,21 @@ export function DeliverableProgressProvider({
   } = useDeliverableGateDataProvider();
 
   // Pass-through to the period manager for consistency
-  const { selectedPeriod, progressDate, setSelectedPeriod, incrementPeriod, decrementPeriod } = periodManager;
+  const { selectedPeriod, setSelectedPeriod, incrementPeriod, decrementPeriod } = periodManager;
+
+  // Earned value metrics for the selected period across the whole project
+  // Nested under the progress history key so the Progress Chart refreshes after edits too
+  const {
+    data: earnedValue = null,
+    isLoading: isEarnedValueLoading
+  } = useQuery({
+    queryKey: ['progressHistory', projectId, 'earnedValue', selectedPeriod],
+    queryFn: async () => calculateEarnedValue(
+      selectedPeriod || 0,
+      await getDeliverablesWithProgress(projectId, selectedPeriod || 0, user?.token || '')
+    ),
+    enabled: !!projectId && !!user?.token && selectedPeriod !== null
+  });
 
   /**
    * Validates that progress percentage doesn't exceed gate maximum
@@ -182,7 +305,138 @@ export function DeliverableProgressProvider({
   }, [deliverableGates]);
 
   /**
-   * Process a single progress update, handling both gate changes and percentage updates
+   * Works out the percentage a deliverable should move to when it enters a gate
+   * The gate's auto percentage is raised to the previous-period floor so progress never goes backwards
+   * @param gateGuid The GUID of the new gate
+   * @param row The deliverable progress row before the change
+   * @returns The percentage to apply, or undefined when the gate has no auto percentage
+   */
+  const getGateAutoPercentage = useCallback((gateGuid: string | null | undefined, row: Record<string, any>): number | undefined => {
+    if (!gateGuid) return undefined;
+    
+    const gate = deliverableGates.find(g => compareGuids(g.guid, gateGuid));
+    if (!gate || gate.autoPercentage === null || gate.autoPercentage === undefined) return undefined;
+    
+    return Math.max(gate.autoPercentage, row.previousPeriodEarntPercentage || 0);
+  }, [deliverableGates]);
+
+  /**
+   * Saves progress values of a deliverable for a period; only the values given are sent
+   * The gate is stored on the deliverable, the earned % and actual hours on the period's
+   * progress entry and the planned % on the period's baseline
+   * @param key The deliverable GUID
+   * @param values The values to save
+   * @param period The period to save them for
+   * @param row The deliverable's progress row, used for its hours and previous period %
+   * @param token Authentication token for API access
+   */
+  const saveProgressValues = useCallback(async (
+    key: string,
+    values: Partial<DeliverableProgressDto>,
+    period: number,
+    row: any,
+    token: string
+  ): Promise<void> => {
+    if (values.deliverableGateGuid !== undefined) {
+      await updateDeliverableGate(key, values.deliverableGateGuid, token);
+    }
+    
+    // Actual hours are stored on the period's progress entry, so they are saved with the current percentage
+    if (values.cumulativeEarntPercentage !== undefined || values.cumulativeActualHours !== undefined) {
+      await handleProgressUpdate(
+        key,
+        {
+          cumulativeEarntPercentage: values.cumulativeEarntPercentage ?? row.cumulativeEarntPercentage ?? 0,
+          cumulativeActualHours: values.cumulativeActualHours,
+          totalHours: row.totalHours || 0
+        },
+        period,
+        row,
+        token
+      );
+    }
+    
+    if (values.cumulativePlannedPercentage !== undefined) {
+      await updatePlannedProgress(key, period, values.cumulativePlannedPercentage || 0, token);
+    }
+    
+    // Earned value metrics and the progress history are calculated from these values
+    // The period's cached rows are marked stale first, so the history refetches only this period
+    queryClient.invalidateQueries({ queryKey: getPeriodProgressRowsKey(projectId, period) });
+    queryClient.invalidateQueries({ queryKey: ['progressHistory', projectId] });
+  }, [queryClient, projectId]);
+
+  /**
+   * Applies a single progress update: gate changes, percentage and actual hours updates
+   * and changes to the planned progress baseline
+   * When the gate changes without an explicit percentage, the gate's auto percentage is applied
+   * as a separate change, so undoing once reverts the percentage and keeps the gate
+   * @param key The deliverable GUID
+   * @param newData The new data to apply
+   * @param oldData The original data before changes
+   * @param applyGateAutoPercentage Whether to apply the gate's auto percentage; bulk updates preview it instead
+   * @returns The saved changes in order, with compensating calls to undo them
+   */
+  const applyProgressUpdate = useCallback(async (
+    key: string,
+    newData: any,
+    oldData: any,
+    applyGateAutoPercentage = true
+  ): Promise<NewUndoableChange[]> => {
+    // Closed periods have been issued to the client and must not change
+    if (getActivePeriodLock(selectedPeriod || 0)) {
+      throw new Error(getPeriodClosedMessage(selectedPeriod || 0));
+    }
+    
+    const period = selectedPeriod || 0;
+    const token = user?.token || '';
+    const deliverableName = oldData.internalDocumentNumber || 'Deliverable';
+    
+    // The values the user changed, and what they were before
+    const fields = PROGRESS_FIELDS.filter(field => field.name === 'deliverableGateGuid'
+      ? newData.deliverableGateGuid !== undefined && newData.deliverableGateGuid !== oldData.deliverableGateGuid
+      : newData[field.name] !== undefined);
+    const values = Object.fromEntries(fields.map(field => [field.name, newData[field.name]]));
+    const previousValues = Object.fromEntries(fields.map(field => [field.name, oldData[field.name] ?? field.emptyValue]));
+    
+    // Undo and redo run later, so they check again that the period has not been closed since
+    const saveIfPeriodOpen = async (changedValues: Partial<DeliverableProgressDto>) => {
+      await ensurePeriodOpen(period, token);
+      await saveProgressValues(key, changedValues, period, oldData, token);
+    };
+    
+    await saveProgressValues(key, values, period, oldData, token);
+    const changes: NewUndoableChange[] = [{
+      description: `${deliverableName}: ${fields.map(field => field.caption).join(', ')} changed in period ${period}`,
+      undo: () => saveIfPeriodOpen(previousValues),
+      redo: () => saveIfPeriodOpen(values)
+    }];
+    
+    // Apply the new gate's auto percentage unless the user also entered a percentage
+    if (applyGateAutoPercentage && values.deliverableGateGuid !== undefined && newData.cumulativeEarntPercentage === undefined) {
+      const autoPercentage = getGateAutoPercentage(newData.deliverableGateGuid, oldData);
+      // Checked like a manual edit, as the previous-period floor can lift it past the gate maximum
+      const validation = autoPercentage !== undefined
+        ? validateProgress({ ...oldData, deliverableGateGuid: newData.deliverableGateGuid, cumulativeEarntPercentage: autoPercentage })
+        : undefined;
+      if (validation && !validation.isValid) {
+        notify(`${deliverableName}: ${getGateAutoPercentageSkippedMessage(validation.errorMessage)}`, 'warning', 3500);
+      } else if (autoPercentage !== undefined && autoPercentage !== (oldData.cumulativeEarntPercentage || 0)) {
+        await saveProgressValues(key, { cumulativeEarntPercentage: autoPercentage }, period, oldData, token);
+        changes.push({
+          description: `Cumulative % set to ${(autoPercentage * 100).toFixed(0)}% from the gate`,
+          undo: () => saveIfPeriodOpen({ cumulativeEarntPercentage: oldData.cumulativeEarntPercentage || 0 }),
+          redo: () => saveIfPeriodOpen({ cumulativeEarntPercentage: autoPercentage })
+        });
+      }
+    }
+    
+    return changes;
+  }, [selectedPeriod, user?.token, getActivePeriodLock, ensurePeriodOpen, getGateAutoPercentage, validateProgress, saveProgressValues]);
+
+  /**
+   * Process a single progress update and add it to the undo history
+   * Only the last change offers an undo toast, e.g. the automatic percentage after a gate change
    * @param key The deliverable GUID
    * @param newData The new data to apply
    * @param oldData The original data before changes
@@ -193,43 +447,116 @@ export function DeliverableProgressProvider({
     newData: any,
     oldData: any
   ): Promise<void> => {
-    // First, check if gate update is needed
-    if (newData.deliverableGateGuid !== undefined && 
-        oldData.deliverableGateGuid !== newData.deliverableGateGuid) {
-      // Update the deliverable gate in the backend using the adapter directly
-      await updateDeliverableGate(key, newData.deliverableGateGuid, user?.token || '');
-    }
+    const changes = await applyProgressUpdate(key, newData, oldData);
+    changes.forEach((change, index) => recordChange(change, { showToast: index === changes.length - 1 }));
+  }, [applyProgressUpdate, recordChange]);
+
+  /**
+   * Validates a change against many deliverables without saving anything
+   * Each row is checked with the same rules as a single cell edit
+   * @param rows The selected deliverable progress rows
+   * @param change The gate and/or cumulative percentage to apply
+   * @returns Per-row pass/fail preview
+   */
+  const previewBulkProgressUpdate = useCallback((
+    rows: DeliverableProgressDto[],
+    change: BulkProgressChange
+  ): BulkProgressResult[] => {
+    const isClosed = !!getActivePeriodLock(selectedPeriod || 0);
     
-    // Next, check if progress update is needed
-    if (newData.cumulativeEarntPercentage !== undefined) {
-      // Call the progress service to update the backend
-      await handleProgressUpdate(
-        key,
-        { 
-          cumulativeEarntPercentage: newData.cumulativeEarntPercentage,
-          totalHours: newData.totalHours || 0
+    return rows.map(row => {
+      const newData: Partial<DeliverableProgressDto> = {};
+      let skippedMessage: string | undefined;
+      if (change.deliverableGateGuid !== undefined) {
+        newData.deliverableGateGuid = change.deliverableGateGuid;
+      }
+      if (change.cumulativeEarntPercentage !== undefined) {
+        newData.cumulativeEarntPercentage = change.cumulativeEarntPercentage;
+      } else if (change.deliverableGateGuid !== undefined) {
+        // Preview the gate's auto percentage so the batch saves it without per-row undo toasts
+        // When it breaks a rule the gate is still applied and the row notes why the percentage was kept
+        const autoPercentage = getGateAutoPercentage(change.deliverableGateGuid, row);
+        if (autoPercentage !== undefined) {
+          const autoValidation = validateProgress({ ...row, ...newData, cumulativeEarntPercentage: autoPercentage });
+          if (autoValidation.isValid) {
+            newData.cumulativeEarntPercentage = autoPercentage;
+          } else {
+            skippedMessage = getGateAutoPercentageSkippedMessage(autoValidation.errorMessage);
+          }
+        }
+      }
+      
+      if (isClosed) {
+        return { key: row.guid, row, newData, isValid: false, errorMessage: `Period ${selectedPeriod || 0} is closed` };
+      }
+      
+      // Validate the row as it would look after the change, so a new gate is checked against the existing %
+      const validation = validateProgress({
+        ...row,
+        ...newData,
+        cumulativeEarntPercentage: newData.cumulativeEarntPercentage ?? row.cumulativeEarntPercentage ?? 0
+      });
+      
+      return {
+        key: row.guid,
+        row,
+        newData,
+        isValid: validation.isValid,
+        errorMessage: validation.errorMessage || skippedMessage
+      };
+    });
+  }, [validateProgress, getActivePeriodLock, getGateAutoPercentage, selectedPeriod]);
+  
+  /**
+   * Submits the valid rows of a bulk preview in one batch
+   * Rows are saved independently so one server rejection does not block the rest
+   * @param items Preview results from previewBulkProgressUpdate
+   * @returns Results for every item, including server-side failures
+   */
+  const submitBulkProgressUpdate = useCallback(async (
+    items: BulkProgressResult[]
+  ): Promise<BulkProgressResult[]> => {
+    const outcomes = await Promise.allSettled(
+      items.map(item => item.isValid
+        ? applyProgressUpdate(item.key, item.newData, item.row, false)
+        : Promise.reject(new Error(item.errorMessage)))
+    );
+    
+    // The rows that were saved are undone together; each row's changes in reverse order
+    const savedChanges = outcomes.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+    if (savedChanges.length > 0) {
+      recordChange({
+        description: `Bulk progress update of ${savedChanges.length} deliverable(s)`,
+        undo: async () => {
+          await Promise.all(savedChanges.map(async changes => {
+            for (const change of [...changes].reverse()) {
+              await change.undo();
+            }
+          }));
         },
-        selectedPeriod || 0, // Use the current period from context
-        oldData,
-        user?.token || ''
-      );
+        redo: async () => {
+          await Promise.all(savedChanges.map(async changes => {
+            for (const change of changes) {
+              await change.redo();
+            }
+          }));
+        }
+      });
     }
-  }, [selectedPeriod, user?.token]);
+    
+    return items.map((item, index) => {
+      const outcome = outcomes[index];
+      if (outcome.status === 'fulfilled') return item;
+      return {
+        ...item,
+        isValid: false,
+        errorMessage: item.errorMessage || (outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason))
+      };
+    });
+  }, [applyProgressUpdate, recordChange]);
 
-  // Fetch project details - key addition to prevent flickering
-  const { 
-    data: project, 
-    isLoading: projectLoading,
-    error: projectError
-  } = useQuery({
-    queryKey: ['project', projectId],
-    queryFn: () => fetchProject(projectId),
-    enabled: !!projectId && !!user?.token,
-    refetchOnWindowFocus: true // Auto-refresh data when window regains focus
-  });
-  
   // Combine loading states for lookup data - used to prevent flickering
-  const isLookupDataLoading = state.loading || projectLoading || isGatesLoading;
+  const isLookupDataLoading = state.loading || projectLoading || isGatesLoading || isPeriodLocksLoading;
 
   // Create memoized context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
@@ -238,7 +565,18 @@ export function DeliverableProgressProvider({
     incrementPeriod,
     decrementPeriod,
     selectedPeriod: periodManager.selectedPeriod,
+    selectedPeriodInfo: periodManager.selectedPeriodInfo,
     progressDate: periodManager.progressDate,
+    lastPeriod: periodManager.lastPeriod,
+    currentPeriod,
+    periodCalendar,
+    periodLocks,
+    selectedPeriodLock,
+    isSelectedPeriodClosed,
+    closeSelectedPeriod,
+    reopenSelectedPeriod,
+    earnedValue,
+    isEarnedValueLoading,
     projectId,
     project,
     isLookupDataLoading,
@@ -247,14 +585,27 @@ export function DeliverableProgressProvider({
     gatesError,
     validateProgress,
     validateGatePercentage,
-    processProgressUpdate
+    processProgressUpdate,
+    previewBulkProgressUpdate,
+    submitBulkProgressUpdate
   }), [
     state, 
     setSelectedPeriod, 
     incrementPeriod, 
     decrementPeriod,
     periodManager.selectedPeriod,
+    periodManager.selectedPeriodInfo,
     periodManager.progressDate,
+    periodManager.lastPeriod,
+    currentPeriod,
+    periodCalendar,
+    periodLocks,
+    selectedPeriodLock,
+    isSelectedPeriodClosed,
+    closeSelectedPeriod,
+    reopenSelectedPeriod,
+    earnedValue,
+    isEarnedValueLoading,
     projectId,
     project,
     isLookupDataLoading,
@@ -263,7 +614,9 @@ export function DeliverableProgressProvider({
     gatesError,
     validateProgress,
     validateGatePercentage,
-    processProgressUpdate
+    processProgressUpdate,
+    previewBulkProgressUpdate,
+    submitBulkProgressUpdate
   ]);
 
   return (
@@ -1,4 +1,6 @@
-import { Project } from '../../types/odata-types';
+import { Project, ProgressPeriodLock } from '../../types/odata-types';
+import { DeliverableProgressDto, PeriodCalendar, ProjectPeriod } from '../../types/app-types';
+import { EarnedValueMetrics } from '../../utils/earned-value-utils';
 
 // Types for the deliverable progress state and context
 export interface DeliverableProgressState {
@@ -15,6 +17,26 @@ export interface ValidationResult {
   errorField?: string;
 }
 
+/**
+ * Change applied to many deliverables at once from the bulk progress action
+ * Fields left undefined keep each row's existing value
+ */
+export interface BulkProgressChange {
+  deliverableGateGuid?: string;
+  cumulativeEarntPercentage?: number;
+}
+
+/**
+ * Per-row outcome of validating or submitting a bulk progress change
+ */
+export interface BulkProgressResult {
+  key: string;
+  row: DeliverableProgressDto;
+  newData: Partial<DeliverableProgressDto>;
+  isValid: boolean;
+  errorMessage?: string;                 // Why the row failed, or why a valid row kept its percentage
+}
+
 // Types for the deliverable progress actions
 export type DeliverableProgressAction = 
   | { type: 'SET_LOADING'; payload: boolean }
@@ -30,7 +52,22 @@ export interface DeliverableProgressContextType {
   incrementPeriod: () => void;
   decrementPeriod: () => void;
   selectedPeriod: number | null;
-  progressDate: Date;
+  selectedPeriodInfo: ProjectPeriod | null; // Start/end dates of the selected period
+  progressDate: Date;                       // Cut-off date of the selected period
+  lastPeriod: number | null;                // Last period of a custom schedule, null when unbounded
+  currentPeriod: number | null;             // Period containing today's date
+  periodCalendar: PeriodCalendar | null;
+  
+  // Period close-out
+  periodLocks: ProgressPeriodLock[];
+  selectedPeriodLock: ProgressPeriodLock | null;
+  isSelectedPeriodClosed: boolean;
+  closeSelectedPeriod: () => Promise<void>;
+  reopenSelectedPeriod: (reason: string) => Promise<void>;
+  
+  // Earned value for the selected period
+  earnedValue: EarnedValueMetrics | null;
+  isEarnedValueLoading: boolean;
   
   // Project data
   projectId?: string;
@@ -48,4 +85,6 @@ export interface DeliverableProgressContextType {
   
   // Business logic functions
   processProgressUpdate: (key: string, newData: any, oldData: any) => Promise<void>;
+  previewBulkProgressUpdate: (rows: DeliverableProgressDto[], change: BulkProgressChange) => BulkProgressResult[];
+  submitBulkProgressUpdate: (items: BulkProgressResult[]) => Promise<BulkProgressResult[]>;
 }
@@ -1,14 +1,22 @@
 import React, { createContext, useReducer, useEffect, useContext, useMemo, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { deliverablesReducer, initialDeliverablesState } from './deliverables-reducer';
-import { DeliverablesContextProps, DeliverablesProviderProps, ValidationResult } from './deliverables-types';
+import {
+  DeliverableImportResult,
+  DeliverableImportRow,
+  DeliverableImportSummary,
+  DeliverablesContextProps,
+  DeliverablesProviderProps,
+  ValidationResult
+} from './deliverables-types';
 import { useProjectData } from '../../hooks/queries/useProjectData';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { baseApiService } from '../../api/base-api.service';
 import { PROJECTS_ENDPOINT } from '../../config/api-endpoints';
 import { useAuth } from '../auth';
-import { Deliverable } from '../../types/odata-types';
-import { getDeliverables, getSuggestedDocumentNumber } from '../../adapters/deliverable.adapter';
+import { Area, Deliverable, Discipline, DocumentType } from '../../types/odata-types';
+import { departmentEnum, deliverableTypeEnum } from '../../types/enums';
+import { createDeliverable, getDeliverables, getSuggestedDocumentNumber } from '../../adapters/deliverable.adapter';
 import { ValidationRule } from '../../hooks/interfaces/grid-operation-hook.interfaces';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -52,6 +60,35 @@ export const DEFAULT_DELIVERABLE_VALIDATION_RULES: ValidationRule[] = [
   }
 ];
 
+/**
+ * Finds the lookup item whose value for any of the given keys matches an imported value
+ * Matching ignores case and surrounding whitespace
+ * @param value The imported text
+ * @param items The lookup items
+ * @param keys The item properties to compare against
+ * @returns The matching item, if any
+ */
+function findLookupItem<T>(value: string, items: T[], keys: (keyof T)[]): T | undefined {
+  const normalizedValue = value.trim().toLowerCase();
+  return items.find(item =>
+    keys.some(key => String(item[key] ?? '').trim().toLowerCase() === normalizedValue)
+  );
+}
+
+/**
+ * Adds an offset to the numeric suffix of a document number, keeping its zero padding
+ * e.g. 017-11-05-ME-MDL-004 with offset 2 becomes 017-11-05-ME-MDL-006
+ * @param documentNumber The suggested document number
+ * @param offset How many numbers to skip
+ * @returns The offset document number
+ */
+function offsetDocumentNumber(documentNumber: string, offset: number): string {
+  if (offset === 0) return documentNumber;
+  return documentNumber.replace(/(\d+)$/, digits =>
+    String(Number(digits) + offset).padStart(digits.length, '0')
+  );
+}
+
 /**
  * Fetch project details from the API with client data expanded
  * @param projectId Project ID to fetch details for
@@ -595,6 +632,221 @@ export function DeliverablesProvider({ children, projectId: projectIdProp }: Del
   
   // Combine loading states for lookup data
   const isLookupDataLoading = referenceDataLoading || projectLoading;
+
+  /**
+   * Resolves imported rows into deliverables and validates them
+   * Lookup values may be given as codes/numbers or descriptions; rows without an internal number get
+   * consecutive suggested numbers so rows sharing a prefix don't collide
+   * @param rows Rows read from the import file, keyed by deliverable field
+   * @returns One result per row with the resolved deliverable and any errors
+   */
+  const previewDeliverableImport = useCallback(async (
+    rows: DeliverableImportRow[]
+  ): Promise<DeliverableImportResult[]> => {
+    // Resolve against the same lookup data the grid columns use
+    const [areas, disciplines, documentTypes]: [Area[], Discipline[], DocumentType[]] = await Promise.all([
+      areasDataSource ? areasDataSource.load() : Promise.resolve([]),
+      disciplinesDataSource ? disciplinesDataSource.load() : Promise.resolve([]),
+      documentTypesDataSource ? documentTypesDataSource.load() : Promise.resolve([])
+    ]);
+
+    // First suggested number per document number prefix and how many rows have used it
+    const suggestedNumbers = new Map<string, { documentNumber: string; used: number }>();
+    const results: DeliverableImportResult[] = [];
+
+    for (const { rowNumber, values } of rows) {
+      const deliverable = initializeDeliverable(projectId, project);
+      const errors: string[] = [];
+      const invalidFields = new Set<string>();
+
+      const addError = (field: string, message: string) => {
+        invalidFields.add(field);
+        errors.push(message);
+      };
+
+      if (values.areaNumber) {
+        const paddedNumber = values.areaNumber.padStart(2, '0');
+        const area = areas.find(item => item.number === values.areaNumber || item.number === paddedNumber)
+          || findLookupItem(values.areaNumber, areas, ['description']);
+        if (area) {
+          deliverable.areaNumber = area.number;
+        } else {
+          addError('areaNumber', `Area "${values.areaNumber}" does not exist in this project`);
+        }
+      }
+
+      if (values.discipline) {
+        const discipline = findLookupItem(values.discipline, disciplines, ['code', 'description']);
+        if (discipline) {
+          deliverable.discipline = discipline.code;
+        } else {
+          addError('discipline', `Discipline "${values.discipline}" does not exist`);
+        }
+      }
+
+      if (values.documentType) {
+        const documentType = findLookupItem(values.documentType, documentTypes, ['code', 'description']);
+        if (documentType) {
+          deliverable.documentType = documentType.code;
+        } else {
+          addError('documentType', `Document Type "${values.documentType}" does not exist`);
+        }
+      }
+
+      if (values.departmentId) {
+        const department = findLookupItem(values.departmentId, departmentEnum, ['id', 'name']);
+        if (department) {
+          deliverable.departmentId = department.id;
+        } else {
+          addError('departmentId', `Department "${values.departmentId}" does not exist`);
+        }
+      }
+
+      if (values.deliverableTypeId) {
+        const deliverableType = findLookupItem(values.deliverableTypeId, deliverableTypeEnum, ['id', 'name']);
+        if (deliverableType) {
+          deliverable.deliverableTypeId = deliverableType.id;
+        } else {
+          addError('deliverableTypeId', `Deliverable Type "${values.deliverableTypeId}" does not exist`);
+        }
+      }
+
+      if (values.documentTitle) deliverable.documentTitle = values.documentTitle;
+      if (values.clientDocumentNumber) deliverable.clientDocumentNumber = values.clientDocumentNumber;
+      if (values.internalDocumentNumber) deliverable.internalDocumentNumber = values.internalDocumentNumber;
+
+      (['budgetHours', 'totalCost'] as const).forEach(field => {
+        const text = values[field];
+        if (!text) return;
+        const number = Number(text.replace(/,/g, ''));
+        if (isNaN(number) || number < 0) {
+          addError(field, `${field === 'budgetHours' ? 'Budget Hours' : 'Total Cost'} "${text}" must be a positive number`);
+        } else {
+          deliverable[field] = number;
+        }
+      });
+      deliverable.totalHours = (deliverable.budgetHours || 0) + (deliverable.variationHours || 0);
+
+      // Suggest an internal number once everything it depends on has resolved
+      let generatedNumber = false;
+      const isDeliverableType = deliverable.deliverableTypeId === 'Deliverable';
+      if (!deliverable.internalDocumentNumber &&
+          errors.length === 0 &&
+          deliverable.discipline &&
+          deliverable.documentType &&
+          (deliverable.areaNumber || !isDeliverableType)) {
+        const prefixKey = [
+          deliverable.deliverableTypeId,
+          deliverable.areaNumber,
+          deliverable.discipline,
+          deliverable.documentType
+        ].join('|');
+
+        let suggestion = suggestedNumbers.get(prefixKey);
+        if (!suggestion) {
+          suggestion = {
+            documentNumber: await generateDocumentNumber(
+              deliverable.deliverableTypeId || 'Deliverable',
+              deliverable.areaNumber || '',
+              deliverable.discipline,
+              deliverable.documentType
+            ),
+            used: 0
+          };
+          suggestedNumbers.set(prefixKey, suggestion);
+        }
+
+        if (suggestion.documentNumber) {
+          deliverable.internalDocumentNumber = offsetDocumentNumber(suggestion.documentNumber, suggestion.used);
+          suggestion.used++;
+          generatedNumber = true;
+        }
+      }
+
+      // Apply the standard deliverable rules, skipping fields that already failed to resolve
+      const validationResult = validateDeliverable(deliverable);
+      Object.entries(validationResult.errors).forEach(([field, fieldErrors]) => {
+        if (!invalidFields.has(field)) {
+          errors.push(...fieldErrors);
+        }
+      });
+
+      results.push({
+        rowNumber,
+        deliverable,
+        isValid: errors.length === 0,
+        errors,
+        generatedNumber
+      });
+    }
+
+    // Don't leave the last imported row's errors in the editor validation state
+    dispatch({ type: 'CLEAR_VALIDATION_ERRORS' });
+
+    return results;
+  }, [
+    areasDataSource,
+    disciplinesDataSource,
+    documentTypesDataSource,
+    initializeDeliverable,
+    generateDocumentNumber,
+    validateDeliverable,
+    projectId,
+    project,
+    dispatch
+  ]);
+
+  /**
+   * Creates the valid rows of an import preview
+   * Rows are created one at a time so each suggested number accounts for the rows created before it
+   * @param items Results returned by previewDeliverableImport
+   * @returns The number of deliverables created and the rows that failed on the server
+   */
+  const submitDeliverableImport = useCallback(async (
+    items: DeliverableImportResult[]
+  ): Promise<DeliverableImportSummary> => {
+    if (!user?.token) {
+      throw new Error('User token is required');
+    }
+
+    let created = 0;
+    const failed: DeliverableImportResult[] = [];
+
+    for (const item of items.filter(result => result.isValid)) {
+      const deliverable = { ...item.deliverable };
+
+      try {
+        // Re-suggest in case other deliverables were added since the preview
+        if (item.generatedNumber) {
+          const documentNumber = await generateDocumentNumber(
+            deliverable.deliverableTypeId || 'Deliverable',
+            deliverable.areaNumber || '',
+            deliverable.discipline || '',
+            deliverable.documentType || ''
+          );
+          if (documentNumber) {
+            deliverable.internalDocumentNumber = documentNumber;
+          }
+        }
+
+        await createDeliverable(deliverable, user.token);
+        created++;
+      } catch (error) {
+        failed.push({
+          ...item,
+          deliverable,
+          isValid: false,
+          errors: [processApiError(error)]
+        });
+      }
+    }
+
+    if (created > 0) {
+      queryClient.invalidateQueries({ queryKey: ['deliverables', projectId] });
+    }
+
+    return { created, failed };
+  }, [user?.token, generateDocumentNumber, processApiError, queryClient, projectId]);
   
   // Process and format errors from different data sources
   const processError = useCallback((error: any): string | null => {
@@ -647,6 +899,10 @@ export function DeliverablesProvider({ children, projectId: projectIdProp }: Del
     initializeDeliverable,
     generateDocumentNumber,
     
+    // Import
+    previewDeliverableImport,
+    submitDeliverableImport,
+    
     // Legacy actions
     setLoading,
     setError,
@@ -673,6 +929,8 @@ export function DeliverablesProvider({ children, projectId: projectIdProp }: Del
     deleteDeliverable,
     initializeDeliverable,
     generateDocumentNumber,
+    previewDeliverableImport,
+    submitDeliverableImport,
     setLoading,
     setError,
     // setProjectGuid removed
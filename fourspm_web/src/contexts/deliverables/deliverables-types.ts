@@ -10,6 +10,48 @@ export interface ValidationResult {
   errors: Record<string, string[]>;
 }
 
+/**
+ * Deliverable fields that can be mapped from an import file column
+ */
+export type DeliverableImportField =
+  | 'areaNumber'
+  | 'discipline'
+  | 'documentType'
+  | 'departmentId'
+  | 'deliverableTypeId'
+  | 'documentTitle'
+  | 'clientDocumentNumber'
+  | 'internalDocumentNumber'
+  | 'budgetHours'
+  | 'totalCost';
+
+/**
+ * One row read from an import file, with its values keyed by the mapped deliverable field
+ */
+export interface DeliverableImportRow {
+  rowNumber: number; // Row number in the source file, for reporting errors
+  values: Partial<Record<DeliverableImportField, string>>;
+}
+
+/**
+ * Outcome of resolving and validating one imported row
+ */
+export interface DeliverableImportResult {
+  rowNumber: number;
+  deliverable: Partial<Deliverable>;
+  isValid: boolean;
+  errors: string[];
+  generatedNumber: boolean; // True when the internal number was suggested rather than imported
+}
+
+/**
+ * Outcome of creating the valid rows of an import
+ */
+export interface DeliverableImportSummary {
+  created: number;
+  failed: DeliverableImportResult[];
+}
+
 /**
  * Defines the state structure for the deliverables context
  */
@@ -130,6 +172,20 @@ export interface DeliverablesContextProps {
     isVariation?: boolean
   ) => Promise<string>;
 
+  /**
+   * Resolves imported rows against the lookup data, generates document numbers and validates each row
+   * @param rows Rows read from the import file, keyed by deliverable field
+   * @returns One result per row with the resolved deliverable and any errors
+   */
+  previewDeliverableImport: (rows: DeliverableImportRow[]) => Promise<DeliverableImportResult[]>;
+
+  /**
+   * Creates the valid rows of an import preview, one at a time
+   * @param items Results returned by previewDeliverableImport
+   * @returns The number of deliverables created and the rows that failed on the server
+   */
+  submitDeliverableImport: (items: DeliverableImportResult[]) => Promise<DeliverableImportSummary>;
+
   /**
    * Fetches deliverables for a project
    * @param projectId The project ID to fetch deliverables for
@@ -1,7 +1,10 @@
 import React, { useState, createContext, useContext, useEffect, useCallback, useMemo, useRef, ReactElement, PropsWithChildren } from 'react';
 import { RouteComponentProps } from 'react-router-dom';
-import { NavigationItem, getStaticNavigation, navigation as appNavigation } from '../app-navigation';
+import { NavigationItem, getStaticNavigation, navigation as appNavigation, filterNavigationByPermission } from '../app-navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import { getProjectNavigation } from '../adapters/project.adapter';
+import { getMyProjectMemberships } from '../adapters/project-member.adapter';
+import { getMyProjectMembershipsKey } from '../hooks/queries/useProjectMemberships';
 import { useAuth } from './auth';
 
 interface NavigationData {
@@ -28,6 +31,7 @@ function NavigationProvider({ children }: PropsWithChildren<{}>): ReactElement {
   const [navigationData, setNavigationData] = useState<NavigationData>({});
   const [navigation, setNavigation] = useState<NavigationItem[]>(appNavigation);
   const { user } = useAuth();
+  const queryClient = useQueryClient();
 
   const refreshNavigation = useCallback(async () => {
     try {
@@ -35,7 +39,15 @@ function NavigationProvider({ children }: PropsWithChildren<{}>): ReactElement {
 
 
       const staticNav = getStaticNavigation();
-      const projectNav = await getProjectNavigation(user.token);
+
+      // Admins see every project; everyone else only the projects they are members of
+      const memberships = user.roles?.includes('Admin')
+        ? null
+        : await queryClient.fetchQuery({
+          queryKey: getMyProjectMembershipsKey(user.email),
+          queryFn: () => getMyProjectMemberships(user.token)
+        });
+      const projectNav = await getProjectNavigation(user.token, memberships);
       
       // Create project status navigation structure
       const projectStatusNav: NavigationItem = {
@@ -63,11 +75,16 @@ function NavigationProvider({ children }: PropsWithChildren<{}>): ReactElement {
       const configurationsItem = appNavigation.find(item => item.text === 'Configurations');
 
       // Update navigation with project status and configurations at the end
-      setNavigation([...staticNav, projectStatusNav, configurationsItem].filter(Boolean) as NavigationItem[]);
+      // Items the user's roles do not allow are left out; project items were filtered by project role
+      setNavigation([
+        ...filterNavigationByPermission(staticNav, user.roles || []),
+        projectStatusNav,
+        ...filterNavigationByPermission([configurationsItem].filter(Boolean) as NavigationItem[], user.roles || [])
+      ]);
     } catch (error) {
 
     }
-  }, [user?.token]);
+  }, [user?.token, user?.email, user?.roles, queryClient]);
 
   useEffect(() => {
     refreshNavigation();
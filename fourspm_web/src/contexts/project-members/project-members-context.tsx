@@ -0,0 +1,83 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ProjectMembersContextProps, ProjectMembersProviderProps, initialProjectMembersState } from './project-members-types';
+import { projectMembersReducer } from './project-members-reducer';
+import { fetchProject } from '../../adapters/project.adapter';
+import { useAuth } from '../auth';
+
+// Create the context
+const ProjectMembersContext = createContext<ProjectMembersContextProps | undefined>(undefined);
+
+/**
+ * Provider component for the project members context
+ * Members are edited directly through the ODataGrid; this context supplies
+ * the project details and invalidates the memberships that drive navigation and access
+ */
+export function ProjectMembersProvider({ children, projectId }: ProjectMembersProviderProps): React.ReactElement {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Track component mounted state to prevent updates after unmounting
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const [state, dispatch] = useReducer(projectMembersReducer, initialProjectMembersState);
+
+  const setLoading = useCallback((loading: boolean) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_LOADING', payload: loading });
+  }, []);
+
+  const setError = useCallback((error: string | null) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_ERROR', payload: error });
+  }, []);
+
+  // The current user may have changed their own membership
+  const invalidateAllLookups = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['projectMembers'] });
+  }, [queryClient]);
+
+  const { data: project, isLoading: projectLoading } = useQuery({
+    queryKey: ['project', projectId],
+    queryFn: () => fetchProject(projectId, user?.token || ''),
+    enabled: !!projectId && !!user?.token
+  });
+
+  const isLookupDataLoading = state.loading || projectLoading;
+
+  const contextValue = useMemo(() => ({
+    state,
+    setLoading,
+    setError,
+    invalidateAllLookups,
+    projectId,
+    project,
+    isLookupDataLoading
+  }), [state, setLoading, setError, invalidateAllLookups, projectId, project, isLookupDataLoading]);
+
+  return (
+    <ProjectMembersContext.Provider value={contextValue}>
+      {children}
+    </ProjectMembersContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the project members context
+ * Throws an error if used outside the ProjectMembersProvider
+ */
+export function useProjectMembersContext(): ProjectMembersContextProps {
+  const context = useContext(ProjectMembersContext);
+
+  if (!context) {
+    throw new Error('useProjectMembersContext must be used within a ProjectMembersProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,19 @@
+import { ProjectMembersState, ProjectMembersAction } from './project-members-types';
+
+/**
+ * Reducer for the project members context
+ * Handles state updates based on dispatched actions
+ */
+export function projectMembersReducer(
+  state: ProjectMembersState,
+  action: ProjectMembersAction
+): ProjectMembersState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, loading: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload };
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,45 @@
+import { Project } from '@/types/odata-types';
+
+/**
+ * State interface for project members context
+ */
+export interface ProjectMembersState {
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for project members context
+ */
+export const initialProjectMembersState: ProjectMembersState = {
+  loading: false,
+  error: null
+};
+
+/**
+ * Action types for project members reducer
+ */
+export type ProjectMembersAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null };
+
+/**
+ * Props interface for ProjectMembersContext
+ */
+export interface ProjectMembersContextProps {
+  state: ProjectMembersState;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  invalidateAllLookups: () => void;
+  projectId: string;
+  project?: Project;
+  isLookupDataLoading: boolean;
+}
+
+/**
+ * Props interface for ProjectMembersProvider
+ */
+export interface ProjectMembersProviderProps {
+  children: React.ReactNode;
+  projectId: string;
+}
@@ -220,7 +220,10 @@ export function ProjectProfileProvider({ children, projectId }: ProjectProfilePr
         projectStatus: project.projectStatus,
         clientGuid: project.clientGuid,
         progressStart: project.progressStart,
-        purchaseOrderNumber: project.purchaseOrderNumber
+        reportingFrequency: project.reportingFrequency,
+        reportingPeriodCutoffs: project.reportingFrequency === 'Custom' ? project.reportingPeriodCutoffs : null,
+        purchaseOrderNumber: project.purchaseOrderNumber,
+        contractValue: project.contractValue
         // Audit fields (created, updated, etc.) are managed by the server
       };
       
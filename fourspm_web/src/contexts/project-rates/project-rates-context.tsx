@@ -0,0 +1,84 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ProjectRatesContextProps, ProjectRatesProviderProps, initialProjectRatesState } from './project-rates-types';
+import { projectRatesReducer } from './project-rates-reducer';
+import { fetchProject } from '../../adapters/project.adapter';
+import { useAuth } from '../auth';
+
+// Create the context
+const ProjectRatesContext = createContext<ProjectRatesContextProps | undefined>(undefined);
+
+/**
+ * Provider component for the project rates context
+ * The rate table is edited directly through the ODataGrid; this context supplies
+ * the project details and invalidates the variation valuations that depend on the rates
+ */
+export function ProjectRatesProvider({ children, projectId }: ProjectRatesProviderProps): React.ReactElement {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Track component mounted state to prevent updates after unmounting
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const [state, dispatch] = useReducer(projectRatesReducer, initialProjectRatesState);
+
+  const setLoading = useCallback((loading: boolean) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_LOADING', payload: loading });
+  }, []);
+
+  const setError = useCallback((error: string | null) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_ERROR', payload: error });
+  }, []);
+
+  // Rates change the value of every variation in the project
+  const invalidateAllLookups = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['projectRates', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['variation-deliverables'] });
+  }, [queryClient, projectId]);
+
+  const { data: project, isLoading: projectLoading } = useQuery({
+    queryKey: ['project', projectId],
+    queryFn: () => fetchProject(projectId, user?.token || ''),
+    enabled: !!projectId && !!user?.token
+  });
+
+  const isLookupDataLoading = state.loading || projectLoading;
+
+  const contextValue = useMemo(() => ({
+    state,
+    setLoading,
+    setError,
+    invalidateAllLookups,
+    projectId,
+    project,
+    isLookupDataLoading
+  }), [state, setLoading, setError, invalidateAllLookups, projectId, project, isLookupDataLoading]);
+
+  return (
+    <ProjectRatesContext.Provider value={contextValue}>
+      {children}
+    </ProjectRatesContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the project rates context
+ * Throws an error if used outside the ProjectRatesProvider
+ */
+export function useProjectRatesContext(): ProjectRatesContextProps {
+  const context = useContext(ProjectRatesContext);
+
+  if (!context) {
+    throw new Error('useProjectRatesContext must be used within a ProjectRatesProvider');
+  }
+
+  return context;
+}
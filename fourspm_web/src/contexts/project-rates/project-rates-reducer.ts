@@ -0,0 +1,19 @@
+import { ProjectRatesState, ProjectRatesAction } from './project-rates-types';
+
+/**
+ * Reducer for the project rates context
+ * Handles state updates based on dispatched actions
+ */
+export function projectRatesReducer(
+  state: ProjectRatesState,
+  action: ProjectRatesAction
+): ProjectRatesState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, loading: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload };
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,45 @@
+import { Project } from '@/types/odata-types';
+
+/**
+ * State interface for project rates context
+ */
+export interface ProjectRatesState {
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for project rates context
+ */
+export const initialProjectRatesState: ProjectRatesState = {
+  loading: false,
+  error: null
+};
+
+/**
+ * Action types for project rates reducer
+ */
+export type ProjectRatesAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null };
+
+/**
+ * Props interface for ProjectRatesContext
+ */
+export interface ProjectRatesContextProps {
+  state: ProjectRatesState;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  invalidateAllLookups: () => void;
+  projectId: string;
+  project?: Project;
+  isLookupDataLoading: boolean;
+}
+
+/**
+ * Props interface for ProjectRatesProvider
+ */
+export interface ProjectRatesProviderProps {
+  children: React.ReactNode;
+  projectId: string;
+}
@@ -0,0 +1,171 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from 'react';
+import notify from 'devextreme/ui/notify';
+import { v4 as uuidv4 } from 'uuid';
+import { UndoContextProps, UndoProviderProps, NewUndoableChange, RecordChangeOptions, initialUndoState } from './undo-types';
+import { undoReducer } from './undo-reducer';
+import { showUndoToast } from '../../utils/undo-toast';
+import { useAuth } from '../auth';
+
+// Create the context
+const UndoContext = createContext<UndoContextProps | undefined>(undefined);
+
+// Text editors keep their own Ctrl+Z / Ctrl+Y
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+};
+
+/**
+ * Provider component for the undo context
+ * Keeps an application-wide history of saved grid and progress changes; undo and redo send
+ * compensating calls to the server rather than reverting local state
+ * Ctrl+Z undoes the latest change and Ctrl+Y (or Ctrl+Shift+Z) redoes it
+ */
+export function UndoProvider({ children }: UndoProviderProps): React.ReactElement {
+  const { user } = useAuth();
+  const [state, dispatch] = useReducer(undoReducer, initialUndoState);
+
+  // Keyboard shortcuts and toasts act on the latest stacks
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const isApplyingRef = useRef(false);
+
+  // Changes belong to the signed-in user
+  useEffect(() => {
+    dispatch({ type: 'CLEAR_HISTORY' });
+  }, [user?.email]);
+
+  /**
+   * Runs one undo or redo, one at a time
+   * Only the latest change of a stack can be applied; an older one would overwrite later edits
+   * @returns False when the change is no longer in the expected stack
+   */
+  const applyChange = useCallback(async (id: string, direction: 'undo' | 'redo'): Promise<boolean> => {
+    const stack = direction === 'undo' ? stateRef.current.undoStack : stateRef.current.redoStack;
+    const change = stack.find(item => item.id === id);
+    if (!change || isApplyingRef.current) return false;
+    if (stack[stack.length - 1] !== change) {
+      throw new Error(`Later changes must be ${direction === 'undo' ? 'undone' : 'redone'} first`);
+    }
+
+    isApplyingRef.current = true;
+    dispatch({ type: 'SET_APPLYING', payload: true });
+    try {
+      await (direction === 'undo' ? change.undo() : change.redo());
+      dispatch({ type: direction === 'undo' ? 'CHANGE_UNDONE' : 'CHANGE_REDONE', payload: id });
+      return true;
+    } finally {
+      isApplyingRef.current = false;
+      dispatch({ type: 'SET_APPLYING', payload: false });
+    }
+  }, []);
+
+  const undo = useCallback(async () => {
+    const latest = stateRef.current.undoStack[stateRef.current.undoStack.length - 1];
+    if (!latest) return;
+    try {
+      if (await applyChange(latest.id, 'undo')) {
+        notify(`Undone: ${latest.description}`, 'success', 2000);
+      }
+    } catch (error) {
+      notify(`Undo failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    }
+  }, [applyChange]);
+
+  const redo = useCallback(async () => {
+    const latest = stateRef.current.redoStack[stateRef.current.redoStack.length - 1];
+    if (!latest) return;
+    try {
+      if (await applyChange(latest.id, 'redo')) {
+        notify(`Redone: ${latest.description}`, 'success', 2000);
+      }
+    } catch (error) {
+      notify(`Redo failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    }
+  }, [applyChange]);
+
+  /**
+   * Undoes the latest changes, newest first, up to and including the given one
+   * Stops at the first change that fails so the history stays in order
+   */
+  const undoTo = useCallback(async (id: string) => {
+    const index = stateRef.current.undoStack.findIndex(item => item.id === id);
+    if (index < 0) return;
+
+    const changes = stateRef.current.undoStack.slice(index).reverse();
+    try {
+      for (const change of changes) {
+        if (!await applyChange(change.id, 'undo')) return;
+      }
+      notify(changes.length === 1 ? `Undone: ${changes[0].description}` : `Undone ${changes.length} changes`, 'success', 2000);
+    } catch (error) {
+      notify(`Undo failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    }
+  }, [applyChange]);
+
+  const recordChange = useCallback((change: NewUndoableChange, options: RecordChangeOptions = {}) => {
+    const id = uuidv4();
+    dispatch({ type: 'RECORD_CHANGE', payload: { ...change, id, timestamp: new Date() } });
+
+    if (options.showToast !== false) {
+      // The toast reports the outcome itself, so failures are thrown to it,
+      // including an undo refused because later changes were made since
+      showUndoToast(change.description, async () => {
+        await applyChange(id, 'undo');
+      });
+    }
+  }, [applyChange]);
+
+  const clearHistory = useCallback(() => {
+    dispatch({ type: 'CLEAR_HISTORY' });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEditingTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const contextValue = useMemo(() => ({
+    state,
+    canUndo: state.undoStack.length > 0 && !state.isApplying,
+    canRedo: state.redoStack.length > 0 && !state.isApplying,
+    recordChange,
+    undo,
+    redo,
+    undoTo,
+    clearHistory
+  }), [state, recordChange, undo, redo, undoTo, clearHistory]);
+
+  return (
+    <UndoContext.Provider value={contextValue}>
+      {children}
+    </UndoContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the undo context
+ * Throws an error if used outside the UndoProvider
+ */
+export function useUndo(): UndoContextProps {
+  const context = useContext(UndoContext);
+
+  if (!context) {
+    throw new Error('useUndo must be used within an UndoProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,42 @@
+import { UndoState, UndoAction, UndoableChange, MAX_UNDO_HISTORY } from './undo-types';
+
+// Moves a change from one stack to the end of the other
+const moveChange = (from: UndoableChange[], to: UndoableChange[], id: string) => {
+  const change = from.find(item => item.id === id);
+  return change
+    ? { from: from.filter(item => item.id !== id), to: [...to, change] }
+    : { from, to };
+};
+
+/**
+ * Reducer for the undo context
+ * Handles state updates based on dispatched actions
+ */
+export function undoReducer(
+  state: UndoState,
+  action: UndoAction
+): UndoState {
+  switch (action.type) {
+    case 'RECORD_CHANGE':
+      // A new change cannot be redone over, so the redo history is dropped
+      return {
+        ...state,
+        undoStack: [...state.undoStack, action.payload].slice(-MAX_UNDO_HISTORY),
+        redoStack: []
+      };
+    case 'CHANGE_UNDONE': {
+      const { from, to } = moveChange(state.undoStack, state.redoStack, action.payload);
+      return { ...state, undoStack: from, redoStack: to, revision: state.revision + 1 };
+    }
+    case 'CHANGE_REDONE': {
+      const { from, to } = moveChange(state.redoStack, state.undoStack, action.payload);
+      return { ...state, redoStack: from, undoStack: to, revision: state.revision + 1 };
+    }
+    case 'SET_APPLYING':
+      return { ...state, isApplying: action.payload };
+    case 'CLEAR_HISTORY':
+      return { ...state, undoStack: [], redoStack: [] };
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * A saved change that can be reversed with a compensating server call
+ */
+export interface UndoableChange {
+  id: string;
+  description: string;            // Shown in the undo toast and the history list
+  timestamp: Date;
+  undo: () => Promise<void>;      // Compensating server call that reverses the change
+  redo: () => Promise<void>;      // Server call that applies the change again
+}
+
+/**
+ * A change to record; the id and timestamp are added by the context
+ */
+export type NewUndoableChange = Omit<UndoableChange, 'id' | 'timestamp'>;
+
+/**
+ * Options for recording a change
+ */
+export interface RecordChangeOptions {
+  showToast?: boolean;            // Offer an "Undo" toast for the change, on by default
+}
+
+// Number of changes kept in the undo history
+export const MAX_UNDO_HISTORY = 20;
+
+/**
+ * State interface for the undo context
+ */
+export interface UndoState {
+  undoStack: UndoableChange[];    // Oldest first
+  redoStack: UndoableChange[];    // Oldest first
+  isApplying: boolean;            // An undo or redo is being sent to the server
+  revision: number;               // Incremented after every undo or redo so grids reload
+}
+
+/**
+ * Initial state for the undo context
+ */
+export const initialUndoState: UndoState = {
+  undoStack: [],
+  redoStack: [],
+  isApplying: false,
+  revision: 0
+};
+
+/**
+ * Action types for the undo reducer
+ */
+export type UndoAction =
+  | { type: 'RECORD_CHANGE'; payload: UndoableChange }
+  | { type: 'CHANGE_UNDONE'; payload: string }
+  | { type: 'CHANGE_REDONE'; payload: string }
+  | { type: 'SET_APPLYING'; payload: boolean }
+  | { type: 'CLEAR_HISTORY' };
+
+/**
+ * Props interface for UndoContext
+ */
+export interface UndoContextProps {
+  state: UndoState;
+  canUndo: boolean;
+  canRedo: boolean;
+  recordChange: (change: NewUndoableChange, options?: RecordChangeOptions) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  undoTo: (id: string) => Promise<void>;    // Undoes the latest changes up to and including this one
+  clearHistory: () => void;
+}
+
+/**
+ * Props interface for UndoProvider
+ */
+export interface UndoProviderProps {
+  children: React.ReactNode;
+}
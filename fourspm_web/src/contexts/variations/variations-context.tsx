@@ -1,16 +1,17 @@
 import React, { createContext, useContext, useReducer, useCallback, useMemo, ReactNode, useEffect } from 'react';
-import { VariationsContextType, EditorEvent, InitNewRowEvent } from './variations-types';
+import { VariationsContextType, EditorEvent, InitNewRowEvent, VariationLifecycleAction } from './variations-types';
 import { variationsReducer, initialVariationsState } from './variations-reducer';
 import { Variation } from '../../types/odata-types';
 import { ValidationRule } from '../../hooks/interfaces/grid-operation-hook.interfaces';
 import { useAuth } from '../auth';
-import { createVariation, updateVariation, deleteVariation, getProjectVariations, approveVariation, rejectVariation } from '../../adapters/variation.adapter';
+import { createVariation, updateVariation, deleteVariation, getProjectVariations, approveVariation, rejectVariation, submitVariation, withdrawVariation } from '../../adapters/variation.adapter';
 import { v4 as uuidv4 } from 'uuid';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
 import { baseApiService } from '../../api/base-api.service';
 import { PROJECTS_ENDPOINT } from '../../config/api-endpoints';
 import { useParams } from 'react-router-dom';
 import { useEntityValidator } from '../../hooks/utils/useEntityValidator';
+import { isVariationEditable } from '../../utils/variation-lifecycle-utils';
 
 /**
  * Default validation rules for variations
@@ -248,7 +249,12 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
   
   // Handle editor field preparation
   const handleVariationEditorPreparing = useCallback((e: EditorEvent) => {
-    const { dataField, editorOptions } = e;
+    const { dataField, editorOptions, row } = e;
+    
+    // Variations that have been sent to the client are frozen
+    if (row && !row.isNewRow && !isVariationEditable(row.data)) {
+      editorOptions.readOnly = true;
+    }
     
     // Get original onValueChanged if it exists
     const originalSetValue = editorOptions.onValueChanged;
@@ -309,8 +315,8 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
     return validateRowUpdate(oldData, newData);
   }, [validateRowUpdate]);
   
-  // Change variation status (approve/reject)
-  const changeVariationStatus = useCallback(async ({ variationId, approve, projectGuid, skipStateUpdate = false }: { variationId: string; approve: boolean; projectGuid: string; skipStateUpdate?: boolean }) => {
+  // Run a variation status change on the server, tracking processing state unless the caller handles the UI
+  const runVariationStatusChange = useCallback(async (change: (token: string) => Promise<unknown>, skipStateUpdate: boolean) => {
     if (!user?.token || !isMountedRef.current) {
       throw new Error('Unable to change variation status - user is not authenticated');
     }
@@ -324,12 +330,7 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
         });
       }
       
-      // Call the appropriate adapter method based on approve flag
-      if (approve) {
-        await approveVariation(variationId, user.token);
-      } else {
-        await rejectVariation(variationId, user.token);
-      }
+      await change(user.token);
       
       // Dispatch success action if still mounted and not skipping state updates
       if (isMountedRef.current && !skipStateUpdate) {
@@ -358,6 +359,23 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
       throw error;
     }
   }, [user?.token, invalidateAllLookups]);
+  
+  // Change variation status (approve/reject)
+  const changeVariationStatus = useCallback(async ({ variationId, approve, skipStateUpdate = false }: { variationId: string; approve: boolean; projectGuid: string; skipStateUpdate?: boolean }) => {
+    // Call the appropriate adapter method based on approve flag
+    await runVariationStatusChange(
+      token => approve ? approveVariation(variationId, token) : rejectVariation(variationId, token),
+      skipStateUpdate
+    );
+  }, [runVariationStatusChange]);
+  
+  // Move a variation through its lifecycle (submit to the client or withdraw)
+  const changeVariationLifecycle = useCallback(async ({ variationId, action, skipStateUpdate = false }: { variationId: string; action: VariationLifecycleAction; skipStateUpdate?: boolean }) => {
+    await runVariationStatusChange(
+      token => action === 'submit' ? submitVariation(variationId, token) : withdrawVariation(variationId, token),
+      skipStateUpdate
+    );
+  }, [runVariationStatusChange]);
 
   // Fetch project details - key addition to prevent flickering
   const { 
@@ -386,8 +404,9 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
     addVariation,
     updateVariation: updateVariationFunc,
     deleteVariation: deleteVariationFunc,
-    // Status change function
+    // Status change functions
     changeVariationStatus,
+    changeVariationLifecycle,
     // Project data (for anti-flickering pattern)
     project,
     isLookupDataLoading,
@@ -408,8 +427,9 @@ export function VariationsProvider({ children }: VariationsProviderProps) {
     addVariation,
     updateVariationFunc,
     deleteVariationFunc,
-    // Status change dependency
+    // Status change dependencies
     changeVariationStatus,
+    changeVariationLifecycle,
     // Project data dependencies
     project,
     isLookupDataLoading,
@@ -6,6 +6,10 @@ import React from 'react';
 export interface EditorEvent {
   // Only keep what we actually use in handleVariationEditorPreparing
   dataField: string;
+  row?: {
+    data?: Record<string, any>;
+    isNewRow?: boolean;
+  };
   editorOptions: {
     onValueChanged?: (args: any) => void;
     maxLength?: number;
@@ -23,6 +27,9 @@ export interface InitNewRowEvent {
   data?: Record<string, any>;
 }
 
+// Lifecycle actions that are recorded on the server (approval and rejection use changeVariationStatus)
+export type VariationLifecycleAction = 'submit' | 'withdraw';
+
 // Combined state interface
 export interface VariationsState {
   // Data state
@@ -74,6 +81,7 @@ export interface VariationsContextType {
   updateVariation: (variation: Variation) => Promise<Variation>;
   deleteVariation: (id: string) => Promise<void>;
   changeVariationStatus: (params: { variationId: string; approve: boolean; projectGuid: string; skipStateUpdate?: boolean }) => Promise<void>;
+  changeVariationLifecycle: (params: { variationId: string; action: VariationLifecycleAction; skipStateUpdate?: boolean }) => Promise<void>;
   
   // Project data (for anti-flickering pattern)
   project?: Project; 
@@ -2,6 +2,14 @@ import { useCallback, useRef } from 'react';
 import { useDeliverableProgress } from '../../contexts/deliverable-progress/deliverable-progress-context';
 import { ValidationResult } from '../../contexts/deliverable-progress/deliverable-progress-types';
 
+// Fields the user can change on the progress grid
+const EDITABLE_PROGRESS_FIELDS = [
+  'cumulativeEarntPercentage',
+  'deliverableGateGuid',
+  'cumulativePlannedPercentage',
+  'cumulativeActualHours'
+];
+
 /**
  * Interface for deliverable progress grid handlers
  */
@@ -33,8 +41,7 @@ export function useDeliverableProgressGridHandlers(options: {
   const { 
     validateGatePercentage, 
     validateProgress, 
-    processProgressUpdate,
-    deliverableGates
+    processProgressUpdate
   } = useDeliverableProgress();
   
   // Grid reference for operations
@@ -61,7 +68,7 @@ export function useDeliverableProgressGridHandlers(options: {
     // Create a modified update function that handles the API call and grid refresh
     const update = async () => {
       try {
-        // Process the update through the context handler
+        // Process the update through the context handler; it is added to the undo history
         await processProgressUpdate(e.key || e.oldData.guid, e.newData, e.oldData);
         
         // Mark the grid as needing refresh after this edit
@@ -108,6 +115,19 @@ export function useDeliverableProgressGridHandlers(options: {
       // Then perform comprehensive validation including gate maximum and period constraints
       validateGatePercentage(e);
     }
+    
+    // The baseline is a cumulative percentage like earnt progress
+    if (e.newData.cumulativePlannedPercentage !== undefined &&
+        (e.newData.cumulativePlannedPercentage < 0 || e.newData.cumulativePlannedPercentage > 1)) {
+      e.isValid = false;
+      e.errorText = 'Planned percentage must be between 0% and 100%';
+      return;
+    }
+    
+    if (e.newData.cumulativeActualHours !== undefined && e.newData.cumulativeActualHours < 0) {
+      e.isValid = false;
+      e.errorText = 'Actual hours cannot be negative';
+    }
   }, [validateGatePercentage]);
 
   /**
@@ -132,63 +152,13 @@ export function useDeliverableProgressGridHandlers(options: {
       e.editorOptions.format = 'percent';
     }
     
-    // Make most fields read-only except for cumulative percentage
-    if (e.dataField !== 'cumulativeEarntPercentage' && e.dataField !== 'deliverableGateGuid') {
+    // Make most fields read-only except for the progress, baseline and actual hours fields
+    if (!EDITABLE_PROGRESS_FIELDS.includes(e.dataField)) {
       e.editorOptions.readOnly = true;
     }
     
-    // Check if this is the gate field being edited - implement auto-percentage assignment
-    if (e.dataField === 'deliverableGateGuid') {
-      // Store the original onValueChanged handler if it exists
-      const originalValueChanged = e.editorOptions.onValueChanged;
-      
-      // Override the onValueChanged handler
-      e.editorOptions.onValueChanged = (args: any) => {
-        // Call the original handler if it exists
-        if (originalValueChanged) {
-          originalValueChanged(args);
-        }
-        
-        if (!args.value) return; // Skip if no gate was selected
-        
-        // Find the selected gate - we use the current deliverableGates from closure
-        // This works because we've added deliverableGates to the dependency array below
-        const selectedGate = deliverableGates.find(gate => 
-          gate.guid === args.value
-        );
-        
-        if (selectedGate && selectedGate.autoPercentage !== null) {
-          // Get the current cumulativeEarntPercentage
-          const currentValue = e.row.data.cumulativeEarntPercentage || 0;
-          
-          // Only update if the auto percentage is higher than current value
-          if (selectedGate.autoPercentage > currentValue) {
-            // Use gridRef which is more reliable with virtual scrolling
-            gridRef.current?.cellValue(e.row.rowIndex, 'cumulativeEarntPercentage', selectedGate.autoPercentage);
-          }
-          
-          // This ensures we save the changes when ending edit mode
-          setTimeout(() => {
-            // Use gridRef for more reliable operation with virtual scrolling
-            const grid = gridRef.current;
-            
-            // Belt-and-suspenders approach to ensure edit operation is complete
-            if (grid && grid.hasEditData && grid.hasEditData()) {
-              // Save current cell's changes
-              grid.saveEditData();
-              
-              // After saving, end edit mode for a clean state
-              setTimeout(() => {
-                if (grid && grid.hasEditData && grid.hasEditData()) {
-                  grid.cancelEditData();
-                }
-              }, 100);
-            }
-          }, 50);
-        }
-      };
-    }
-  }, [deliverableGates]);
+    // Gate auto percentages are applied by processProgressUpdate when the gate change is saved
+  }, []);
 
   return {
     handleRowUpdating,
@@ -0,0 +1,73 @@
+import { useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { createGridOperationHook } from '@/hooks/factories/createGridOperationHook';
+import { PROJECT_MEMBERS_ENDPOINT } from '@/config/api-endpoints';
+import { ValidationRule } from '@/hooks/interfaces/grid-operation-hook.interfaces';
+import { useProjectMembersContext } from '@/contexts/project-members/project-members-context';
+
+// Validation rules for project members
+const PROJECT_MEMBER_VALIDATION_RULES: ValidationRule[] = [
+  {
+    field: 'email',
+    required: true,
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    errorText: 'A valid email address is required'
+  },
+  {
+    field: 'projectRole',
+    required: true,
+    errorText: 'Project role is required'
+  }
+];
+
+/**
+ * Custom hook for project member grid operations
+ * Provides handlers for grid events and validation
+ */
+export function useProjectMemberGridHandlers({ userToken }: { userToken?: string }) {
+  const { setError, invalidateAllLookups, projectId } = useProjectMembersContext();
+
+  const gridOperations = createGridOperationHook({
+    endpoint: PROJECT_MEMBERS_ENDPOINT,
+    validationRules: PROJECT_MEMBER_VALIDATION_RULES,
+    onUpdateError: (error) => {
+      setError('Failed to update member: ' + error.message);
+    },
+    onDeleteError: (error) => {
+      setError('Failed to remove member: ' + error.message);
+    },
+    onInsertError: (error) => {
+      setError('Failed to add member: ' + error.message);
+    },
+    invalidateCache: invalidateAllLookups,
+    defaultValues: {
+      guid: uuidv4(),
+      projectGuid: projectId,
+      email: '',
+      projectRole: 'Viewer'
+    }
+  }, userToken);
+
+  const {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow
+  } = gridOperations;
+
+  // Each membership needs its own GUID and must belong to this project
+  const handleInitNewRowWithProject = useCallback((e: any) => {
+    handleInitNewRow(e);
+    e.data.guid = uuidv4();
+    e.data.projectGuid = projectId;
+  }, [handleInitNewRow, projectId]);
+
+  return {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow: handleInitNewRowWithProject
+  };
+}
@@ -0,0 +1,69 @@
+import { useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { createGridOperationHook } from '@/hooks/factories/createGridOperationHook';
+import { PROJECT_RATES_ENDPOINT } from '@/config/api-endpoints';
+import { ValidationRule } from '@/hooks/interfaces/grid-operation-hook.interfaces';
+import { useProjectRatesContext } from '@/contexts/project-rates/project-rates-context';
+
+// Validation rules for project rates
+const PROJECT_RATE_VALIDATION_RULES: ValidationRule[] = [
+  {
+    field: 'hourlyRate',
+    required: true,
+    min: 0,
+    errorText: 'Hourly rate is required and cannot be negative'
+  }
+];
+
+/**
+ * Custom hook for project rate grid operations
+ * Provides handlers for grid events and validation
+ */
+export function useProjectRateGridHandlers({ userToken }: { userToken?: string }) {
+  const { setError, invalidateAllLookups, projectId } = useProjectRatesContext();
+
+  const gridOperations = createGridOperationHook({
+    endpoint: PROJECT_RATES_ENDPOINT,
+    validationRules: PROJECT_RATE_VALIDATION_RULES,
+    onUpdateError: (error) => {
+      setError('Failed to update rate: ' + error.message);
+    },
+    onDeleteError: (error) => {
+      setError('Failed to delete rate: ' + error.message);
+    },
+    onInsertError: (error) => {
+      setError('Failed to create rate: ' + error.message);
+    },
+    invalidateCache: invalidateAllLookups,
+    defaultValues: {
+      guid: uuidv4(),
+      projectGuid: projectId,
+      departmentId: null,
+      discipline: null,
+      hourlyRate: 0
+    }
+  }, userToken);
+
+  const {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow
+  } = gridOperations;
+
+  // Each rate needs its own GUID and must belong to this project
+  const handleInitNewRowWithProject = useCallback((e: any) => {
+    handleInitNewRow(e);
+    e.data.guid = uuidv4();
+    e.data.projectGuid = projectId;
+  }, [handleInitNewRow, projectId]);
+
+  return {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow: handleInitNewRowWithProject
+  };
+}
@@ -4,6 +4,8 @@ import { useDeliverables } from '../../contexts/deliverables/deliverables-contex
 import { confirm, alert } from 'devextreme/ui/dialog';
 import notify from 'devextreme/ui/notify';
 import { VariationDeliverableUiStatus } from '../../contexts/variation-deliverables/variation-deliverables-types';
+import { variationLifecycleStatuses } from '../../types/enums';
+import { getVariationLifecycleStatus } from '../../utils/variation-lifecycle-utils';
 
 export const useVariationDeliverableGridHandlers = (props?: {
   projectGuid?: string;
@@ -306,10 +308,11 @@ export const useVariationDeliverableGridHandlers = (props?: {
   const handleCancellationClick = useCallback(async (e: any, isReadOnly?: boolean): Promise<void> => {
     // Check if variation is in read-only mode
     if (isReadOnly) {
-      // Determine if the variation is approved or just submitted
-      const status = variationDeliverables.variation?.clientApproved ? 'approved' : 'submitted';
-      const title = `Variation ${status.charAt(0).toUpperCase() + status.slice(1)}`;
-      await alert(`This variation has been ${status} and cannot be modified.`, title);
+      // Describe where the variation is in its lifecycle
+      const status = variationLifecycleStatuses.find(
+        item => item.id === getVariationLifecycleStatus(variationDeliverables.variation)
+      )?.name || 'Submitted';
+      await alert(`This variation is ${status.toLowerCase()} and cannot be modified.`, `Variation ${status}`);
       return;
     }
     
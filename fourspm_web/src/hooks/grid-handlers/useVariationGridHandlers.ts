@@ -6,6 +6,7 @@ import { useVariations } from '../../contexts/variations/variations-context';
 import { confirm, alert } from 'devextreme/ui/dialog';
 import notify from 'devextreme/ui/notify';
 import { EditorEvent } from '../../contexts/variations/variations-types';
+import { canApproveVariation } from '../../utils/variation-lifecycle-utils';
 
 /**
  * Helper function to extract and format variation error messages
@@ -79,6 +80,7 @@ export function useVariationGridHandlers({
     handleRowValidating: contextHandleRowValidating,
     // Data operations (removed unused ones)
     changeVariationStatus,
+    changeVariationLifecycle,
     // Editor functions
     getDefaultVariationValues: contextGetDefaultVariationValues,
     handleVariationEditorPreparing: contextHandleEditorPreparing,
@@ -294,8 +296,8 @@ export function useVariationGridHandlers({
   const handleApproveVariation = useCallback(async (variationGuid: string, variation?: any) => {
     try {
       // Check if variation has been submitted first - this is also verified in the backend
-      if (variation && !variation.submitted) {
-        alert('This variation must be submitted before it can be approved', 'Validation Error');
+      if (variation && !canApproveVariation(variation)) {
+        alert('This variation must be submitted to the client before it can be approved', 'Validation Error');
         return false;
       }
       
@@ -379,6 +381,60 @@ export function useVariationGridHandlers({
     }
   }, [changeVariationStatus, projectId]);
 
+  // Submit a draft variation to the client, which freezes it and its deliverables
+  const handleSubmitVariation = useCallback(async (variationGuid: string) => {
+    try {
+      const confirmed = await confirm(
+        'Submit this variation to the client? The variation and its deliverables can no longer be edited once it has been submitted.',
+        'Submit to Client'
+      );
+      
+      if (!confirmed) {
+        return false;
+      }
+      
+      await changeVariationLifecycle({
+        variationId: variationGuid,
+        action: 'submit',
+        skipStateUpdate: true
+      });
+      
+      notify('Variation submitted to the client', 'success', 2000);
+      return true;
+    } catch (error) {
+      console.error('Error submitting variation:', error);
+      alert(error instanceof Error ? error.message : 'Error submitting variation', 'Variation Submission Failed');
+      return false;
+    }
+  }, [changeVariationLifecycle]);
+
+  // Withdraw a variation that is no longer being pursued
+  const handleWithdrawVariation = useCallback(async (variationGuid: string) => {
+    try {
+      const confirmed = await confirm(
+        'Withdraw this variation? A withdrawn variation cannot be submitted or approved.',
+        'Withdraw Variation'
+      );
+      
+      if (!confirmed) {
+        return false;
+      }
+      
+      await changeVariationLifecycle({
+        variationId: variationGuid,
+        action: 'withdraw',
+        skipStateUpdate: true
+      });
+      
+      notify('Variation withdrawn', 'success', 2000);
+      return true;
+    } catch (error) {
+      console.error('Error withdrawing variation:', error);
+      alert(error instanceof Error ? error.message : 'Error withdrawing variation', 'Variation Withdrawal Failed');
+      return false;
+    }
+  }, [changeVariationLifecycle]);
+
   return {
     // Grid row operations
     handleRowValidating,
@@ -397,6 +453,8 @@ export function useVariationGridHandlers({
     
     // Status operations
     handleApproveVariation,
-    handleRejectVariation
+    handleRejectVariation,
+    handleSubmitVariation,
+    handleWithdrawVariation
   };
 }
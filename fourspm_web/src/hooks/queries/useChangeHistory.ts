@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { getChangeHistory } from '../../adapters/audit-log.adapter';
+
+/**
+ * Loads the change history of one entity for the change history popup
+ *
+ * @param entityName Entity set of the entity, e.g. 'Deliverables'
+ * @param entityGuid The entity GUID; nothing is loaded until it is set
+ * @param token The user's authentication token
+ * @returns Query result with the entity's audit log entries, newest first
+ */
+export const useChangeHistory = (
+  entityName: string | undefined,
+  entityGuid: string | undefined,
+  token: string | undefined
+) => {
+  return useQuery({
+    queryKey: ['changeHistory', entityName, entityGuid],
+    queryFn: () => getChangeHistory(entityName || '', entityGuid || '', token || ''),
+    enabled: !!entityName && !!entityGuid && !!token,
+    staleTime: 0 // Always show the latest changes when the popup opens
+  });
+};
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDeliverables } from '../../adapters/deliverable.adapter';
+import { getDeliverablesWithProgress } from '../../adapters/progress.adapter';
+import { getProjectRates } from '../../adapters/project-rate.adapter';
+import { ProjectRate } from '../../types/odata-types';
+import { ProjectCommercialsRollUp, summarizeProjectCommercials } from '../../utils/commercials-utils';
+
+/**
+ * A project's rate schedule with its cost and earned value roll-up
+ */
+export interface ProjectCommercials {
+  rates: ProjectRate[];
+  rollUp: ProjectCommercialsRollUp;
+}
+
+/**
+ * Loads what the Project Profile needs to show the commercial state of a project
+ * Values the deliverables register at the project's rates, with earned value measured at the given period
+ *
+ * @param projectId The project GUID
+ * @param period The period to measure earned value at (usually the current period), null when the project has no progress start
+ * @param token The user's authentication token
+ * @returns Query result with the rate schedule and roll-up
+ */
+export const useProjectCommercials = (
+  projectId: string | undefined,
+  period: number | null,
+  token: string | undefined
+) => {
+  return useQuery({
+    // Nested under the rates key so rate changes refresh the roll-up too
+    queryKey: ['projectRates', projectId, 'commercials', period],
+    queryFn: async (): Promise<ProjectCommercials> => {
+      const [deliverables, progressRows, rates] = await Promise.all([
+        getDeliverables(token || '', projectId),
+        period !== null ? getDeliverablesWithProgress(projectId || '', period, token || '') : Promise.resolve([]),
+        getProjectRates(projectId || '', token || '')
+      ]);
+
+      return {
+        rates,
+        rollUp: summarizeProjectCommercials(deliverables, progressRows, rates)
+      };
+    },
+    enabled: !!projectId && !!token
+  });
+};
@@ -0,0 +1,61 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getProjects } from '../../adapters/project.adapter';
+import { getMyProjectMemberships } from '../../adapters/project-member.adapter';
+import { getDeliverablesWithProgress } from '../../adapters/progress.adapter';
+import { getProjectVariations } from '../../adapters/variation.adapter';
+import { createPeriodCalendar, calculateCurrentPeriod } from '../../utils/period-utils';
+import { DashboardProject, getActiveDashboardProjects, summarizeDashboardProject } from '../../utils/dashboard-utils';
+import { mapWithConcurrency } from '../../utils/async-utils';
+import { getMyProjectMembershipsKey } from './useProjectMemberships';
+
+// Number of projects loaded at the same time; each project sends two requests
+const MAX_CONCURRENT_PROJECTS = 3;
+
+/**
+ * Loads the key figures of the signed-in user's active projects for the home page
+ * Members only see the projects they belong to; a few projects are loaded at a time, each
+ * with its current period progress and variations requested in parallel
+ *
+ * @param email The signed-in user's email, so a different user never sees cached projects
+ * @param token The user's authentication token
+ * @param isAdmin Admins see every project and skip loading memberships
+ * @returns Query result with a summary of each active project
+ */
+export const useProjectDashboard = (
+  email: string | undefined,
+  token: string | undefined,
+  isAdmin: boolean
+) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ['dashboard', email, isAdmin],
+    queryFn: async (): Promise<DashboardProject[]> => {
+      const [memberships, projects] = await Promise.all([
+        isAdmin
+          ? null
+          : queryClient.fetchQuery({
+            queryKey: getMyProjectMembershipsKey(email),
+            queryFn: () => getMyProjectMemberships(token || '')
+          }),
+        getProjects(token || '')
+      ]);
+      const projectsByGuid = new Map(projects.map(project => [project.guid, project]));
+
+      return mapWithConcurrency(getActiveDashboardProjects(projects, memberships), MAX_CONCURRENT_PROJECTS, async dashboardProject => {
+        const calendar = createPeriodCalendar(projectsByGuid.get(dashboardProject.guid));
+        const currentPeriod = calendar ? calculateCurrentPeriod(calendar) : null;
+
+        // Without a period calendar, period 0 still gives the budget hours
+        const [progressRows, variations] = await Promise.all([
+          getDeliverablesWithProgress(dashboardProject.guid, currentPeriod ?? 0, token || ''),
+          getProjectVariations(dashboardProject.guid, token || '')
+        ]);
+
+        return summarizeDashboardProject(dashboardProject, currentPeriod, progressRows, variations);
+      });
+    },
+    enabled: !!email && !!token,
+    staleTime: 60 * 1000 // Progress and approvals change during the day
+  });
+};
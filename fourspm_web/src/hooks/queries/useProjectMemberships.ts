@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { getMyProjectMemberships } from '../../adapters/project-member.adapter';
+
+/**
+ * Query key for the signed-in user's project memberships
+ * Shared with the navigation, which fetches the same list outside React
+ * Keyed by user so a different user signing in never gets the previous user's memberships
+ */
+export const getMyProjectMembershipsKey = (email: string | undefined) => ['projectMembers', 'me', email];
+
+/**
+ * Loads the projects the signed-in user is a member of
+ *
+ * @param email The signed-in user's email
+ * @param token The user's authentication token
+ * @param enabled Whether to load the memberships; admins see every project and skip the request
+ * @returns Query result with the user's memberships
+ */
+export const useProjectMemberships = (
+  email: string | undefined,
+  token: string | undefined,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: getMyProjectMembershipsKey(email),
+    queryFn: () => getMyProjectMemberships(token || ''),
+    enabled: enabled && !!email && !!token
+  });
+};
@@ -0,0 +1,64 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getDeliverablesWithProgress } from '../../adapters/progress.adapter';
+import { getProjectPeriodLocks } from '../../adapters/progress-period-lock.adapter';
+import { DeliverableProgressDto } from '../../types/app-types';
+import { mapWithConcurrency } from '../../utils/async-utils';
+
+/**
+ * Progress rows for a single reporting period
+ */
+export interface PeriodProgressRows {
+  period: number;
+  rows: DeliverableProgressDto[];
+}
+
+// Number of periods requested from the server at the same time
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Query key of a single period's progress rows
+ * Kept outside the progressHistory key so edits only refetch the period they change
+ */
+export const getPeriodProgressRowsKey = (projectId: string, period: number) =>
+  ['progressPeriodRows', projectId, period];
+
+/**
+ * Fetches deliverable progress for every period from 0 up to the given period
+ * Periods are requested a few at a time from the same endpoint the Progress page uses and cached
+ * one by one; closed periods cannot change, so they are only fetched once
+ *
+ * @param projectId The project GUID
+ * @param lastPeriod The last period to include (usually the project's current period)
+ * @param token The user's authentication token
+ * @returns Query result with progress rows for each period in ascending order
+ */
+export const useProjectProgressHistory = (
+  projectId: string | undefined,
+  lastPeriod: number | null,
+  token: string | undefined
+) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ['progressHistory', projectId, lastPeriod],
+    queryFn: async (): Promise<PeriodProgressRows[]> => {
+      const locks = await queryClient.fetchQuery({
+        queryKey: ['progressPeriodLocks', projectId],
+        queryFn: () => getProjectPeriodLocks(projectId || '', token || '')
+      });
+      const isClosed = (period: number) => locks.some(lock => lock.period === period && !lock.reopened);
+
+      const periods = Array.from({ length: (lastPeriod || 0) + 1 }, (_, index) => index);
+      return mapWithConcurrency(periods, MAX_CONCURRENT_REQUESTS, async period => ({
+        period,
+        rows: await queryClient.fetchQuery({
+          queryKey: getPeriodProgressRowsKey(projectId || '', period),
+          queryFn: () => getDeliverablesWithProgress(projectId || '', period, token || ''),
+          staleTime: isClosed(period) ? Infinity : 5 * 60 * 1000
+        })
+      }));
+    },
+    enabled: !!projectId && !!token && lastPeriod !== null,
+    staleTime: 5 * 60 * 1000 // Historical periods rarely change
+  });
+};
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { getProjectRates } from '../../adapters/project-rate.adapter';
+
+/**
+ * Loads a project's hourly rate table, used to value variations
+ *
+ * @param projectId The project GUID
+ * @param token The user's authentication token
+ * @returns Query result with the project's rates
+ */
+export const useProjectRates = (
+  projectId: string | undefined,
+  token: string | undefined
+) => {
+  return useQuery({
+    queryKey: ['projectRates', projectId],
+    queryFn: () => getProjectRates(projectId || '', token || ''),
+    enabled: !!projectId && !!token
+  });
+};
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { getProfile } from '../../api/auth-api.service';
+
+/**
+ * Loads the signed-in user's profile and preferences
+ *
+ * @param email The signed-in user's email, so a different user never sees a cached profile
+ * @returns Query result with the profile
+ */
+export const useUserProfile = (email: string | undefined) => {
+  return useQuery({
+    queryKey: ['userProfile', email],
+    queryFn: async () => {
+      const result = await getProfile();
+      if (!result.isOk || !result.data) {
+        throw new Error(result.message || 'Failed to load profile');
+      }
+      return result.data;
+    },
+    enabled: !!email
+  });
+};
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { getProjectVariations } from '../../adapters/variation.adapter';
+import { getProjectVariationDeliverables } from '../../adapters/variation-deliverable.adapter';
+import { Deliverable } from '../../types/odata-types';
+import { buildVariationDependencies, VariationDependencyNode } from '../../utils/variation-dependency-utils';
+
+/**
+ * Builds the dependency graph between a project's variations
+ * Loads every variation and all variation deliverables of the project, then links variations that
+ * change each other's deliverables
+ *
+ * @param projectId The project GUID
+ * @param token The user's authentication token
+ * @returns Query result with a dependency node for each variation, keyed by variation GUID
+ */
+export const useVariationDependencies = (
+  projectId: string | undefined,
+  token: string | undefined
+) => {
+  return useQuery({
+    queryKey: ['variations', projectId, 'dependencies'],
+    queryFn: async (): Promise<Record<string, VariationDependencyNode>> => {
+      const [variations, deliverables] = await Promise.all([
+        getProjectVariations(projectId || '', token || ''),
+        getProjectVariationDeliverables(projectId || '', token)
+      ]);
+
+      const deliverablesByVariation: Record<string, Deliverable[]> = {};
+      deliverables.forEach(deliverable => {
+        if (!deliverable.variationGuid) return;
+        deliverablesByVariation[deliverable.variationGuid] = deliverablesByVariation[deliverable.variationGuid] || [];
+        deliverablesByVariation[deliverable.variationGuid].push(deliverable);
+      });
+
+      return buildVariationDependencies(variations, deliverablesByVariation);
+    },
+    enabled: !!projectId && !!token
+  });
+};
@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDeliverables } from '../../adapters/deliverable.adapter';
+import { getVariationDeliverables } from '../../adapters/variation-deliverable.adapter';
+import { getProjectRates } from '../../adapters/project-rate.adapter';
+import { summarizeVariation, VariationSummary } from '../../utils/variation-summary-utils';
+
+/**
+ * Summarises the changes a variation makes to its project's deliverables
+ * Loads the variation's deliverables, the project's current register and its rate table
+ * to work out the net change in hours and its value
+ *
+ * @param variationId The variation GUID
+ * @param projectId The project GUID
+ * @param token The user's authentication token
+ * @returns Query result with the variation summary
+ */
+export const useVariationSummary = (
+  variationId: string | undefined,
+  projectId: string | undefined,
+  token: string | undefined
+) => {
+  return useQuery({
+    // Nested under the variation deliverables key so grid changes that invalidate it refresh the summary too
+    queryKey: ['variation-deliverables', variationId, 'summary'],
+    queryFn: async (): Promise<VariationSummary> => {
+      const [variationDeliverables, projectDeliverables, rates] = await Promise.all([
+        getVariationDeliverables(variationId || '', token),
+        getDeliverables(token || '', projectId),
+        getProjectRates(projectId || '', token || '')
+      ]);
+
+      const currentProjectHours = projectDeliverables.reduce(
+        (sum, deliverable) => sum + (deliverable.totalHours || 0),
+        0
+      );
+
+      return summarizeVariation(variationDeliverables, currentProjectHours, rates);
+    },
+    enabled: !!variationId && !!projectId && !!token
+  });
+};
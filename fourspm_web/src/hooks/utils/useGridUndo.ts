@@ -0,0 +1,122 @@
+import { useCallback, useRef } from 'react';
+import { useUndo } from '../../contexts/undo/undo-context';
+import { sharedApiService } from '../../api/shared-api.service';
+import { restoreDeletedRecord } from '../../adapters/recycle-bin.adapter';
+import { getEntitySetName, getEntitySetUrl } from '../../utils/grid-utils';
+import type { ODataGridColumn } from '../../components';
+
+// Entity sets the server soft-deletes; their deletes are undone by restoring the record
+const SOFT_DELETED_ENTITY_SETS = ['Clients', 'Projects', 'Deliverables', 'DeliverableGates', 'Variations'];
+
+// Audit fields are set by the server and rejected when posted
+const AUDIT_FIELDS = ['created', 'createdBy', 'updated', 'updatedBy', 'deleted', 'deletedBy'];
+
+interface UseGridUndoProps {
+  endpoint?: string;
+  title: string;
+  columns: ODataGridColumn[];
+  getToken: () => string | undefined;
+  enabled: boolean;
+}
+
+/**
+ * Records the rows an ODataGrid saves in the undo history
+ * Updates are undone by patching the previous values back, inserts by deleting the row and
+ * deletes by restoring (or re-creating) it; every undo and redo is a call to the entity set
+ * Covers the grid operation handlers of every page, as they run inside the grid's save
+ *
+ * @returns Handlers to attach to the grid's row events
+ */
+export const useGridUndo = ({ endpoint, title, columns, getToken, enabled }: UseGridUndoProps) => {
+  const { recordChange } = useUndo();
+  const entitySetUrl = enabled ? getEntitySetUrl(endpoint) : undefined;
+  const isSoftDeleted = SOFT_DELETED_ENTITY_SETS.includes(getEntitySetName(endpoint) || '');
+
+  // Edited fields and their previous values, kept until the server confirms the save
+  const pendingUpdates = useRef(new Map<string, { fields: string[]; before: Record<string, any> }>());
+
+  // Describes a row by its first data column, e.g. the document number
+  const describeRow = useCallback((data: any) => {
+    const titleColumn = columns.find(column => column.dataField && column.type !== 'buttons');
+    const value = titleColumn?.dataField ? data?.[titleColumn.dataField] : undefined;
+    const rowName = title.trim() ? `${title.trim()} row` : 'Row';
+    return value ? String(value) : rowName;
+  }, [columns, title]);
+
+  // Fields the server accepts when a deleted row is posted again: plain values, without audit
+  // fields, expanded navigation properties or read-only and calculated columns
+  const getWritableFields = useCallback((data: Record<string, any>) => {
+    const readOnlyFields = columns
+      .filter(column => column.dataField && (column.allowEditing === false || column.calculateCellValue))
+      .map(column => column.dataField);
+    return Object.fromEntries(Object.entries(data).filter(([field, value]) =>
+      !AUDIT_FIELDS.includes(field) &&
+      !readOnlyFields.includes(field) &&
+      (value === null || typeof value !== 'object' || value instanceof Date)
+    ));
+  }, [columns]);
+
+  const getCaption = useCallback((field: string) =>
+    columns.find(column => column.dataField === field)?.caption || field, [columns]);
+
+  // Runs after the page's own onRowUpdating, so fields it adds to newData are included
+  const trackRowUpdating = useCallback((e: any) => {
+    if (!entitySetUrl || !e.newData || e.cancel === true) return;
+
+    const fields = Object.keys(e.newData);
+    pendingUpdates.current.set(String(e.key), {
+      fields,
+      before: Object.fromEntries(fields.map(field => [field, e.oldData?.[field] ?? null]))
+    });
+  }, [entitySetUrl]);
+
+  const handleRowUpdated = useCallback((e: any) => {
+    const key = String(e.key);
+    const pending = pendingUpdates.current.get(key);
+    pendingUpdates.current.delete(key);
+    if (!entitySetUrl || !pending) return;
+
+    // The saved values, including changes made to newData after it was tracked
+    const after = Object.fromEntries(pending.fields.map(field => [field, e.data?.[field] ?? null]));
+    recordChange({
+      description: `${describeRow(e.data)}: ${pending.fields.map(getCaption).join(', ')} changed`,
+      undo: () => sharedApiService.update(entitySetUrl, key, pending.before, getToken() || ''),
+      redo: () => sharedApiService.update(entitySetUrl, key, after, getToken() || '')
+    });
+  }, [entitySetUrl, getCaption, describeRow, recordChange, getToken]);
+
+  const handleRowInserted = useCallback((e: any) => {
+    if (!entitySetUrl) return;
+
+    const key = String(e.key);
+    const data = getWritableFields(e.data || {});
+    recordChange({
+      description: `${describeRow(e.data)} added`,
+      undo: () => sharedApiService.delete(entitySetUrl, key, getToken() || ''),
+      redo: () => isSoftDeleted
+        ? restoreDeletedRecord(entitySetUrl, key, getToken() || '')
+        : sharedApiService.post<void>(entitySetUrl, getToken() || '', data)
+    });
+  }, [entitySetUrl, isSoftDeleted, getWritableFields, describeRow, recordChange, getToken]);
+
+  const handleRowRemoved = useCallback((e: any) => {
+    if (!entitySetUrl) return;
+
+    const key = String(e.key);
+    const data = getWritableFields(e.data || {});
+    recordChange({
+      description: `${describeRow(e.data)} deleted`,
+      undo: () => isSoftDeleted
+        ? restoreDeletedRecord(entitySetUrl, key, getToken() || '')
+        : sharedApiService.post<void>(entitySetUrl, getToken() || '', data),
+      redo: () => sharedApiService.delete(entitySetUrl, key, getToken() || '')
+    });
+  }, [entitySetUrl, isSoftDeleted, getWritableFields, describeRow, recordChange, getToken]);
+
+  return {
+    trackRowUpdating,
+    handleRowUpdated,
+    handleRowInserted,
+    handleRowRemoved
+  };
+};
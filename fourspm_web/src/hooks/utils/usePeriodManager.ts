@@ -1,41 +1,45 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { PeriodCalendar, ProjectPeriod } from '../../types/app-types';
+import { getLastPeriod, getProjectPeriod } from '../../utils/period-utils';
 
 /**
  * Hook for managing period state and calculations
- * 
+ *
  * Follows the same standardized approach as other utility hooks
- * Centralizes period state management and date calculations
- * 
- * @param initialPeriod The initial period value (usually from useProjectInfo)
- * @param projectStartDate The project's progress start date
+ * Centralizes period state management; all date arithmetic is delegated to the
+ * period calendar in utils/period-utils so every screen agrees on period dates
+ *
+ * @param initialPeriod The initial period value (usually the project's current period)
+ * @param calendar The project's period calendar
  * @returns Object containing period state and helper functions
  */
-export const usePeriodManager = (initialPeriod: number | null, projectStartDate?: string | null) => {
+export const usePeriodManager = (initialPeriod: number | null, calendar?: PeriodCalendar | null) => {
   // Internal state
   const [selectedPeriod, setSelectedPeriod] = useState<number | null>(null);
-  const [progressDate, setProgressDate] = useState<Date>(new Date());
-  
+
   // Initialize selectedPeriod once initialPeriod is available
   useEffect(() => {
     if (initialPeriod !== null && selectedPeriod === null) {
       setSelectedPeriod(initialPeriod);
     }
   }, [initialPeriod, selectedPeriod]);
-  
-  // Calculate progress date whenever period or project start date changes
-  useEffect(() => {
-    if (projectStartDate && selectedPeriod !== null) {
-      const startDate = new Date(projectStartDate);
-      const newProgressDate = new Date(startDate);
-      newProgressDate.setDate(startDate.getDate() + (selectedPeriod * 7)); // Add weeks
-      setProgressDate(newProgressDate);
-    }
-  }, [selectedPeriod, projectStartDate]);
+
+  // Highest selectable period - only custom schedules are bounded
+  const lastPeriod = useMemo(() => calendar ? getLastPeriod(calendar) : null, [calendar]);
+
+  // Resolve the selected period's date range from the calendar
+  const selectedPeriodInfo = useMemo<ProjectPeriod | null>(() => {
+    if (!calendar || selectedPeriod === null) return null;
+    return getProjectPeriod(selectedPeriod, calendar);
+  }, [calendar, selectedPeriod]);
+
+  // The progress date is the cut-off date of the selected period
+  const progressDate = useMemo(() => selectedPeriodInfo?.endDate || new Date(), [selectedPeriodInfo]);
 
   // Handle period increment/decrement
   const incrementPeriod = () => handlePeriodChange(true);
   const decrementPeriod = () => handlePeriodChange(false);
-  
+
   // Private helper function
   const handlePeriodChange = (increment: boolean) => {
     if (selectedPeriod !== null) {
@@ -44,14 +48,20 @@ export const usePeriodManager = (initialPeriod: number | null, projectStartDate?
           // Don't allow decrements below 0
           return 0;
         }
+        if (increment && prevPeriod !== null && lastPeriod !== null && prevPeriod >= lastPeriod) {
+          // Don't allow increments past the end of a custom schedule
+          return lastPeriod;
+        }
         return prevPeriod !== null ? prevPeriod + (increment ? 1 : -1) : null;
       });
     }
   };
-  
+
   return {
     selectedPeriod,
+    selectedPeriodInfo,
     progressDate,
+    lastPeriod,
     incrementPeriod,
     decrementPeriod,
     setSelectedPeriod // Allow direct setting if needed
@@ -0,0 +1,51 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/auth';
+import { hasPermission, hasProjectPermission, Permission } from '../../config/permissions';
+import { useProjectMemberships } from '../queries/useProjectMemberships';
+import { ProjectRole, UserRole } from '../../types';
+
+/**
+ * Interface for permissions hook result
+ */
+export interface PermissionsResult {
+  roles: UserRole[];
+  can: (permission: Permission) => boolean;
+  isAdmin: boolean;
+  projectRole: ProjectRole | null;    // The user's role on the project, null when not a member
+  isProjectMember: boolean;           // Always true for admins and when no project is given
+  isLoading: boolean;                 // Memberships are still loading
+}
+
+/**
+ * Hook for checking what the signed-in user is allowed to do
+ * Roles come from the login token; the API enforces the same rules on every request
+ * On a project, non-admins are limited to the role they were given as a member of it
+ *
+ * @param projectId Optional project GUID to check permissions on
+ * @returns The user's roles and a capability check
+ */
+export const usePermissions = (projectId?: string): PermissionsResult => {
+  const { user } = useAuth();
+  const roles = useMemo(() => user?.roles || [], [user?.roles]);
+  const isAdmin = roles.includes('Admin');
+
+  const { data: memberships = [], isLoading } = useProjectMemberships(user?.email, user?.token, !!projectId && !isAdmin);
+
+  const projectRole = useMemo(
+    () => memberships.find(membership => membership.projectGuid === projectId)?.projectRole || null,
+    [memberships, projectId]
+  );
+
+  const can = useCallback((permission: Permission) => projectId
+    ? hasProjectPermission(roles, projectRole, permission)
+    : hasPermission(roles, permission), [roles, projectRole, projectId]);
+
+  return {
+    roles,
+    can,
+    isAdmin,
+    projectRole,
+    isProjectMember: !projectId || isAdmin || !!projectRole,
+    isLoading: !!projectId && !isAdmin && isLoading
+  };
+};
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import { Project } from '../../types/odata-types';
+import { PeriodCalendar } from '../../types/app-types';
 import { fetchProject } from '../../adapters/project.adapter';
-import { calculateCurrentPeriod } from '../../utils/period-utils';
+import { calculateCurrentPeriod, createPeriodCalendar } from '../../utils/period-utils';
 import { createDataFetchingHook, DataFetchingResult } from '../factories/createDataFetchingHook';
 
 /**
@@ -9,6 +10,7 @@ import { createDataFetchingHook, DataFetchingResult } from '../factories/createD
  */
 export interface ProjectInfoResult extends Omit<DataFetchingResult<Project>, 'data'> {
   project: Project | null;
+  periodCalendar: PeriodCalendar | null;
   currentPeriod: number | null;
 }
 
@@ -54,18 +56,19 @@ export const useProjectInfo = (
   userToken: string | undefined
 ): ProjectInfoResult => {
   const { data: project, isLoading, error } = useBaseProjectInfo(projectId, userToken);
-  const [currentPeriod, setCurrentPeriod] = useState<number | null>(null);
   
-  // Calculate the current period whenever project data changes
-  useEffect(() => {
-    if (project?.progressStart) {
-      const period = calculateCurrentPeriod(new Date(project.progressStart));
-      setCurrentPeriod(period);
-    }
-  }, [project]);
+  // Build the project's period calendar whenever project data changes
+  const periodCalendar = useMemo(() => createPeriodCalendar(project), [project]);
+  
+  // Calculate the current period from the same calendar used by the progress page
+  const currentPeriod = useMemo(
+    () => periodCalendar ? calculateCurrentPeriod(periodCalendar) : null,
+    [periodCalendar]
+  );
   
   return {
     project,
+    periodCalendar,
     currentPeriod,
     isLoading,
     error
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
 import { ODataGrid } from '../../components';
 import { areaColumns } from './area-columns';
 import { AREAS_ENDPOINT } from '@/config/api-endpoints';
@@ -49,6 +50,7 @@ const AreasContent = React.memo((): React.ReactElement => {
     project,
     isLookupDataLoading
   } = useAreas();
+  const { can } = usePermissions(projectId);
 
   // Define filter to only show areas for the current project
   const projectFilter: [string, string, any][] = [["projectGuid", "=", projectId]];
@@ -108,6 +110,9 @@ const AreasContent = React.memo((): React.ReactElement => {
             onRowRemoving={handleRowRemoving}
             onRowInserting={handleRowInserting}
             onInitialized={handleGridInitialized}
+            allowAdding={can('deliverables.edit')}
+            allowUpdating={can('deliverables.edit')}
+            allowDeleting={can('deliverables.edit')}
             defaultFilter={projectFilter}
             defaultSort={[{ selector: 'areaNumber', desc: false }]}
             customGridHeight={900}
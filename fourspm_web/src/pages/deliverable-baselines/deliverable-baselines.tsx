@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { LoadPanel } from 'devextreme-react/load-panel';
+import SelectBox from 'devextreme-react/select-box';
+import Button from 'devextreme-react/button';
+import TextBox from 'devextreme-react/text-box';
+import TextArea from 'devextreme-react/text-area';
+import { Popup } from 'devextreme-react/popup';
+import DataGrid, { Column, HeaderFilter, Lookup, Summary, TotalItem } from 'devextreme-react/data-grid';
+import notify from 'devextreme/ui/notify';
+import { ScrollToTop, ErrorMessage } from '../../components';
+import { DeliverableBaselinesProvider, useDeliverableBaselines } from '@/contexts/deliverable-baselines/deliverable-baselines-context';
+import { DeliverableBaseline } from '@/types/odata-types';
+import { baselineChangeTypes } from '@/types/enums';
+import { summarizeBaselineComparison } from '@/utils/baseline-utils';
+import { usePermissions } from '@/hooks/utils/usePermissions';
+import './deliverable-baselines.scss';
+
+interface DeliverableBaselineParams {
+  projectId: string;
+}
+
+const formatHours = (hours: number, signed = false) =>
+  `${signed && hours > 0 ? '+' : ''}${hours.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const getBaselineDisplayText = (baseline: DeliverableBaseline | null) =>
+  baseline ? `${baseline.name} (${new Date(baseline.created).toLocaleDateString()})` : '';
+
+/**
+ * Main Deliverable Baselines component following the Collection View Doctrine
+ * Baselines freeze the deliverables register so scope change can be traced independently of variations
+ */
+function DeliverableBaselines(): React.ReactElement {
+  const { projectId } = useParams<DeliverableBaselineParams>();
+
+  if (!projectId) {
+    return <div className="error-message">Project ID is missing from the URL.</div>;
+  }
+
+  return (
+    <DeliverableBaselinesProvider projectId={projectId}>
+      <DeliverableBaselinesContent />
+    </DeliverableBaselinesProvider>
+  );
+}
+
+/**
+ * Internal component that uses the deliverable baselines context
+ */
+const DeliverableBaselinesContent = React.memo((): React.ReactElement => {
+  const {
+    state,
+    projectId,
+    project,
+    isLookupDataLoading,
+    baselines,
+    selectedBaseline,
+    selectBaseline,
+    createProjectBaseline,
+    comparison,
+    isComparisonLoading,
+    refreshComparison
+  } = useDeliverableBaselines();
+  const { can } = usePermissions(projectId);
+
+  // Create baseline popup state
+  const [isCreatePopupVisible, setIsCreatePopupVisible] = useState(false);
+  const [baselineName, setBaselineName] = useState('');
+  const [baselineDescription, setBaselineDescription] = useState('');
+
+  const summary = useMemo(() => summarizeBaselineComparison(comparison), [comparison]);
+
+  const openCreatePopup = () => {
+    setBaselineName('');
+    setBaselineDescription('');
+    setIsCreatePopupVisible(true);
+  };
+
+  const handleCreateBaseline = async () => {
+    try {
+      const baseline = await createProjectBaseline(baselineName.trim(), baselineDescription.trim() || null);
+      setIsCreatePopupVisible(false);
+      notify(`Baseline "${baseline.name}" created`, 'success', 3000);
+    } catch (error) {
+      notify(`Error creating baseline: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+    }
+  };
+
+  const hasError = state.error !== null;
+
+  return (
+    <div className="deliverable-baselines-container">
+      <LoadPanel
+        position={{ of: '.app-main-content' }}
+        visible={isLookupDataLoading || state.loading}
+        showIndicator={true}
+        shading={true}
+        shadingColor="rgba(0,0,0,0.1)"
+        showPane={true}
+      />
+
+      {hasError && (
+        <ErrorMessage
+          title="Error Loading Baselines"
+          message={state.error || 'An unknown error occurred'}
+        />
+      )}
+
+      <div className="custom-grid-wrapper">
+        <div className="grid-custom-title">
+          {project ? `${project.projectNumber} - ${project.name} Baselines` : 'Baselines'}
+        </div>
+
+        <div className="deliverable-baselines-toolbar">
+          <SelectBox
+            items={baselines}
+            valueExpr="guid"
+            displayExpr={getBaselineDisplayText}
+            value={selectedBaseline?.guid || null}
+            onValueChanged={(e) => selectBaseline(e.value)}
+            placeholder="No baselines yet"
+            label="Compare current register with"
+            width={340}
+            disabled={baselines.length === 0}
+          />
+          <Button icon="refresh" hint="Refresh comparison" stylingMode="text" onClick={refreshComparison} disabled={!selectedBaseline} />
+          {can('baselines.create') && (
+            <Button text="Create Baseline" icon="add" type="default" stylingMode="contained" onClick={openCreatePopup} />
+          )}
+        </div>
+
+        {selectedBaseline && (
+          <>
+            <div className="deliverable-baselines-summary">
+              <div className="baseline-summary-item">
+                <span className="baseline-summary-label">Added</span>
+                <span className="baseline-summary-value">{summary.addedCount}</span>
+              </div>
+              <div className="baseline-summary-item">
+                <span className="baseline-summary-label">Removed</span>
+                <span className="baseline-summary-value">{summary.removedCount}</span>
+              </div>
+              <div className="baseline-summary-item">
+                <span className="baseline-summary-label">Hours changed</span>
+                <span className="baseline-summary-value">{summary.hoursChangedCount}</span>
+              </div>
+              <div className="baseline-summary-item">
+                <span className="baseline-summary-label">Hours</span>
+                <span className="baseline-summary-value">
+                  {`${formatHours(summary.baselineHours)} → ${formatHours(summary.currentHours)}`}
+                </span>
+              </div>
+              <div className="baseline-summary-item">
+                <span className="baseline-summary-label">Scope change</span>
+                <span className={`baseline-summary-value ${summary.hoursDelta < 0 ? 'negative' : 'positive'}`}>
+                  {formatHours(summary.hoursDelta, true)}
+                </span>
+              </div>
+            </div>
+            {selectedBaseline.description && (
+              <div className="deliverable-baselines-hint">{selectedBaseline.description}</div>
+            )}
+            <div className="deliverable-baselines-hint">
+              {`Created by ${selectedBaseline.createdBy} on ${new Date(selectedBaseline.created).toLocaleString()}`}
+            </div>
+
+            <DataGrid
+              dataSource={comparison}
+              keyExpr="deliverableGuid"
+              showBorders={true}
+              columnAutoWidth={true}
+              height={600}
+              noDataText={isComparisonLoading ? 'Comparing...' : 'No deliverables in the register or the baseline'}
+              onRowPrepared={(e: any) => {
+                if (e.rowType === 'data' && e.data.change !== 'Unchanged') {
+                  e.rowElement.classList.add(`baseline-${e.data.change.toLowerCase()}-row`);
+                }
+              }}
+            >
+              <HeaderFilter visible={true} />
+              <Column dataField="change" caption="Change" width={130}>
+                <Lookup dataSource={baselineChangeTypes} valueExpr="id" displayExpr="name" />
+              </Column>
+              <Column dataField="internalDocumentNumber" caption="Document No." />
+              <Column dataField="clientDocumentNumber" caption="Client No." />
+              <Column dataField="documentTitle" caption="Title" />
+              <Column dataField="areaNumber" caption="Area" />
+              <Column dataField="discipline" caption="Discipline" />
+              <Column dataField="baselineHours" caption="Baseline Hours" dataType="number" format="#,##0.##" />
+              <Column dataField="currentHours" caption="Current Hours" dataType="number" format="#,##0.##" />
+              <Column
+                dataField="hoursDelta"
+                caption="Change (Hours)"
+                dataType="number"
+                customizeText={(cellInfo: any) => formatHours(cellInfo.value || 0, true)}
+              />
+              <Summary>
+                <TotalItem column="baselineHours" summaryType="sum" valueFormat="#,##0.##" displayFormat="{0}" />
+                <TotalItem column="currentHours" summaryType="sum" valueFormat="#,##0.##" displayFormat="{0}" />
+                <TotalItem column="hoursDelta" summaryType="sum" valueFormat="+#,##0.##;-#,##0.##" displayFormat="{0}" />
+              </Summary>
+            </DataGrid>
+          </>
+        )}
+
+        {!selectedBaseline && !isLookupDataLoading && (
+          <div className="deliverable-baselines-hint">
+            Create a baseline to freeze the current deliverables register, e.g. at contract award.
+          </div>
+        )}
+      </div>
+
+      <Popup
+        visible={isCreatePopupVisible}
+        onHiding={() => setIsCreatePopupVisible(false)}
+        title="Create Baseline"
+        showCloseButton={true}
+        width={420}
+        height="auto"
+      >
+        <div className="create-baseline-form">
+          <p>Snapshots every deliverable in the register: hours, gate and document numbers.</p>
+          <TextBox
+            value={baselineName}
+            onValueChanged={(e) => setBaselineName(e.value)}
+            valueChangeEvent="keyup"
+            placeholder="Baseline name, e.g. Contract award"
+            maxLength={100}
+          />
+          <TextArea
+            value={baselineDescription}
+            onValueChanged={(e) => setBaselineDescription(e.value)}
+            height={80}
+            placeholder="Notes (optional)"
+          />
+          <div className="create-baseline-actions">
+            <Button
+              text="Create"
+              type="default"
+              stylingMode="contained"
+              onClick={handleCreateBaseline}
+              disabled={!baselineName.trim() || state.loading}
+            />
+            <Button
+              text="Cancel"
+              stylingMode="outlined"
+              onClick={() => setIsCreatePopupVisible(false)}
+            />
+          </div>
+        </div>
+      </Popup>
+      <ScrollToTop />
+    </div>
+  );
+});
+
+export default DeliverableBaselines;
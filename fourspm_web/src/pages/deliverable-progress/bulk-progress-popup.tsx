@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Popup } from 'devextreme-react/popup';
+import SelectBox from 'devextreme-react/select-box';
+import NumberBox from 'devextreme-react/number-box';
+import Button from 'devextreme-react/button';
+import DataGrid, { Column } from 'devextreme-react/data-grid';
+import { DeliverableGate } from '../../types/odata-types';
+import { DeliverableProgressDto } from '../../types/app-types';
+import { BulkProgressChange, BulkProgressResult } from '../../contexts/deliverable-progress/deliverable-progress-types';
+
+interface BulkProgressPopupProps {
+  visible: boolean;
+  rows: DeliverableProgressDto[];
+  deliverableGates: DeliverableGate[];
+  onHiding: () => void;
+  onPreview: (rows: DeliverableProgressDto[], change: BulkProgressChange) => BulkProgressResult[];
+  onSubmit: (items: BulkProgressResult[]) => Promise<void>;
+}
+
+/**
+ * Popup for applying a gate and/or cumulative percentage to many deliverables at once
+ * Shows a per-row pass/fail preview before anything is saved
+ */
+export const BulkProgressPopup: React.FC<BulkProgressPopupProps> = ({
+  visible,
+  rows,
+  deliverableGates,
+  onHiding,
+  onPreview,
+  onSubmit
+}) => {
+  const [gateGuid, setGateGuid] = useState<string | null>(null);
+  const [percentage, setPercentage] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the entered change each time the popup opens
+  useEffect(() => {
+    if (visible) {
+      setGateGuid(null);
+      setPercentage(null);
+    }
+  }, [visible]);
+
+  // Re-validate every selected row whenever the change is edited
+  const preview = useMemo(() => {
+    if (!gateGuid && percentage === null) return [];
+    return onPreview(rows, {
+      deliverableGateGuid: gateGuid || undefined,
+      cumulativeEarntPercentage: percentage ?? undefined
+    });
+  }, [rows, gateGuid, percentage, onPreview]);
+
+  const validCount = preview.filter(item => item.isValid).length;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(preview);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Popup
+      visible={visible}
+      onHiding={onHiding}
+      title={`Set gate / set cumulative % (${rows.length} selected)`}
+      showCloseButton={true}
+      width={800}
+      height="auto"
+      maxHeight="90vh"
+    >
+      <div className="bulk-progress-form">
+        <div className="bulk-progress-inputs">
+          <SelectBox
+            items={deliverableGates}
+            valueExpr="guid"
+            displayExpr="name"
+            value={gateGuid}
+            onValueChanged={(e) => setGateGuid(e.value)}
+            placeholder="Keep current gate"
+            showClearButton={true}
+            label="Gate"
+            width={250}
+          />
+          <NumberBox
+            value={percentage ?? undefined}
+            onValueChanged={(e) => setPercentage(e.value ?? null)}
+            min={0}
+            max={1}
+            step={0.01}
+            format="#0.##%"
+            placeholder="Keep current %"
+            showClearButton={true}
+            label="Cumulative % Earnt"
+            width={200}
+          />
+        </div>
+
+        <DataGrid
+          dataSource={preview}
+          keyExpr="key"
+          showBorders={true}
+          height={350}
+          noDataText="Choose a gate or percentage to preview the change"
+          onRowPrepared={(e: any) => {
+            if (e.rowType === 'data' && !e.data.isValid) {
+              e.rowElement.classList.add('bulk-progress-invalid-row');
+            }
+          }}
+        >
+          <Column dataField="row.internalDocumentNumber" caption="Internal Number" />
+          <Column dataField="row.documentTitle" caption="Document Title" />
+          <Column
+            dataField="row.cumulativeEarntPercentage"
+            caption="Current %"
+            width={100}
+            customizeText={(cellInfo: any) => `${((cellInfo.value || 0) * 100).toFixed(2)}%`}
+          />
+          <Column
+            dataField="isValid"
+            caption="Result"
+            width={100}
+            customizeText={(cellInfo: any) => cellInfo.value ? 'Pass' : 'Fail'}
+          />
+          <Column dataField="errorMessage" caption="Reason" />
+        </DataGrid>
+
+        <div className="bulk-progress-actions">
+          <span className="bulk-progress-count">
+            {preview.length ? `${validCount} of ${preview.length} rows will be updated` : ''}
+          </span>
+          <Button
+            text={`Apply to ${validCount} rows`}
+            type="default"
+            stylingMode="contained"
+            onClick={handleSubmit}
+            disabled={validCount === 0 || isSubmitting}
+          />
+          <Button
+            text="Cancel"
+            stylingMode="outlined"
+            onClick={onHiding}
+          />
+        </div>
+      </div>
+    </Popup>
+  );
+};
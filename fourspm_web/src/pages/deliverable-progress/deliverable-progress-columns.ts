@@ -172,6 +172,46 @@ export const createDeliverableProgressColumns = (deliverableGatesDataSource: any
         precision: 2
       }
     },
+    // Planned progress baseline for the period
+    {
+      dataField: 'cumulativePlannedPercentage',
+      caption: 'Planned Cumulative %',
+      dataType: 'number',
+      customizeText: (cellInfo: any) => {
+        if (cellInfo.value === null || cellInfo.value === undefined) return '';
+        return (cellInfo.value * 100).toFixed(2) + '%';
+      },
+      allowEditing: true,
+      editorOptions: {
+        showSpinButtons: true,
+        min: 0,
+        max: 1.0,
+        step: 0.01,
+        format: 'percent'
+      },
+      hidingPriority: 9
+    },
+    // Actual hours to date, used for the cost performance index
+    {
+      dataField: 'cumulativeActualHours',
+      caption: 'Actual Hours To Date',
+      dataType: 'number',
+      customizeText: (cellInfo: any) => {
+        if (cellInfo.value === null || cellInfo.value === undefined) return '';
+        return cellInfo.value.toFixed(2);
+      },
+      allowEditing: true,
+      editorOptions: {
+        min: 0,
+        step: 1
+      },
+      hidingPriority: 8,
+      showSummary: true,
+      summaryType: 'sum',
+      summaryFormat: {
+        precision: 2
+      }
+    },
     {
       dataField: 'totalHours',
       caption: 'Total Hours',
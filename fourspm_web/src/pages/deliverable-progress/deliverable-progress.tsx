@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
 import './deliverable-progress.scss';
 
 // Import custom hooks
@@ -14,10 +15,19 @@ import LoadPanel from 'devextreme-react/load-panel';
 import Button from 'devextreme-react/button';
 import NumberBox from 'devextreme-react/number-box';
 import { ScrollView } from 'devextreme-react/scroll-view';
+import { Popup } from 'devextreme-react/popup';
+import TextArea from 'devextreme-react/text-area';
+import { confirm } from 'devextreme/ui/dialog';
+import notify from 'devextreme/ui/notify';
 
 // Import types and constants
 import { createDeliverableProgressColumns } from './deliverable-progress-columns';
+import { BulkProgressPopup } from './bulk-progress-popup';
+import { DeliverableProgressDto } from '../../types/app-types';
+import { BulkProgressResult } from '../../contexts/deliverable-progress/deliverable-progress-types';
 import { getDeliverablesWithProgressUrl } from '../../config/api-endpoints';
+import { getPeriodDescription } from '../../utils/period-utils';
+import { formatPerformanceIndex, getPerformanceIndexClass } from '../../utils/earned-value-utils';
 
 // Import context
 import { DeliverableProgressProvider, useDeliverableProgress } from '../../contexts/deliverable-progress/deliverable-progress-context';
@@ -40,15 +50,10 @@ export function DeliverableProgress(): React.ReactElement {
     return <div className="error-message">Project ID is missing from the URL.</div>;
   }
   
-  // Default initial period to 0 - context provider will handle this
-  const initialPeriod = 0;
-  
   // Return the provider wrapper with the content component
+  // The provider starts on the project's current period from its period calendar
   return (
-    <DeliverableProgressProvider 
-      projectId={projectId}
-      initialPeriod={initialPeriod}
-    >
+    <DeliverableProgressProvider projectId={projectId}>
       <DeliverableProgressContent />
     </DeliverableProgressProvider>
   );
@@ -63,7 +68,10 @@ const DeliverableProgressContent = (): React.ReactElement => {
   const { 
     state, 
     selectedPeriod, 
+    selectedPeriodInfo,
     progressDate, 
+    lastPeriod,
+    periodCalendar,
     incrementPeriod, 
     decrementPeriod, 
     setSelectedPeriod,
@@ -74,10 +82,25 @@ const DeliverableProgressContent = (): React.ReactElement => {
     // Get deliverable gates from context following Collection View Doctrine
     deliverableGates,
     isGatesLoading: gatesLoading,
-    gatesError
+    gatesError,
+    // Period close-out
+    selectedPeriodLock,
+    isSelectedPeriodClosed,
+    closeSelectedPeriod,
+    reopenSelectedPeriod,
+    // Earned value for the selected period
+    earnedValue,
+    isEarnedValueLoading,
+    // Bulk progress entry
+    previewBulkProgressUpdate,
+    submitBulkProgressUpdate
   } = useDeliverableProgress();
   
   const { user } = useAuth();
+  const { can } = usePermissions(projectId);
+  
+  // Progress can only be entered in open periods, by users allowed to enter it
+  const isProgressEditable = !isSelectedPeriodClosed && can('progress.edit');
   
   // Get grid handlers directly from the hook
   const {
@@ -128,12 +151,113 @@ const DeliverableProgressContent = (): React.ReactElement => {
   // Combine error states
   const error = state.error || gatesError;
   
+  // Reopen period popup state
+  const [isReopenPopupVisible, setIsReopenPopupVisible] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  const [isPeriodActionPending, setIsPeriodActionPending] = useState(false);
+  
+  /**
+   * Confirms and closes the selected period
+   */
+  const handleClosePeriod = useCallback(async () => {
+    const confirmed = await confirm(
+      `Close period ${selectedPeriod || 0}? Progress for this period will become read-only.`,
+      'Close Period'
+    );
+    if (!confirmed) return;
+    
+    setIsPeriodActionPending(true);
+    try {
+      await closeSelectedPeriod();
+      notify(`Period ${selectedPeriod || 0} closed`, 'success', 3000);
+    } catch (err) {
+      notify(`Error closing period: ${err instanceof Error ? err.message : String(err)}`, 'error', 3500);
+    } finally {
+      setIsPeriodActionPending(false);
+    }
+  }, [selectedPeriod, closeSelectedPeriod]);
+  
+  /**
+   * Reopens the selected period with the entered reason
+   */
+  const handleReopenPeriod = useCallback(async () => {
+    setIsPeriodActionPending(true);
+    try {
+      await reopenSelectedPeriod(reopenReason);
+      setIsReopenPopupVisible(false);
+      setReopenReason('');
+      notify(`Period ${selectedPeriod || 0} reopened`, 'success', 3000);
+    } catch (err) {
+      notify(`Error reopening period: ${err instanceof Error ? err.message : String(err)}`, 'error', 3500);
+    } finally {
+      setIsPeriodActionPending(false);
+    }
+  }, [reopenSelectedPeriod, reopenReason, selectedPeriod]);
+  
+  // Grid instance used for bulk reloads and re-selecting failed rows
+  const gridInstanceRef = useRef<any>(null);
+  
   // Pass grid initialized event to handler
   const onGridInitialized = useCallback((e: any) => {
+    gridInstanceRef.current = e.component;
     // Pass directly to the centralized handler
     handleGridInitialized(e);
   }, [handleGridInitialized]);
   
+  // Bulk progress entry state
+  const [selectedRows, setSelectedRows] = useState<DeliverableProgressDto[]>([]);
+  const [isBulkPopupVisible, setIsBulkPopupVisible] = useState(false);
+  const [bulkFailures, setBulkFailures] = useState<Record<string, string>>({});
+  
+  // Failures and selection belong to the period they were made in
+  useEffect(() => {
+    setBulkFailures({});
+    setSelectedRows([]);
+  }, [selectedPeriod]);
+  
+  const handleSelectionChanged = useCallback((e: any) => {
+    setSelectedRows(e.selectedRowsData || []);
+  }, []);
+  
+  /**
+   * Highlights rows that failed the last bulk update, with the reason as a tooltip
+   */
+  const handleRowPrepared = useCallback((e: any) => {
+    if (e.rowType === 'data' && bulkFailures[e.key]) {
+      e.rowElement.classList.add('bulk-progress-failed-row');
+      e.rowElement.title = bulkFailures[e.key];
+    }
+  }, [bulkFailures]);
+  
+  /**
+   * Submits the bulk change, then keeps failed rows selected and highlighted
+   */
+  const handleBulkSubmit = useCallback(async (items: BulkProgressResult[]) => {
+    const results = await submitBulkProgressUpdate(items);
+    const failures = results.filter(result => !result.isValid);
+    const savedCount = results.length - failures.length;
+    
+    setBulkFailures(failures.reduce((map, failure) => ({
+      ...map,
+      [failure.key]: failure.errorMessage || 'Update failed'
+    }), {} as Record<string, string>));
+    setIsBulkPopupVisible(false);
+    
+    const grid = gridInstanceRef.current;
+    if (grid) {
+      await grid.getDataSource().reload();
+      grid.selectRows(failures.map(failure => failure.key), false);
+    }
+    
+    notify(
+      failures.length
+        ? `${savedCount} rows updated, ${failures.length} failed - hover a highlighted row for the reason`
+        : `${savedCount} rows updated`,
+      failures.length ? 'warning' : 'success',
+      3500
+    );
+  }, [submitBulkProgressUpdate]);
+  
   // Show error if one occurred
   if (error) {
     return <div className="error-message">Error loading data: {error instanceof Error ? error.message : String(error)}</div>;
@@ -181,6 +305,7 @@ const DeliverableProgressContent = (): React.ReactElement => {
                     <NumberBox
                       value={selectedPeriod || 0}
                       min={0}
+                      max={lastPeriod ?? undefined}
                       showSpinButtons={false}
                       inputAttr={{ 'aria-label': 'Period Number' }}
                       onKeyDown={(e) => {
@@ -198,7 +323,7 @@ const DeliverableProgressContent = (): React.ReactElement => {
                         if (e.event && e.event.type === 'change') {
                           if (e.value !== null && e.value !== undefined) {
                             const periodNumber = parseInt(e.value.toString(), 10);
-                            if (periodNumber >= 0) {
+                            if (periodNumber >= 0 && (lastPeriod === null || periodNumber <= lastPeriod)) {
                               setSelectedPeriod(periodNumber);
                             }
                           }
@@ -211,12 +336,62 @@ const DeliverableProgressContent = (): React.ReactElement => {
                     <Button
                       icon="spinup"
                       onClick={() => incrementPeriod()}
-                      disabled={isLookupDataLoading}
+                      disabled={(lastPeriod !== null && (selectedPeriod || 0) >= lastPeriod) || isLookupDataLoading}
                       stylingMode="text"
                       className="period-button up-button"
                     />
                   </div>
-                  <span className="secondary-info">(weeks from project start)</span>
+                  <span className="secondary-info">({getPeriodDescription(periodCalendar)})</span>
+                  {isSelectedPeriodClosed && (
+                    <span
+                      className="period-lock-badge"
+                      title={selectedPeriodLock
+                        ? `Closed by ${selectedPeriodLock.closedBy} on ${new Date(selectedPeriodLock.closed).toLocaleDateString()}`
+                        : undefined}
+                    >
+                      <i className="dx-icon-lock" /> Closed
+                    </span>
+                  )}
+                  {can('progress.closePeriod') && (
+                    <Button
+                      text={isSelectedPeriodClosed ? 'Reopen Period' : 'Close Period'}
+                      icon={isSelectedPeriodClosed ? 'key' : 'lock'}
+                      stylingMode="outlined"
+                      className="period-lock-button"
+                      onClick={isSelectedPeriodClosed ? () => setIsReopenPopupVisible(true) : handleClosePeriod}
+                      disabled={isPeriodActionPending || isLookupDataLoading}
+                    />
+                  )}
+                </div>
+                <div className="info-divider"></div>
+                <div className="info-item info-item-earned-value">
+                  <span className="info-label">Earned Value:</span>
+                  {isEarnedValueLoading || !earnedValue ? (
+                    <span className="secondary-info">Calculating...</span>
+                  ) : (
+                    <>
+                      <span className="earned-value-metric" title="Planned hours (BCWS) from the baseline">
+                        Planned <strong className="info-value">{earnedValue.plannedHours.toFixed(2)}</strong>
+                      </span>
+                      <span className="earned-value-metric" title="Earned hours (BCWP)">
+                        Earned <strong className="info-value">{earnedValue.earnedHours.toFixed(2)}</strong>
+                      </span>
+                      <span
+                        className={`earned-value-index ${getPerformanceIndexClass(earnedValue.spi)}`}
+                        title={earnedValue.hasBaseline ? 'Schedule performance index (earned / planned)' : 'No planned % baseline for this period'}
+                      >
+                        SPI {formatPerformanceIndex(earnedValue.spi)}
+                      </span>
+                      {earnedValue.actualHours !== null && (
+                        <span
+                          className={`earned-value-index ${getPerformanceIndexClass(earnedValue.cpi)}`}
+                          title={`Cost performance index (earned / ${earnedValue.actualHours.toFixed(2)} actual hours)`}
+                        >
+                          CPI {formatPerformanceIndex(earnedValue.cpi)}
+                        </span>
+                      )}
+                    </>
+                  )}
                 </div>
                 <div className="info-divider"></div>
                 <div className="info-item">
@@ -224,6 +399,11 @@ const DeliverableProgressContent = (): React.ReactElement => {
                   <strong className="info-value">
                     {progressDate?.toLocaleDateString()}
                   </strong>
+                  {selectedPeriodInfo && selectedPeriodInfo.periodNumber > 0 && (
+                    <span className="secondary-info">
+                      ({selectedPeriodInfo.startDate.toLocaleDateString()} - {selectedPeriodInfo.endDate.toLocaleDateString()})
+                    </span>
+                  )}
                 </div>
                 <div className="info-divider"></div>
                 <div className="info-item">
@@ -241,6 +421,19 @@ const DeliverableProgressContent = (): React.ReactElement => {
             </div>
           </div>
         
+          <div className="bulk-progress-toolbar">
+            <Button
+              text="Set gate / set cumulative %"
+              icon="edit"
+              stylingMode="outlined"
+              onClick={() => setIsBulkPopupVisible(true)}
+              disabled={selectedRows.length === 0 || !isProgressEditable}
+            />
+            {selectedRows.length > 0 && (
+              <span className="secondary-info">{selectedRows.length} selected</span>
+            )}
+          </div>
+          
           <ODataGrid
             title=""
             endpoint={endpoint}
@@ -251,14 +444,63 @@ const DeliverableProgressContent = (): React.ReactElement => {
             onInitialized={onGridInitialized}
             onEditorPreparing={handleEditorPreparing}
             allowAdding={false}
+            allowUpdating={isProgressEditable}
             allowDeleting={false}
+            selectionMode={isProgressEditable ? 'multiple' : 'none'}
+            onSelectionChanged={handleSelectionChanged}
+            onRowPrepared={handleRowPrepared}
             showRecordCount={true}
             countColumn="guid"
+            showColumnChooser={true}
+            showHeaderFilter={true}
             customGridHeight={isMobile ? 500 : 800}
             defaultSort={[{ selector: 'created', desc: false }]}
           />
         </ScrollView>
       )}
+      
+      <BulkProgressPopup
+        visible={isBulkPopupVisible}
+        rows={selectedRows}
+        deliverableGates={deliverableGates}
+        onHiding={() => setIsBulkPopupVisible(false)}
+        onPreview={previewBulkProgressUpdate}
+        onSubmit={handleBulkSubmit}
+      />
+      
+      <Popup
+        visible={isReopenPopupVisible}
+        onHiding={() => setIsReopenPopupVisible(false)}
+        title={`Reopen Period ${selectedPeriod || 0}`}
+        showCloseButton={true}
+        width={420}
+        height="auto"
+      >
+        <div className="reopen-period-form">
+          <p>This period has been issued. Enter the reason for reopening it; this is kept on the period's audit record.</p>
+          <TextArea
+            value={reopenReason}
+            onValueChanged={(e) => setReopenReason(e.value)}
+            valueChangeEvent="keyup"
+            height={100}
+            placeholder="Reason for reopening"
+          />
+          <div className="reopen-period-actions">
+            <Button
+              text="Reopen"
+              type="default"
+              stylingMode="contained"
+              onClick={handleReopenPeriod}
+              disabled={!reopenReason.trim() || isPeriodActionPending}
+            />
+            <Button
+              text="Cancel"
+              stylingMode="outlined"
+              onClick={() => setIsReopenPopupVisible(false)}
+            />
+          </div>
+        </div>
+      </Popup>
     </div>
   );
 };
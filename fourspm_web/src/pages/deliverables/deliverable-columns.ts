@@ -28,6 +28,7 @@ export const createDeliverableColumns = (
       dataField: 'areaNumber',
       caption: 'Area No.',
       hidingPriority: 5, // Mid-range priority
+      allowGrouping: true,
       lookup: {
         // Pass the areasDataSource directly - it's already configured with the correct filter
         dataSource: areasDataSource,
@@ -39,6 +40,7 @@ export const createDeliverableColumns = (
       dataField: 'departmentId',
       caption: 'Department',
       hidingPriority: 8, // Will be hidden earlier
+      allowGrouping: true,
       lookup: {
         dataSource: departmentEnum,
         valueExpr: 'id',
@@ -49,6 +51,7 @@ export const createDeliverableColumns = (
       dataField: 'discipline',
       caption: 'Discipline',
       hidingPriority: 7, // Will be hidden earlier
+      allowGrouping: true,
       lookup: {
         dataSource: disciplinesDataSource, // Use the DataSource
         valueExpr: 'code',
@@ -59,6 +62,7 @@ export const createDeliverableColumns = (
       dataField: 'deliverableTypeId',
       caption: 'Deliverable Type',
       hidingPriority: 9, // Will be hidden earlier
+      allowGrouping: true,
       lookup: {
         dataSource: deliverableTypeEnum,
         valueExpr: 'id',
@@ -69,6 +73,7 @@ export const createDeliverableColumns = (
       dataField: 'documentType',
       caption: 'Document Type',
       hidingPriority: 6, // Will be hidden earlier
+      allowGrouping: true,
       lookup: {
         dataSource: documentTypesDataSource, // Use the DataSource
         valueExpr: 'code',
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { Popup } from 'devextreme-react/popup';
+import FileUploader from 'devextreme-react/file-uploader';
+import SelectBox from 'devextreme-react/select-box';
+import Button from 'devextreme-react/button';
+import LoadIndicator from 'devextreme-react/load-indicator';
+import DataGrid, { Column } from 'devextreme-react/data-grid';
+import notify from 'devextreme/ui/notify';
+import { useDeliverables } from '../../contexts/deliverables/deliverables-context';
+import {
+  DeliverableImportField,
+  DeliverableImportResult,
+  DeliverableImportRow
+} from '../../contexts/deliverables/deliverables-types';
+import { ImportSheet, readImportFile } from '../../utils/import-file-utils';
+
+/**
+ * Deliverable fields offered for mapping, with header names recognised automatically
+ */
+const IMPORT_FIELDS: { field: DeliverableImportField; caption: string; aliases: string[]; required?: boolean }[] = [
+  { field: 'areaNumber', caption: 'Area No.', aliases: ['area', 'areano', 'areanumber'], required: true },
+  { field: 'discipline', caption: 'Discipline', aliases: ['disc', 'disciplinecode'], required: true },
+  { field: 'documentType', caption: 'Document Type', aliases: ['doctype', 'type'], required: true },
+  { field: 'departmentId', caption: 'Department', aliases: ['dept'] },
+  { field: 'deliverableTypeId', caption: 'Deliverable Type', aliases: ['deliverabletype'] },
+  { field: 'documentTitle', caption: 'Document Title', aliases: ['title', 'description'], required: true },
+  { field: 'clientDocumentNumber', caption: 'Client Number', aliases: ['clientdocumentnumber', 'clientdocno', 'clientno'] },
+  { field: 'internalDocumentNumber', caption: 'Internal Number', aliases: ['internaldocumentnumber', 'documentnumber', 'docno'] },
+  { field: 'budgetHours', caption: 'Budget Hours', aliases: ['hours', 'budget'] },
+  { field: 'totalCost', caption: 'Total Cost', aliases: ['cost'] }
+];
+
+type ImportStep = 'select' | 'map' | 'preview';
+
+// Column index in the file for each mapped field
+type ColumnMapping = Partial<Record<DeliverableImportField, number>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Matches file headers to deliverable fields by field name, caption or a known alias
+ * @param headers The header row of the import file
+ * @returns Suggested column index for each recognised field
+ */
+const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  IMPORT_FIELDS.forEach(({ field, caption, aliases }) => {
+    const candidates = [field, caption, ...aliases].map(normalizeHeader);
+    const index = normalizedHeaders.findIndex(header => candidates.includes(header));
+    if (index >= 0) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+interface DeliverableImportWizardProps {
+  visible: boolean;
+  onHiding: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Wizard for creating deliverables from an Excel or CSV file
+ * Steps: choose a file, map its columns to deliverable fields, then review a validated preview
+ * before creating the valid rows
+ */
+export const DeliverableImportWizard: React.FC<DeliverableImportWizardProps> = ({
+  visible,
+  onHiding,
+  onImported
+}) => {
+  const { previewDeliverableImport, submitDeliverableImport } = useDeliverables();
+
+  const [step, setStep] = useState<ImportStep>('select');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<DeliverableImportResult[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [hasImported, setHasImported] = useState(false);
+
+  // Start from the first step each time the wizard opens
+  useEffect(() => {
+    if (visible) {
+      setStep('select');
+      setFileName('');
+      setSheet(null);
+      setMapping({});
+      setPreview([]);
+      setHasImported(false);
+    }
+  }, [visible]);
+
+  const headerOptions = sheet ? sheet.headers.map((header, index) => ({ index, header: header || `Column ${index + 1}` })) : [];
+  const missingRequired = IMPORT_FIELDS.filter(item => item.required && mapping[item.field] === undefined);
+  const validCount = preview.filter(item => item.isValid).length;
+
+  const handleFileSelected = async (e: any) => {
+    const file: File | undefined = e.value?.[0];
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const importSheet = await readImportFile(file);
+      setFileName(file.name);
+      setSheet(importSheet);
+      setMapping(suggestColumnMapping(importSheet.headers));
+      setStep('map');
+    } catch (error) {
+      notify(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`, 'error', 4000);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sheet) return;
+
+    // Rows keep their number in the file, so messages match the spreadsheet even after blank rows
+    const rows: DeliverableImportRow[] = sheet.rows.map(row => {
+      const values: DeliverableImportRow['values'] = {};
+      IMPORT_FIELDS.forEach(({ field }) => {
+        const columnIndex = mapping[field];
+        if (columnIndex !== undefined && row.values[columnIndex]) {
+          values[field] = row.values[columnIndex];
+        }
+      });
+      return { rowNumber: row.rowNumber, values };
+    });
+
+    setIsBusy(true);
+    try {
+      setPreview(await previewDeliverableImport(rows));
+      setStep('preview');
+    } catch (error) {
+      notify(`Could not validate the import: ${error instanceof Error ? error.message : String(error)}`, 'error', 4000);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    try {
+      const { created, failed } = await submitDeliverableImport(preview);
+
+      if (created > 0) {
+        setHasImported(true);
+        onImported();
+      }
+
+      if (failed.length === 0) {
+        notify(`${created} deliverable${created === 1 ? '' : 's'} imported`, 'success', 3000);
+        onHiding();
+      } else {
+        // Keep the wizard open on the rows the server rejected
+        notify(`${created} imported, ${failed.length} failed`, 'warning', 4000);
+        setPreview(failed);
+      }
+    } catch (error) {
+      notify(`Import failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 4000);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Popup
+      visible={visible}
+      onHiding={onHiding}
+      title={fileName ? `Import Deliverables - ${fileName}` : 'Import Deliverables'}
+      showCloseButton={true}
+      width={1000}
+      height="auto"
+      maxHeight="90vh"
+    >
+      <div className="deliverable-import">
+        {step === 'select' && (
+          <div className="deliverable-import-select">
+            <p>
+              Choose an Excel (.xlsx) or CSV file with one deliverable per row and a header row.
+              Area, discipline, document type, department and deliverable type can be given as codes or names.
+              Leave the internal number blank to have one generated.
+            </p>
+            <FileUploader
+              accept=".xlsx,.csv"
+              uploadMode="useForm"
+              multiple={false}
+              selectButtonText="Choose file"
+              labelText="or drop the file here"
+              onValueChanged={handleFileSelected}
+            />
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="deliverable-import-map">
+            <p>
+              {`${sheet.rows.length} rows found. Match each deliverable field to a column in the file.`}
+            </p>
+            <div className="deliverable-import-mapping">
+              {IMPORT_FIELDS.map(({ field, caption, required }) => (
+                <SelectBox
+                  key={field}
+                  items={headerOptions}
+                  valueExpr="index"
+                  displayExpr="header"
+                  value={mapping[field] ?? null}
+                  onValueChanged={(e) => setMapping(prev => ({ ...prev, [field]: e.value ?? undefined }))}
+                  placeholder="Not imported"
+                  showClearButton={true}
+                  label={required ? `${caption} *` : caption}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <DataGrid
+            dataSource={preview}
+            keyExpr="rowNumber"
+            showBorders={true}
+            height={450}
+            columnAutoWidth={true}
+            noDataText="No rows to import"
+            onRowPrepared={(e: any) => {
+              if (e.rowType === 'data' && !e.data.isValid) {
+                e.rowElement.classList.add('deliverable-import-invalid-row');
+              }
+            }}
+          >
+            <Column dataField="rowNumber" caption="Row" width={60} />
+            <Column dataField="deliverable.internalDocumentNumber" caption="Internal Number" />
+            <Column dataField="deliverable.areaNumber" caption="Area No." />
+            <Column dataField="deliverable.discipline" caption="Discipline" />
+            <Column dataField="deliverable.documentType" caption="Document Type" />
+            <Column dataField="deliverable.documentTitle" caption="Document Title" />
+            <Column dataField="deliverable.budgetHours" caption="Budget Hours" dataType="number" />
+            <Column
+              dataField="isValid"
+              caption="Result"
+              width={80}
+              customizeText={(cellInfo: any) => cellInfo.value ? 'Pass' : 'Fail'}
+            />
+            <Column
+              dataField="errors"
+              caption="Errors"
+              customizeText={(cellInfo: any) => (cellInfo.value || []).join('; ')}
+            />
+          </DataGrid>
+        )}
+
+        <div className="deliverable-import-actions">
+          <span className="deliverable-import-status">
+            {isBusy && <LoadIndicator width={24} height={24} />}
+            {step === 'map' && missingRequired.length > 0 &&
+              `Required: ${missingRequired.map(item => item.caption).join(', ')}`}
+            {step === 'preview' && `${validCount} of ${preview.length} rows will be created`}
+          </span>
+          {step === 'map' && (
+            <>
+              <Button text="Back" stylingMode="outlined" onClick={() => setStep('select')} disabled={isBusy} />
+              <Button
+                text="Preview"
+                type="default"
+                stylingMode="contained"
+                onClick={handlePreview}
+                disabled={isBusy || missingRequired.length > 0}
+              />
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              {/* Going back after a partial import would re-create the rows that succeeded */}
+              <Button text="Back" stylingMode="outlined" onClick={() => setStep('map')} disabled={isBusy || hasImported} />
+              <Button
+                text={`Import ${validCount} rows`}
+                type="default"
+                stylingMode="contained"
+                onClick={handleImport}
+                disabled={isBusy || validCount === 0}
+              />
+            </>
+          )}
+          <Button text="Cancel" stylingMode="outlined" onClick={onHiding} disabled={isBusy} />
+        </div>
+      </div>
+    </Popup>
+  );
+};
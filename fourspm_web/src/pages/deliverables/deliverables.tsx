@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { ErrorMessage } from '@/components';
 import { useParams } from 'react-router-dom';
 import { ODataGrid } from '../../components';
@@ -8,9 +8,12 @@ import './deliverables.scss';
 import { DELIVERABLES_ENDPOINT } from '@/config/api-endpoints';
 import { useScreenSizeClass } from '../../utils/media-query';
 import { LoadPanel } from 'devextreme-react/load-panel';
+import Button from 'devextreme-react/button';
 import { useAuth } from '@/contexts/auth';
+import { usePermissions } from '@/hooks/utils/usePermissions';
 import { DeliverablesProvider, useDeliverables } from '@/contexts/deliverables/deliverables-context';
 import { useDeliverableGridHandlers } from '@/hooks/grid-handlers/useDeliverableGridHandlers';
+import { DeliverableImportWizard } from './deliverable-import-wizard';
 
 interface DeliverableParams {
   projectId: string;
@@ -44,6 +47,7 @@ const DeliverablesContent = React.memo((): React.ReactElement => {
   
   // Get projectId from URL params directly
   const { projectId } = useParams<DeliverableParams>();
+  const { can } = usePermissions(projectId);
 
   // Use the deliverables context
   const {
@@ -72,8 +76,18 @@ const DeliverablesContent = React.memo((): React.ReactElement => {
     project
   });
   
-  // Use original grid initialization handler from the hook
-  const handleGridInitialized = hookHandleGridInitialized;
+  // Keep the grid instance so it can be reloaded after an import
+  const gridInstanceRef = useRef<any>(null);
+  const handleGridInitialized = useCallback((e: any) => {
+    gridInstanceRef.current = e.component;
+    hookHandleGridInitialized(e);
+  }, [hookHandleGridInitialized]);
+
+  // Import wizard state
+  const [isImportVisible, setIsImportVisible] = useState(false);
+  const handleImported = useCallback(() => {
+    gridInstanceRef.current?.refresh();
+  }, []);
 
   const screenClass = useScreenSizeClass();
   const isMobile = screenClass === 'screen-x-small' || screenClass === 'screen-small';
@@ -126,6 +140,18 @@ const DeliverablesContent = React.memo((): React.ReactElement => {
           {project ? `${project.projectNumber} - ${project.name} Deliverables` : 'Deliverables'}
         </div>
         
+        <div className="deliverables-toolbar">
+          {can('deliverables.edit') && (
+            <Button
+              text="Import from Excel/CSV"
+              icon="upload"
+              stylingMode="outlined"
+              onClick={() => setIsImportVisible(true)}
+              disabled={isLoading || hasError}
+            />
+          )}
+        </div>
+        
         {!isLoading && !hasError && (
           <ODataGrid
             title=" "
@@ -139,13 +165,21 @@ const DeliverablesContent = React.memo((): React.ReactElement => {
             defaultFilter={[["projectGuid", "=", projectId]]}
             countColumn="guid"
             defaultSort={[{ selector: 'internalDocumentNumber', desc: false }]}
-            allowAdding={true}
-            allowUpdating={true}
-            allowDeleting={true}
+            allowAdding={can('deliverables.edit')}
+            allowUpdating={can('deliverables.edit')}
+            allowDeleting={can('deliverables.edit')}
+            showColumnChooser={true}
+            showGroupPanel={true}
+            showHeaderFilter={true}
             customGridHeight={900}
           />
         )}
       </div>
+      <DeliverableImportWizard
+        visible={isImportVisible}
+        onHiding={() => setIsImportVisible(false)}
+        onImported={handleImported}
+      />
       <ScrollToTop />
     </div>
   );
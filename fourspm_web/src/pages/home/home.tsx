@@ -1,22 +1,154 @@
-import React, { ReactElement } from 'react';
+import React, { ReactElement, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import Button from 'devextreme-react/button';
+import { LoadPanel } from 'devextreme-react/load-panel';
 import './home.scss';
-import logo from '@/assets/images/logo.avif'
+import { ErrorMessage } from '../../components';
+import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { useProjectDashboard } from '../../hooks/queries/useProjectDashboard';
+import { useUserProfile } from '../../hooks/queries/useUserProfile';
+import { getVariationLifecycleStatus } from '../../utils/variation-lifecycle-utils';
+import { projectStatuses } from '../../types/enums';
 
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const formatPercent = (value: number) => `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+const formatDate = (value?: Date | string) => value ? new Date(value).toLocaleDateString() : '';
+
+const getStatusName = (statusId: string) =>
+  projectStatuses.find(status => status.id === statusId)?.name || statusId;
+
+/**
+ * Landing page: the user's active projects with their key figures,
+ * variations waiting for the client and projects still missing progress this period
+ */
 export default function Home(): ReactElement {
+  const { user } = useAuth();
+  const { isAdmin } = usePermissions();
+  const { data: profile } = useUserProfile(user?.email);
+  const { data: dashboardProjects = [], isLoading, isFetching, error, refetch } = useProjectDashboard(user?.email, user?.token, isAdmin);
+
+  // The user's default project comes first
+  const projects = useMemo(() => [...dashboardProjects].sort((a, b) =>
+    Number(b.guid === profile?.defaultProjectGuid) - Number(a.guid === profile?.defaultProjectGuid)
+  ), [dashboardProjects, profile?.defaultProjectGuid]);
+
+  const awaitingApproval = useMemo(() => projects.flatMap(project =>
+    project.unapprovedVariations
+      .filter(variation => getVariationLifecycleStatus(variation) === 'Submitted')
+      .map(variation => ({ variation, project }))
+  ).sort((a, b) => new Date(a.variation.submitted || 0).getTime() - new Date(b.variation.submitted || 0).getTime()),
+  [projects]);
+
+  // Only projects that have started reporting and have hours to earn are expected to show progress
+  const missingProgress = useMemo(() => projects.filter(project =>
+    project.currentPeriod !== null && project.currentPeriod > 0 && project.totalHours > 0 && !project.hasProgressThisPeriod
+  ), [projects]);
+
   return (
     <React.Fragment>
-      <h2 className={'content-block'}>Home</h2>
-      <div className={'content-block'}>
-        <div className={'dx-card responsive-paddings'}>
-          <div className={'logos-container'}>
-            <img 
-              src={logo} 
-              alt="SPM Logo" 
-              className={'devextreme-logo'} 
-            />
-          </div>
-        </div>
+      <div className={'content-block home-header'}>
+        <h2>Home</h2>
+        <Button icon="refresh" hint="Refresh dashboard" stylingMode="text" onClick={() => refetch()} disabled={isFetching} />
       </div>
+
+      <LoadPanel
+        position={{ of: '.app-main-content' }}
+        visible={isLoading}
+        showIndicator={true}
+        shading={true}
+        shadingColor="rgba(0,0,0,0.1)"
+        showPane={true}
+      />
+
+      {error && (
+        <div className={'content-block'}>
+          <ErrorMessage
+            title="Error Loading Dashboard"
+            message={(error as Error).message}
+            onRetry={() => refetch()}
+          />
+        </div>
+      )}
+
+      {!isLoading && !error && (
+        <>
+          <div className={'content-block home-widgets'}>
+            <div className={'dx-card responsive-paddings home-widget'}>
+              <h3>{`Variations awaiting approval (${awaitingApproval.length})`}</h3>
+              {awaitingApproval.length === 0 && <p className="home-empty">No variations are waiting on the client.</p>}
+              <ul>
+                {awaitingApproval.map(({ variation, project }) => (
+                  <li key={variation.guid}>
+                    <Link to={`/variations/${variation.guid}/deliverables`}>{variation.name}</Link>
+                    <span className="home-note">{`${project.displayName} · submitted ${formatDate(variation.submitted)}`}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className={'dx-card responsive-paddings home-widget'}>
+              <h3>{`No progress entered this period (${missingProgress.length})`}</h3>
+              {missingProgress.length === 0 && <p className="home-empty">Every reporting project has progress this period.</p>}
+              <ul>
+                {missingProgress.map(project => (
+                  <li key={project.guid}>
+                    <Link to={`/projects/${project.guid}/progress`}>{project.displayName}</Link>
+                    <span className="home-note">{`Period ${project.currentPeriod}`}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className={'content-block'}>
+            <h3 className="home-section-title">My Projects</h3>
+            {projects.length === 0 && (
+              <div className={'dx-card responsive-paddings'}>You have no active projects.</div>
+            )}
+            <div className="home-projects">
+              {projects.map(project => (
+                <div key={project.guid} className={'dx-card home-project'}>
+                  <div className="home-project-header">
+                    <Link to={`/projects/${project.guid}/profile`} className="home-project-name">{project.displayName}</Link>
+                    <span className="home-project-status">
+                      {project.guid === profile?.defaultProjectGuid ? `${getStatusName(project.projectStatus)} · Default` : getStatusName(project.projectStatus)}
+                    </span>
+                  </div>
+
+                  <div className="home-project-figures">
+                    <div className="home-project-figure">
+                      <span className="home-label">Budget hours</span>
+                      <span className="home-value">{formatHours(project.totalHours)}</span>
+                    </div>
+                    <div className="home-project-figure">
+                      <span className="home-label">Earned</span>
+                      <span className="home-value">{formatPercent(project.earnedPercentage)}</span>
+                      <span className="home-note">
+                        {project.currentPeriod !== null ? `at period ${project.currentPeriod}` : 'Progress start not set'}
+                      </span>
+                    </div>
+                    <div className="home-project-figure">
+                      <span className="home-label">Unapproved variations</span>
+                      <span className="home-value">{project.unapprovedVariations.length}</span>
+                    </div>
+                  </div>
+
+                  <div className="home-project-links">
+                    {project.quickLinks.map(link => (
+                      <Link key={link.id} to={link.path || '/home'}>
+                        <i className={`dx-icon-${link.icon}`} />
+                        {link.text}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+      <div className="bottom-spacer"></div>
     </React.Fragment>
   );
 }
@@ -11,8 +11,13 @@ export { default as DisciplinesPage } from './disciplines/disciplines';
 export { default as DocumentTypesPage } from './document-types/document-types';
 export { default as DeliverableGatesPage } from './deliverable-gates/deliverable-gates';
 export { default as VariationsPage } from './variations/variations';
+export { default as ProjectRatesPage } from './project-rates/project-rates';
+export { default as DeliverableBaselinesPage } from './deliverable-baselines/deliverable-baselines';
+export { default as ProjectMembersPage } from './project-members/project-members';
+export { default as RecycleBinPage } from './recycle-bin/recycle-bin';
 
 // Profile & detail pages
 export { default as ProjectProfilePage } from './project/project-profile';
 export { default as DeliverableProgressPage } from './deliverable-progress/deliverable-progress';
 export { default as VariationDeliverablesPage } from './variation-deliverables/variation-deliverables';
+export { default as ProgressChartPage } from './progress-chart/progress-chart';
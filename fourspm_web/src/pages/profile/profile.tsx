@@ -1,69 +1,203 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import './profile.scss';
-import Form from 'devextreme-react/form';
+import Form, { GroupItem, SimpleItem, Label, RequiredRule, EmailRule } from 'devextreme-react/form';
+import Button from 'devextreme-react/button';
+import { LoadPanel } from 'devextreme-react/load-panel';
+import notify from 'devextreme/ui/notify';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import ChangePasswordForm from '../../components/change-password-form/change-password-form';
+import { ErrorMessage } from '../../components';
+import { useAuth } from '../../contexts/auth';
+import { updateProfile } from '../../api/auth-api.service';
+import { getProjects } from '../../adapters/project.adapter';
+import { useUserProfile } from '../../hooks/queries/useUserProfile';
+import { useProjectMemberships } from '../../hooks/queries/useProjectMemberships';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { timeZones } from '../../types/enums';
+import { UserProfile } from '../../types';
 
-interface Employee {
-  ID: number;
-  FirstName: string;
-  LastName: string;
-  Prefix: string;
-  Position: string;
-  Picture: string;
-  BirthDate: Date;
-  HireDate: Date;
-  Notes: string;
-  Address: string;
-}
+const colCountByScreen = {
+  xs: 1,
+  sm: 2,
+  md: 2,
+  lg: 2
+};
 
-export default function Profile() {
-  const [notes, setNotes] = useState(
-    'Sandra is a CPA and has been our controller since 2008. She loves to interact with staff so if you`ve not met her, be certain to say hi.\r\n\r\nSandra has 2 daughters both of whom are accomplished gymnasts.'
-  );
+/**
+ * The signed-in user's profile: personal details, preferences and notifications
+ * Loaded from and saved to the account API; the password is changed in its own section
+ */
+export default function Profile(): React.ReactElement {
+  const { user, updateUser } = useAuth();
+  const { isAdmin } = usePermissions();
+  const queryClient = useQueryClient();
+
+  const { data: profile, isLoading, error, refetch } = useUserProfile(user?.email);
+
+  // The default project can be any project the user can open
+  const { data: projects = [], isLoading: isProjectsLoading } = useQuery({
+    queryKey: ['projects', 'list'],
+    queryFn: () => getProjects(user?.token || ''),
+    enabled: !!user?.token
+  });
+  const { data: memberships = [] } = useProjectMemberships(user?.email, user?.token, !isAdmin);
+  const projectOptions = useMemo(() => {
+    const memberProjects = new Set(memberships.map(membership => membership.projectGuid));
+    return projects
+      .filter(project => isAdmin || memberProjects.has(project.guid))
+      .map(project => ({ guid: project.guid, displayName: `${project.projectNumber} - ${project.name}` }));
+  }, [projects, memberships, isAdmin]);
+
+  // Edit a copy so unsaved changes can be discarded
+  const [formData, setFormData] = useState<UserProfile | null>(null);
+  const [avatarUrl, setAvatarUrl] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const formRef = useRef<Form>(null);
 
-  const employee: Employee = {
-    ID: 7,
-    FirstName: 'Sandra',
-    LastName: 'Johnson',
-    Prefix: 'Mrs.',
-    Position: 'Controller',
-    Picture: 'images/employees/06.png',
-    BirthDate: new Date('1974/11/5'),
-    HireDate: new Date('2005/05/11'),
-    Notes: notes,
-    Address: '4600 N Virginia Rd.'
+  useEffect(() => {
+    if (!profile) return;
+    setFormData({ ...profile });
+    setAvatarUrl(profile.avatarUrl || '');
+  }, [profile]);
+
+  const handleSave = async () => {
+    if (!formData || !formRef.current?.instance.validate().isValid) return;
+
+    setIsSaving(true);
+    const result = await updateProfile(formData);
+    setIsSaving(false);
+
+    if (result.isOk && result.data) {
+      queryClient.setQueryData(['userProfile', user?.email], result.data);
+      updateUser({
+        name: `${result.data.firstName} ${result.data.lastName}`.trim(),
+        avatarUrl: result.data.avatarUrl || ''
+      });
+      notify('Profile saved', 'success', 2500);
+    } else {
+      notify(result.message || 'Failed to save profile', 'error', 3500);
+    }
   };
 
-  const colCountByScreen = {
-    xs: 1,
-    sm: 2,
-    md: 3,
-    lg: 4
+  const handleReset = () => {
+    if (!profile) return;
+    setFormData({ ...profile });
+    setAvatarUrl(profile.avatarUrl || '');
   };
 
+  const displayName = formData ? `${formData.firstName} ${formData.lastName}`.trim() : '';
+
   return (
     <React.Fragment>
       <h2 className={'content-block'}>Profile</h2>
 
-      <div className={'content-block dx-card responsive-paddings'}>
-        <div className={'form-avatar'}>
-          <img
-            alt={''}
-            src={`https://js.devexpress.com/Demos/WidgetsGallery/JSDemos/${employee.Picture}`}
+      <LoadPanel
+        position={{ of: '.app-main-content' }}
+        visible={isLoading || isSaving}
+        showIndicator={true}
+        shading={true}
+        shadingColor="rgba(0,0,0,0.1)"
+        showPane={true}
+      />
+
+      {error && (
+        <div className={'content-block'}>
+          <ErrorMessage
+            title="Error Loading Profile"
+            message={(error as Error).message}
+            onRetry={() => refetch()}
           />
         </div>
-        <span>{notes}</span>
-      </div>
+      )}
 
-      <div className={'content-block dx-card responsive-paddings'}>
-        <Form
-          id={'form'}
-          defaultFormData={employee}
-          onFieldDataChanged={e => e.dataField === 'Notes' && setNotes(e.value)}
-          labelLocation={'top'}
-          colCountByScreen={colCountByScreen}
-        />
-      </div>
+      {formData && (
+        <>
+          <div className={'content-block dx-card responsive-paddings profile-summary'}>
+            <div className={'form-avatar'}>
+              {avatarUrl ? <img alt={''} src={avatarUrl} /> : <i className="dx-icon-user profile-avatar-placeholder" />}
+            </div>
+            <div className={'profile-summary-text'}>
+              <h3>{displayName || formData.email}</h3>
+              <span>{formData.email}</span>
+            </div>
+          </div>
+
+          <div className={'content-block dx-card responsive-paddings'}>
+            <Form
+              id={'form'}
+              ref={formRef}
+              formData={formData}
+              labelLocation={'top'}
+              colCountByScreen={colCountByScreen}
+              disabled={isSaving}
+              onFieldDataChanged={e => e.dataField === 'avatarUrl' && setAvatarUrl(e.value || '')}
+            >
+              <GroupItem caption="Personal Details" colCountByScreen={colCountByScreen}>
+                <SimpleItem dataField="firstName">
+                  <Label text="First Name" />
+                  <RequiredRule message="First name is required" />
+                </SimpleItem>
+                <SimpleItem dataField="lastName">
+                  <Label text="Last Name" />
+                  <RequiredRule message="Last name is required" />
+                </SimpleItem>
+                <SimpleItem dataField="email" editorOptions={{ readOnly: true }}>
+                  <Label text="Email" />
+                  <EmailRule />
+                </SimpleItem>
+                <SimpleItem dataField="avatarUrl" editorOptions={{ placeholder: 'https://...' }}>
+                  <Label text="Avatar URL" />
+                </SimpleItem>
+              </GroupItem>
+
+              <GroupItem caption="Preferences" colCountByScreen={colCountByScreen}>
+                <SimpleItem
+                  dataField="defaultProjectGuid"
+                  editorType="dxSelectBox"
+                  editorOptions={{
+                    items: projectOptions,
+                    valueExpr: 'guid',
+                    displayExpr: 'displayName',
+                    searchEnabled: true,
+                    showClearButton: true,
+                    placeholder: isProjectsLoading ? 'Loading projects...' : 'No default project'
+                  }}
+                >
+                  <Label text="Default Project" />
+                </SimpleItem>
+                <SimpleItem
+                  dataField="timeZone"
+                  editorType="dxSelectBox"
+                  editorOptions={{ items: timeZones, valueExpr: 'id', displayExpr: 'name' }}
+                >
+                  <Label text="Time Zone" />
+                  <RequiredRule message="Time zone is required" />
+                </SimpleItem>
+              </GroupItem>
+
+              <GroupItem caption="Email Notifications" colCountByScreen={colCountByScreen}>
+                <SimpleItem dataField="notifyVariationSubmitted" editorType="dxSwitch">
+                  <Label text="Variation submitted to the client" />
+                </SimpleItem>
+                <SimpleItem dataField="notifyVariationDecided" editorType="dxSwitch">
+                  <Label text="Variation approved or rejected" />
+                </SimpleItem>
+                <SimpleItem dataField="notifyPeriodClosed" editorType="dxSwitch">
+                  <Label text="Progress period closed" />
+                </SimpleItem>
+                <SimpleItem dataField="weeklyProgressDigest" editorType="dxSwitch">
+                  <Label text="Weekly progress digest" />
+                </SimpleItem>
+              </GroupItem>
+            </Form>
+
+            <div className={'profile-actions'}>
+              <Button text="Save" icon="save" type="default" stylingMode="contained" onClick={handleSave} disabled={isSaving} />
+              <Button text="Cancel" stylingMode="outlined" onClick={handleReset} disabled={isSaving} />
+            </div>
+          </div>
+        </>
+      )}
 
       <div className={'content-block dx-card responsive-paddings'}>
         <h3>Change Password</h3>
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/auth';
+import './progress-chart.scss';
+
+// Import custom hooks
+import { useProjectInfo } from '../../hooks/utils/useProjectInfo';
+import { useProjectProgressHistory } from '../../hooks/queries/useProjectProgressHistory';
+
+// Import components
+import LoadPanel from 'devextreme-react/load-panel';
+import SelectBox from 'devextreme-react/select-box';
+import Chart, {
+  ArgumentAxis,
+  CommonSeriesSettings,
+  Label,
+  Legend,
+  Series,
+  Title,
+  Tooltip,
+  ValueAxis
+} from 'devextreme-react/chart';
+
+// Import types and utilities
+import { deliverableTypeEnum } from '../../types/enums';
+import { getLastPeriod, getProjectPeriod } from '../../utils/period-utils';
+import {
+  filterProgressRows,
+  getDistinctValues,
+  PeriodProgressSummary,
+  ProgressFilter,
+  summarizeProgressPeriod
+} from '../../utils/progress-summary-utils';
+import { calculateEarnedValue, EarnedValueMetrics } from '../../utils/earned-value-utils';
+
+// URL params interface
+interface ProgressChartParams {
+  projectId: string;
+}
+
+/**
+ * Project S-curve showing planned vs earned hours and cumulative % across every period
+ * Built from the same per-period deliverable progress data as the Progress page
+ */
+export function ProgressChart(): React.ReactElement {
+  const { projectId } = useParams<ProgressChartParams>();
+  const { user } = useAuth();
+
+  // Project and its period calendar
+  const { project, periodCalendar, currentPeriod, isLoading: isProjectLoading, error: projectError } =
+    useProjectInfo(projectId, user?.token);
+
+  // Chart every period up to today, bounded by the end of a custom schedule
+  const lastChartPeriod = useMemo(() => {
+    if (!periodCalendar || currentPeriod === null) return null;
+    const lastPeriod = getLastPeriod(periodCalendar);
+    return lastPeriod !== null ? Math.min(currentPeriod, lastPeriod) : currentPeriod;
+  }, [periodCalendar, currentPeriod]);
+
+  const {
+    data: history = [],
+    isLoading: isHistoryLoading,
+    error: historyError
+  } = useProjectProgressHistory(projectId, lastChartPeriod, user?.token);
+
+  // Filter state
+  const [filter, setFilter] = useState<ProgressFilter>({});
+
+  // Filter options come from the deliverables present in the latest period
+  const latestRows = useMemo(() => history.length ? history[history.length - 1].rows : [], [history]);
+  const disciplineOptions = useMemo(() => getDistinctValues(latestRows, 'discipline'), [latestRows]);
+  const areaOptions = useMemo(() => getDistinctValues(latestRows, 'areaNumber'), [latestRows]);
+
+  // Summarise each period for the chart
+  const chartData = useMemo<PeriodProgressSummary[]>(() => {
+    if (!periodCalendar) return [];
+    return history.map(({ period, rows }) =>
+      summarizeProgressPeriod(period, filterProgressRows(rows, filter), getProjectPeriod(period, periodCalendar))
+    );
+  }, [history, filter, periodCalendar]);
+
+  // Earned value trend from the planned % baseline, using the same filter
+  const earnedValueData = useMemo<EarnedValueMetrics[]>(
+    () => history.map(({ period, rows }) => calculateEarnedValue(period, filterProgressRows(rows, filter))),
+    [history, filter]
+  );
+  const hasActualHours = earnedValueData.some(item => item.actualHours !== null);
+
+  const error = projectError || historyError;
+  const isLoading = isProjectLoading || isHistoryLoading;
+
+  if (!projectId) {
+    return <div className="error-message">Project ID is missing from the URL.</div>;
+  }
+
+  return (
+    <div className="progress-chart-container">
+      <LoadPanel
+        shadingColor="rgba(0,0,0,0.1)"
+        position={{ of: '.progress-chart-container' }}
+        showIndicator={true}
+        showPane={true}
+        visible={isLoading}
+        shading={true}
+      />
+
+      <div className="grid-custom-title">
+        {project ? `${project.projectNumber} - ${project.name} Progress Chart` : 'Progress Chart'}
+      </div>
+
+      {error ? (
+        <div className="error-message">Error loading data: {error instanceof Error ? error.message : String(error)}</div>
+      ) : project && !periodCalendar ? (
+        <div className="no-data-message">Set a progress start date on the project profile to chart progress.</div>
+      ) : (
+        <>
+          <div className="chart-filters">
+            <SelectBox
+              items={disciplineOptions}
+              value={filter.discipline || null}
+              onValueChanged={(e) => setFilter(prev => ({ ...prev, discipline: e.value }))}
+              placeholder="All disciplines"
+              showClearButton={true}
+              label="Discipline"
+              width={200}
+            />
+            <SelectBox
+              items={areaOptions}
+              value={filter.areaNumber || null}
+              onValueChanged={(e) => setFilter(prev => ({ ...prev, areaNumber: e.value }))}
+              placeholder="All areas"
+              showClearButton={true}
+              label="Area"
+              width={200}
+            />
+            <SelectBox
+              items={deliverableTypeEnum}
+              valueExpr="id"
+              displayExpr="name"
+              value={filter.deliverableTypeId || null}
+              onValueChanged={(e) => setFilter(prev => ({ ...prev, deliverableTypeId: e.value }))}
+              placeholder="All deliverable types"
+              showClearButton={true}
+              label="Deliverable Type"
+              width={220}
+            />
+          </div>
+
+          <div className="dx-card chart-card">
+            <Chart dataSource={chartData} palette="Material">
+              <Title text="Earned Hours (S-Curve)" />
+              <CommonSeriesSettings argumentField="periodLabel" />
+              <ArgumentAxis>
+                <Label overlappingBehavior="stagger" />
+              </ArgumentAxis>
+              <ValueAxis name="hours" title="Hours" />
+              <ValueAxis name="percentage" position="right" title="Cumulative %" visualRange={[0, 1]}>
+                <Label format="percent" />
+              </ValueAxis>
+              <Series
+                type="bar"
+                valueField="periodEarntHours"
+                name="Period Earnt Hours"
+                axis="hours"
+              />
+              <Series
+                type="line"
+                valueField="totalHours"
+                name="Planned (Total) Hours"
+                axis="hours"
+                dashStyle="dash"
+              />
+              <Series
+                type="line"
+                valueField="cumulativeEarntHours"
+                name="Cumulative Earnt Hours"
+                axis="hours"
+              />
+              <Series
+                type="spline"
+                valueField="cumulativePercentage"
+                name="Cumulative % Earnt"
+                axis="percentage"
+              />
+              <Legend verticalAlignment="bottom" horizontalAlignment="center" />
+              <Tooltip
+                enabled={true}
+                shared={true}
+                customizeTooltip={(info: any) => {
+                  const summary = chartData.find(item => item.periodLabel === info.argument);
+                  const endDate = summary?.periodEndDate ? ` (to ${summary.periodEndDate.toLocaleDateString()})` : '';
+                  return {
+                    text: `${info.argument}${endDate}\n` + info.points.map((point: any) =>
+                      point.seriesName === 'Cumulative % Earnt'
+                        ? `${point.seriesName}: ${(point.value * 100).toFixed(2)}%`
+                        : `${point.seriesName}: ${point.value.toFixed(2)}`
+                    ).join('\n')
+                  };
+                }}
+              />
+            </Chart>
+          </div>
+
+          <div className="dx-card chart-card">
+            <Chart dataSource={earnedValueData} palette="Material">
+              <Title text="Earned Value (BCWS / BCWP)" />
+              <CommonSeriesSettings argumentField="periodLabel" />
+              <ArgumentAxis>
+                <Label overlappingBehavior="stagger" />
+              </ArgumentAxis>
+              <ValueAxis name="hours" title="Hours" />
+              <ValueAxis name="index" position="right" title="Performance Index" />
+              <Series
+                type="line"
+                valueField="plannedHours"
+                name="Planned Hours (BCWS)"
+                axis="hours"
+                dashStyle="dash"
+              />
+              <Series
+                type="line"
+                valueField="earnedHours"
+                name="Earned Hours (BCWP)"
+                axis="hours"
+              />
+              {hasActualHours && (
+                <Series
+                  type="line"
+                  valueField="actualHours"
+                  name="Actual Hours (ACWP)"
+                  axis="hours"
+                />
+              )}
+              <Series
+                type="spline"
+                valueField="spi"
+                name="SPI"
+                axis="index"
+              />
+              {hasActualHours && (
+                <Series
+                  type="spline"
+                  valueField="cpi"
+                  name="CPI"
+                  axis="index"
+                />
+              )}
+              <Legend verticalAlignment="bottom" horizontalAlignment="center" />
+              <Tooltip
+                enabled={true}
+                shared={true}
+                customizeTooltip={(info: any) => ({
+                  text: `${info.argument}\n` + info.points.map((point: any) =>
+                    `${point.seriesName}: ${point.value.toFixed(2)}`
+                  ).join('\n')
+                })}
+              />
+            </Chart>
+            {!earnedValueData.some(item => item.hasBaseline) && (
+              <div className="no-data-message">
+                No planned % baseline has been entered yet. Enter planned percentages on the Progress page to see SPI.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ProgressChart;
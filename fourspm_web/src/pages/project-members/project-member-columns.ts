@@ -0,0 +1,42 @@
+import type { ODataGridColumn } from '../../components';
+import { projectMemberRoles } from '../../types/enums';
+
+/**
+ * Column definitions for the project member grid
+ */
+export const projectMemberColumns: ODataGridColumn[] = [
+  {
+    dataField: 'email',
+    caption: 'Email',
+    hidingPriority: 3, // Identifies the member - hide last
+    allowEditing: true,
+    showSummary: true,
+    summaryType: 'count'
+  },
+  {
+    dataField: 'userName',
+    caption: 'Name',
+    hidingPriority: 1,
+    allowEditing: false, // Filled in by the server once the user has signed in
+    cellClass: 'faded-placeholder',
+    customizeText: (cellInfo: any) => cellInfo.valueText || 'Invited'
+  },
+  {
+    dataField: 'projectRole',
+    caption: 'Project Role',
+    hidingPriority: 2,
+    allowEditing: true,
+    lookup: {
+      dataSource: projectMemberRoles,
+      valueExpr: 'id',
+      displayExpr: 'name'
+    }
+  },
+  {
+    dataField: 'created',
+    caption: 'Added',
+    hidingPriority: 0, // Metadata - hide first
+    cellClass: 'faded-placeholder',
+    allowEditing: false
+  }
+];
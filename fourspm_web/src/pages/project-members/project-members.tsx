@@ -0,0 +1,104 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { LoadPanel } from 'devextreme-react/load-panel';
+import { useAuth } from '../../contexts/auth';
+import { ODataGrid, ScrollToTop, ErrorMessage } from '../../components';
+import { PROJECT_MEMBERS_ENDPOINT } from '@/config/api-endpoints';
+import { ProjectMembersProvider, useProjectMembersContext } from '@/contexts/project-members/project-members-context';
+import { useProjectMemberGridHandlers } from '@/hooks/grid-handlers/useProjectMemberGridHandlers';
+import { projectMemberColumns } from './project-member-columns';
+import './project-members.scss';
+
+interface ProjectMemberParams {
+  projectId: string;
+}
+
+/**
+ * Main Project Members component following the Collection View Doctrine
+ * Members are the only users, apart from admins, who can see the project
+ */
+function ProjectMembers(): React.ReactElement {
+  const { projectId } = useParams<ProjectMemberParams>();
+
+  if (!projectId) {
+    return <div className="error-message">Project ID is missing from the URL.</div>;
+  }
+
+  return (
+    <ProjectMembersProvider projectId={projectId}>
+      <ProjectMembersContent />
+    </ProjectMembersProvider>
+  );
+}
+
+/**
+ * Internal component that uses the project members context
+ */
+const ProjectMembersContent = React.memo((): React.ReactElement => {
+  const { user } = useAuth();
+  const { state, projectId, project, isLookupDataLoading } = useProjectMembersContext();
+
+  const {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow
+  } = useProjectMemberGridHandlers({ userToken: user?.token });
+
+  // Only show members of the current project
+  const projectFilter: [string, string, any][] = [['projectGuid', '=', projectId]];
+
+  const hasError = state.error !== null;
+
+  return (
+    <div className="project-members-container">
+      <LoadPanel
+        position={{ of: '.app-main-content' }}
+        visible={isLookupDataLoading}
+        showIndicator={true}
+        shading={true}
+        shadingColor="rgba(0,0,0,0.1)"
+        showPane={true}
+      />
+
+      {hasError && (
+        <ErrorMessage
+          title="Error Loading Members"
+          message={state.error || 'An unknown error occurred'}
+        />
+      )}
+
+      <div className="custom-grid-wrapper">
+        <div className="grid-custom-title">
+          {project ? `${project.projectNumber} - ${project.name} Members` : 'Members'}
+        </div>
+        <div className="project-members-hint">
+          Only members can see this project. Invite subcontractors by email as a Document Controller or Viewer
+          so they see their own job and nothing else.
+        </div>
+
+        {!isLookupDataLoading && !hasError && (
+          <ODataGrid
+            title=" "
+            endpoint={PROJECT_MEMBERS_ENDPOINT}
+            columns={projectMemberColumns}
+            keyField="guid"
+            onRowUpdating={handleRowUpdating}
+            onInitNewRow={handleInitNewRow}
+            onRowValidating={handleRowValidating}
+            onRowRemoving={handleRowRemoving}
+            onRowInserting={handleRowInserting}
+            defaultFilter={projectFilter}
+            defaultSort={[{ selector: 'email', desc: false }]}
+            customGridHeight={600}
+            countColumn="guid"
+          />
+        )}
+      </div>
+      <ScrollToTop />
+    </div>
+  );
+});
+
+export default ProjectMembers;
@@ -0,0 +1,66 @@
+import type { ODataGridColumn } from '../../components';
+import { departmentEnum } from '../../types/enums';
+import { CURRENCY_FORMAT, formatCurrency } from '../../utils/rate-utils';
+
+/**
+ * Creates column definitions for the project rate grid
+ * @param disciplinesDataSource Lookup data for discipline codes
+ */
+export const createProjectRateColumns = (disciplinesDataSource: any): ODataGridColumn[] => [
+  {
+    dataField: 'departmentId',
+    caption: 'Department',
+    hidingPriority: 2,
+    allowEditing: true,
+    editorOptions: {
+      showClearButton: true,
+      placeholder: 'Any department'
+    },
+    customizeText: (cellInfo: any) => cellInfo.valueText || 'Any',
+    lookup: {
+      dataSource: departmentEnum,
+      valueExpr: 'id',
+      displayExpr: 'name'
+    },
+    showSummary: true,
+    summaryType: 'count'
+  },
+  {
+    dataField: 'discipline',
+    caption: 'Discipline',
+    hidingPriority: 1,
+    allowEditing: true,
+    editorOptions: {
+      showClearButton: true,
+      placeholder: 'Any discipline'
+    },
+    customizeText: (cellInfo: any) => cellInfo.valueText || 'Any',
+    lookup: {
+      dataSource: disciplinesDataSource,
+      valueExpr: 'code',
+      displayExpr: 'code'
+    }
+  },
+  {
+    dataField: 'hourlyRate',
+    caption: 'Hourly Rate',
+    hidingPriority: 3, // The rate itself - hide last
+    allowEditing: true,
+    dataType: 'number',
+    editorOptions: {
+      format: CURRENCY_FORMAT,
+      min: 0,
+      showSpinButtons: false
+    },
+    customizeText: (cellInfo: any) => cellInfo.value !== null && cellInfo.value !== undefined
+      ? formatCurrency(Number(cellInfo.value))
+      : ''
+  },
+  {
+    dataField: 'created',
+    caption: 'Created',
+    hidingPriority: 0, // Metadata - hide first
+    cellClass: 'faded-placeholder',
+    allowEditing: false
+  }
+];
@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { LoadPanel } from 'devextreme-react/load-panel';
+import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { ODataGrid, ScrollToTop, ErrorMessage } from '../../components';
+import { PROJECT_RATES_ENDPOINT } from '@/config/api-endpoints';
+import { ProjectRatesProvider, useProjectRatesContext } from '@/contexts/project-rates/project-rates-context';
+import { useProjectRateGridHandlers } from '@/hooks/grid-handlers/useProjectRateGridHandlers';
+import { useDisciplineDataProvider } from '@/hooks/data-providers/useDisciplineDataProvider';
+import { createProjectRateColumns } from './project-rate-columns';
+import './project-rates.scss';
+
+interface ProjectRateParams {
+  projectId: string;
+}
+
+/**
+ * Main Project Rates component following the Collection View Doctrine
+ * The rate table values variation hours in dollars
+ */
+function ProjectRates(): React.ReactElement {
+  const { projectId } = useParams<ProjectRateParams>();
+
+  if (!projectId) {
+    return <div className="error-message">Project ID is missing from the URL.</div>;
+  }
+
+  return (
+    <ProjectRatesProvider projectId={projectId}>
+      <ProjectRatesContent />
+    </ProjectRatesProvider>
+  );
+}
+
+/**
+ * Internal component that uses the project rates context
+ */
+const ProjectRatesContent = React.memo((): React.ReactElement => {
+  const { user } = useAuth();
+  const { state, projectId, project, isLookupDataLoading } = useProjectRatesContext();
+  const { can } = usePermissions(projectId);
+  const { disciplinesStore, isLoading: isDisciplinesLoading } = useDisciplineDataProvider();
+
+  const {
+    handleRowValidating,
+    handleRowUpdating,
+    handleRowInserting,
+    handleRowRemoving,
+    handleInitNewRow
+  } = useProjectRateGridHandlers({ userToken: user?.token });
+
+  const columns = useMemo(() => createProjectRateColumns({ store: disciplinesStore }), [disciplinesStore]);
+
+  // Only show rates for the current project
+  const projectFilter: [string, string, any][] = [['projectGuid', '=', projectId]];
+
+  const isLoading = isLookupDataLoading || isDisciplinesLoading;
+  const hasError = state.error !== null;
+
+  return (
+    <div className="project-rates-container">
+      <LoadPanel
+        position={{ of: '.app-main-content' }}
+        visible={isLoading}
+        showIndicator={true}
+        shading={true}
+        shadingColor="rgba(0,0,0,0.1)"
+        showPane={true}
+      />
+
+      {hasError && (
+        <ErrorMessage
+          title="Error Loading Rates"
+          message={state.error || 'An unknown error occurred'}
+        />
+      )}
+
+      <div className="custom-grid-wrapper">
+        <div className="grid-custom-title">
+          {project ? `${project.projectNumber} - ${project.name} Rates` : 'Rates'}
+        </div>
+        <div className="project-rates-hint">
+          The most specific rate applies: department and discipline, then discipline, then department.
+          A rate with neither is the project's default rate.
+        </div>
+
+        {!isLoading && !hasError && (
+          <ODataGrid
+            title=" "
+            endpoint={PROJECT_RATES_ENDPOINT}
+            columns={columns}
+            keyField="guid"
+            onRowUpdating={handleRowUpdating}
+            onInitNewRow={handleInitNewRow}
+            onRowValidating={handleRowValidating}
+            onRowRemoving={handleRowRemoving}
+            onRowInserting={handleRowInserting}
+            allowAdding={can('commercials.edit')}
+            allowUpdating={can('commercials.edit')}
+            allowDeleting={can('commercials.edit')}
+            defaultFilter={projectFilter}
+            defaultSort={[{ selector: 'departmentId', desc: false }]}
+            customGridHeight={600}
+            countColumn="guid"
+          />
+        )}
+      </div>
+      <ScrollToTop />
+    </div>
+  );
+});
+
+export default ProjectRates;
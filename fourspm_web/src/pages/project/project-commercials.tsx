@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { useHistory } from 'react-router-dom';
+import Button from 'devextreme-react/button';
+import { Project } from '../../types/odata-types';
+import { departmentEnum } from '../../types/enums';
+import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { useProjectCommercials } from '../../hooks/queries/useProjectCommercials';
+import { calculateCurrentPeriod, createPeriodCalendar } from '../../utils/period-utils';
+import { formatCurrency } from '../../utils/rate-utils';
+
+interface ProjectCommercialsProps {
+  project: Project | null;
+}
+
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const formatPercent = (value: number) => `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+
+const getDepartmentName = (departmentId: string | null | undefined) =>
+  departmentEnum.find(department => department.id === departmentId)?.name || departmentId || 'Any';
+
+/**
+ * Shows the commercial state of a project: contract value, budget cost, earned value
+ * and approved variations value, with the rate schedule they are valued at
+ */
+export const ProjectCommercials: React.FC<ProjectCommercialsProps> = ({ project }) => {
+  const { user } = useAuth();
+  const { can } = usePermissions(project?.guid || undefined);
+  const history = useHistory();
+
+  // Earned value is measured at the current period of the project's reporting calendar
+  const currentPeriod = useMemo(() => {
+    const calendar = createPeriodCalendar(project);
+    return calendar ? calculateCurrentPeriod(calendar) : null;
+  }, [project]);
+
+  const { data, isLoading, refetch } = useProjectCommercials(project?.guid || undefined, currentPeriod, user?.token);
+
+  // List the schedule by department, then discipline
+  const rates = useMemo(() => [...(data?.rates || [])].sort((a, b) =>
+    getDepartmentName(a.departmentId).localeCompare(getDepartmentName(b.departmentId)) ||
+    (a.discipline || '').localeCompare(b.discipline || '')
+  ), [data?.rates]);
+
+  if (!project?.guid) return null;
+
+  if (isLoading || !data) {
+    return <div className="project-commercials dx-card">Loading commercials...</div>;
+  }
+
+  const { rollUp } = data;
+  const contractValue = project.contractValue ?? null;
+
+  return (
+    <div className="project-commercials dx-card">
+      <div className="project-commercials-header">
+        <h3>Commercials</h3>
+        <div className="project-commercials-actions">
+          <Button icon="refresh" hint="Refresh commercials" stylingMode="text" onClick={() => refetch()} />
+          <Button
+            text={can('commercials.edit') ? 'Edit Rates' : 'View Rates'}
+            icon="money"
+            stylingMode="outlined"
+            onClick={() => history.push(`/projects/${project.guid}/rates`)}
+          />
+        </div>
+      </div>
+
+      <div className="project-commercials-totals">
+        <div className="project-commercials-total">
+          <span className="project-commercials-label">Contract value</span>
+          <span className="project-commercials-value">
+            {contractValue !== null ? formatCurrency(contractValue) : 'Not set'}
+          </span>
+        </div>
+        <div className="project-commercials-total">
+          <span className="project-commercials-label">Budget cost</span>
+          <span className="project-commercials-value">{formatCurrency(rollUp.budgetCost)}</span>
+          <span className="project-commercials-note">{`${formatHours(rollUp.totalHours)} hours`}</span>
+          {contractValue !== null && (
+            <span className={`project-commercials-note ${rollUp.budgetCost > contractValue ? 'negative' : ''}`}>
+              {`${formatCurrency(contractValue - rollUp.budgetCost, true)} against contract`}
+            </span>
+          )}
+        </div>
+        <div className="project-commercials-total">
+          <span className="project-commercials-label">Earned value</span>
+          <span className="project-commercials-value">{formatCurrency(rollUp.earnedValue)}</span>
+          <span className="project-commercials-note">
+            {currentPeriod !== null
+              ? `${formatPercent(rollUp.percentComplete)} complete at period ${currentPeriod}`
+              : 'Progress start not set'}
+          </span>
+        </div>
+        <div className="project-commercials-total">
+          <span className="project-commercials-label">Approved variations</span>
+          <span className="project-commercials-value">{formatCurrency(rollUp.approvedVariationsValue, true)}</span>
+          <span className="project-commercials-note">{`${formatHours(rollUp.approvedVariationHours)} hours`}</span>
+        </div>
+      </div>
+
+      {rollUp.unratedCount > 0 && (
+        <div className="project-commercials-warning">
+          {`${rollUp.unratedCount} deliverable(s) have no applicable rate and are not included in the values.`}
+        </div>
+      )}
+
+      <table className="project-commercials-table">
+        <caption>Rate Schedule</caption>
+        <thead>
+          <tr>
+            <th>Department</th>
+            <th>Discipline</th>
+            <th className="number">Hourly Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rates.length === 0 && (
+            <tr><td colSpan={3}>No rates have been set up for this project</td></tr>
+          )}
+          {rates.map(rate => (
+            <tr key={rate.guid}>
+              <td>{getDepartmentName(rate.departmentId)}</td>
+              <td>{rate.discipline || 'Any'}</td>
+              <td className="number">{formatCurrency(rate.hourlyRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
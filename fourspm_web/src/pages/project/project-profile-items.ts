@@ -1,9 +1,13 @@
 import { IGroupItemProps } from 'devextreme-react/form';
 import { Project, Client } from '../../types/index';
-import { projectStatuses } from '../../types/index';
+import { projectStatuses, reportingFrequencies } from '../../types/index';
+import { formatDateOnly, parseDateOnly } from '../../utils/period-utils';
+import { CURRENCY_FORMAT } from '../../utils/rate-utils';
 
 // Constants
-const PROGRESS_START_TOOLTIP = 'Deliverables progress period will refresh weekly on the provided day of week';
+const PROGRESS_START_TOOLTIP = 'Period 0 of the reporting calendar; later periods are cut off from this date at the reporting frequency';
+const REPORTING_FREQUENCY_TOOLTIP = 'How often deliverable progress periods roll over';
+const PERIOD_CUTOFFS_TOOLTIP = 'Cut-off dates for periods 1, 2, 3... (only used with the custom cut-off schedule frequency) (type a date as yyyy-mm-dd and press Enter)';
 
 /**
  * Creates the form items configuration for the Project Profile form
@@ -12,6 +16,7 @@ const PROGRESS_START_TOOLTIP = 'Deliverables progress period will refresh weekly
  * @param onClientChange Event handler for client selection changes
  * @param isLoadingClient Whether client data is currently loading
  * @param clients Array of available clients
+ * @param canViewCommercials Whether the user can see the contract value
  * @returns Form items configuration
  */
 export const createProjectFormItems = (
@@ -19,7 +24,8 @@ export const createProjectFormItems = (
   isEditing: boolean,
   onClientChange: (e: any) => void,
   isLoadingClient: boolean = false,
-  clients: Client[] = []
+  clients: Client[] = [],
+  canViewCommercials: boolean = true
 ): IGroupItemProps[] => [
   {
     itemType: 'group',
@@ -72,11 +78,60 @@ export const createProjectFormItems = (
           readOnly: !isEditing
         }
       },
+      {
+        itemType: 'simple',
+        dataField: 'reportingFrequency',
+        label: {
+          text: 'Reporting Frequency',
+          hint: REPORTING_FREQUENCY_TOOLTIP
+        },
+        editorType: 'dxSelectBox',
+        editorOptions: {
+          items: reportingFrequencies,
+          valueExpr: 'id',
+          displayExpr: 'name',
+          placeholder: 'Weekly',
+          readOnly: !isEditing
+        }
+      },
+      {
+        itemType: 'simple',
+        dataField: 'reportingPeriodCutoffs',
+        label: {
+          text: 'Period Cut-off Dates',
+          hint: PERIOD_CUTOFFS_TOOLTIP
+        },
+        editorType: 'dxTagBox',
+        editorOptions: {
+          items: projectData.reportingPeriodCutoffs || [],
+          acceptCustomValue: true,
+          openOnFieldClick: false,
+          showDropDownButton: false,
+          readOnly: !isEditing,
+          onCustomItemCreating: (e: any) => {
+            // Only accept valid calendar dates, normalised to ISO format in local time
+            const date = parseDateOnly(e.text);
+            e.customItem = isNaN(date.getTime()) ? null : formatDateOnly(date);
+          }
+        }
+      },
       {
         itemType: 'simple',
         dataField: 'purchaseOrderNumber',
         label: { text: 'Purchase Order #' },
         editorOptions: { readOnly: !isEditing }
+      },
+      {
+        itemType: 'simple',
+        dataField: 'contractValue',
+        label: { text: 'Contract Value' },
+        visible: canViewCommercials,
+        editorType: 'dxNumberBox',
+        editorOptions: {
+          format: CURRENCY_FORMAT,
+          min: 0,
+          readOnly: !isEditing
+        }
       }
     ]
   },
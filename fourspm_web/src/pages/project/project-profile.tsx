@@ -1,4 +1,4 @@
-import React, { useRef, useCallback, useMemo, useEffect } from 'react';
+import React, { useRef, useCallback, useMemo, useEffect, useState } from 'react';
 import './project-profile.scss';
 import { useParams } from 'react-router-dom';
 import { ScrollView } from 'devextreme-react/scroll-view';
@@ -11,6 +11,9 @@ import Button from 'devextreme-react/button';
 import { createPortal } from 'react-dom';
 import { ProjectProfileProvider, useProjectProfile } from '../../contexts/project-profile/project-profile-context';
 import { useClientDataProvider } from '../../hooks/data-providers/useClientDataProvider';
+import { ProjectCommercials } from './project-commercials';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { ChangeHistoryPopup } from '../../components';
 
 // Define URL parameters interface
 export interface ProjectProfileParams {
@@ -40,6 +43,10 @@ const ProjectProfileContent: React.FC = () => {
     saveProject,
     handleClientSelectionChange
   } = useProjectProfile();
+  const { can } = usePermissions(project?.guid);
+  const canEdit = can('projects.edit');
+  const canViewCommercials = can('commercials.view');
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
   
   const { isXSmall, isSmall } = useScreenSize();
   const isMobile = isXSmall || isSmall;
@@ -121,9 +128,10 @@ const ProjectProfileContent: React.FC = () => {
       isEditing,
       handleClientSelectionChange,
       isClientLoading,
-      clients || []
+      clients || [],
+      canViewCommercials
     );
-  }, [projectData, isEditing, handleClientSelectionChange, isClientLoading, clients]);
+  }, [projectData, isEditing, handleClientSelectionChange, isClientLoading, clients, canViewCommercials]);
   
   // Formatted title text with project number when available
   const titleText = project?.projectNumber 
@@ -176,7 +184,7 @@ const ProjectProfileContent: React.FC = () => {
       )}
       
       {/* Conditionally render floating action buttons only on mobile */}
-      {isMobile && createPortal(
+      {isMobile && canEdit && createPortal(
         <div className="floating-action-buttons-portal">
           {!isEditing ? (
             <Button
@@ -213,8 +221,25 @@ const ProjectProfileContent: React.FC = () => {
       
       <div className="page-header">
         <h1 className="project-title">{titleText}</h1>
+        <Button
+          text={isMobile ? '' : 'History'}
+          icon="clock"
+          hint="View change history"
+          stylingMode="outlined"
+          className="project-history-button"
+          onClick={() => setIsHistoryVisible(true)}
+          disabled={!project?.guid}
+        />
       </div>
 
+      <ChangeHistoryPopup
+        visible={isHistoryVisible}
+        entityName="Projects"
+        entityGuid={project?.guid}
+        title={titleText}
+        onHiding={() => setIsHistoryVisible(false)}
+      />
+
       <ScrollView 
         ref={scrollViewRef}
         className="profile-scrollview"
@@ -222,7 +247,7 @@ const ProjectProfileContent: React.FC = () => {
       >
         <div className="profile-form">
           {/* Edit button inline with project information - desktop only */}
-          {!isMobile && !isEditing && (
+          {!isMobile && !isEditing && canEdit && (
             <div className="inline-edit-button">
               <Button
                 text="Edit"
@@ -270,6 +295,9 @@ const ProjectProfileContent: React.FC = () => {
             ref={setFormRef}
           />
         </div>
+
+        {/* Rate schedule and cost roll-up of the saved project */}
+        {canViewCommercials && <ProjectCommercials project={project} />}
       </ScrollView>
     </div>
   );
@@ -1,9 +1,9 @@
 import type { ODataGridColumn } from '../../components';
-import { projectStatuses } from '../../types/index';
+import { projectStatuses, reportingFrequencies } from '../../types/index';
 
 // Constants for reusable text
 const CLIENT_CONTACT_PLACEHOLDER = 'Auto-filled on client selection';
-const PROGRESS_START_TOOLTIP = 'Deliverables progress period will refresh weekly on the provided day of week';
+const PROGRESS_START_TOOLTIP = 'Period 0 of the reporting calendar; later periods are cut off from this date at the reporting frequency';
 
 /**
  * Creates column definitions for the Projects grid with client information
@@ -91,6 +91,16 @@ export const createProjectColumns = (clientsStore: any, nextProjectNumber?: stri
       },
       tooltip: PROGRESS_START_TOOLTIP
     },
+    {
+      dataField: 'reportingFrequency',
+      caption: 'Reporting Frequency',
+      hidingPriority: 0,
+      lookup: {
+        dataSource: reportingFrequencies,
+        valueExpr: 'id',
+        displayExpr: 'name'
+      }
+    },
     {
       dataField: 'created',
       caption: 'Created',
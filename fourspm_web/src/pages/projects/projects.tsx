@@ -6,6 +6,9 @@ import { useProjectGridHandlers } from '../../hooks/grid-handlers/useProjectGrid
 import { PROJECTS_ENDPOINT } from '../../config/api-endpoints';
 import { LoadPanel } from 'devextreme-react/load-panel';
 import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { useProjectMemberships } from '../../hooks/queries/useProjectMemberships';
+import { createAnyOfFilter } from '../../utils/odata-filters';
 import './projects.scss';
 
 /**
@@ -36,6 +39,14 @@ const ProjectsContent = (): React.ReactElement => {
     refreshNextNumber
   } = useProjects();
   const { user } = useAuth();
+  const { can, isAdmin } = usePermissions();
+
+  // Admins see every project; everyone else only the projects they are members of
+  const { data: memberships, isLoading: isMembershipLoading } = useProjectMemberships(user?.email, user?.token, !isAdmin);
+  const membershipFilter = React.useMemo(
+    () => isAdmin ? [] : createAnyOfFilter('guid', (memberships || []).map(membership => membership.projectGuid)),
+    [isAdmin, memberships]
+  );
   
   // Get the grid event handlers from our custom hook
   const { 
@@ -81,7 +92,7 @@ const ProjectsContent = (): React.ReactElement => {
       
       {/* Loading indicators */}
       <LoadPanel 
-        visible={state.loading || !clientDataLoaded} 
+        visible={state.loading || !clientDataLoaded || isMembershipLoading} 
         message={state.loading ? 'Loading projects...' : 'Loading client data...'}
         position={{ of: '.projects-grid' }}
       />
@@ -90,7 +101,7 @@ const ProjectsContent = (): React.ReactElement => {
         <div className="grid-custom-title">Projects</div>
         
         {/* Only render the grid once client data is loaded */}
-        {clientDataLoaded && (
+        {clientDataLoaded && !isMembershipLoading && (
           <ODataGrid
             endpoint={PROJECTS_ENDPOINT}
             columns={createProjectColumns(clientDataSource, nextProjectNumber)}
@@ -101,11 +112,12 @@ const ProjectsContent = (): React.ReactElement => {
             onInitNewRow={handleInitNewRow}
             onInitialized={handleGridInitialized}
             keyField="guid"
-            allowAdding={true}
-            allowUpdating={true}
-            allowDeleting={true}
+            allowAdding={can('projects.edit')}
+            allowUpdating={can('projects.edit')}
+            allowDeleting={can('projects.delete')}
             title=" "
             expand={['Client']}
+            defaultFilter={membershipFilter}
             // Add default sort to ensure consistent query parameters
             defaultSort={[{ selector: 'created', desc: true }]}
             // Set countColumn for proper record counting - memory #96c469d2
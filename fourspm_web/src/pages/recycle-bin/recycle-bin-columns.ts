@@ -0,0 +1,139 @@
+import type { ODataGridColumn } from '../../components';
+import { Permission } from '../../config/permissions';
+import {
+  CLIENTS_ENDPOINT,
+  DELIVERABLES_ENDPOINT,
+  DELIVERABLE_GATES_ENDPOINT,
+  VARIATIONS_ENDPOINT
+} from '../../config/api-endpoints';
+
+/**
+ * A kind of record that is soft-deleted and can be restored from the recycle bin
+ */
+export interface RecycleBinEntityType {
+  id: string;                      // Entity set name
+  name: string;
+  endpoint: string;
+  projectScoped: boolean;          // Listed per project on the project recycle bin
+  restorePermission: Permission;   // Needed to restore, the same as to delete
+  queryKeys: string[];             // Cached queries that list the records, refreshed after a restore
+  columns: ODataGridColumn[];      // Identify the record; deleted/deletedBy are added for every type
+}
+
+export const recycleBinEntityTypes: RecycleBinEntityType[] = [
+  {
+    id: 'Deliverables',
+    name: 'Deliverables',
+    endpoint: DELIVERABLES_ENDPOINT,
+    projectScoped: true,
+    restorePermission: 'deliverables.edit',
+    queryKeys: ['deliverables', 'lookup', 'progressHistory', 'progressPeriodRows'],
+    columns: [
+      { dataField: 'internalDocumentNumber', caption: 'Document Number', hidingPriority: 9 },
+      { dataField: 'description', caption: 'Description', hidingPriority: 5 },
+      { dataField: 'discipline', caption: 'Discipline', hidingPriority: 3 },
+      { dataField: 'totalHours', caption: 'Total Hours', dataType: 'number', hidingPriority: 4 },
+      { dataField: 'projectNumber', caption: 'Project', hidingPriority: 2 }
+    ]
+  },
+  {
+    id: 'Variations',
+    name: 'Variations',
+    endpoint: VARIATIONS_ENDPOINT,
+    projectScoped: true,
+    restorePermission: 'variations.edit',
+    queryKeys: ['variations', 'variation-deliverables', 'lookup'],
+    columns: [
+      { dataField: 'name', caption: 'Name', hidingPriority: 9 },
+      { dataField: 'comments', caption: 'Comments', hidingPriority: 5 }
+    ]
+  },
+  {
+    id: 'Clients',
+    name: 'Clients',
+    endpoint: CLIENTS_ENDPOINT,
+    projectScoped: false,
+    restorePermission: 'configuration.edit',
+    queryKeys: ['clients', 'lookup'],
+    columns: [
+      { dataField: 'number', caption: 'Client #', hidingPriority: 9 },
+      { dataField: 'description', caption: 'Description', hidingPriority: 5 }
+    ]
+  },
+  {
+    id: 'DeliverableGates',
+    name: 'Deliverable Gates',
+    endpoint: DELIVERABLE_GATES_ENDPOINT,
+    projectScoped: false,
+    restorePermission: 'configuration.edit',
+    queryKeys: ['deliverableGates'],
+    columns: [
+      { dataField: 'name', caption: 'Name', hidingPriority: 9 },
+      { dataField: 'maxPercentage', caption: 'Max %', dataType: 'number', hidingPriority: 4 }
+    ]
+  }
+];
+
+/**
+ * Interface for recycle bin column actions
+ */
+interface RecycleBinColumnsConfig {
+  canRestore: boolean;
+  canPurge: boolean;
+  onRestore: (guid: string) => Promise<boolean>;
+  onPurge: (guid: string) => Promise<boolean>;
+}
+
+/**
+ * Builds the recycle bin columns for an entity type: its identifying fields,
+ * who deleted each record and when, and the restore and purge actions
+ */
+export const createRecycleBinColumns = (
+  entityType: RecycleBinEntityType,
+  { canRestore, canPurge, onRestore, onPurge }: RecycleBinColumnsConfig
+): ODataGridColumn[] => [
+  ...entityType.columns.map(column => ({ ...column, allowEditing: false })),
+  {
+    dataField: 'deleted',
+    caption: 'Deleted',
+    dataType: 'datetime',
+    allowEditing: false,
+    hidingPriority: 8
+  },
+  {
+    dataField: 'deletedBy',
+    caption: 'Deleted By',
+    allowEditing: false,
+    hidingPriority: 7
+  },
+  {
+    caption: 'Actions',
+    type: 'buttons',
+    name: 'recycleBinActions',
+    width: 110,
+    fixed: true,
+    fixedPosition: 'right',
+    buttons: [
+      {
+        hint: 'Restore',
+        icon: 'revert',
+        visible: canRestore,
+        onClick: async (e: any) => {
+          if (await onRestore(e.row.data.guid)) {
+            e.component.refresh();
+          }
+        }
+      },
+      {
+        hint: 'Purge (delete permanently)',
+        icon: 'trash',
+        visible: canPurge,
+        onClick: async (e: any) => {
+          if (await onPurge(e.row.data.guid)) {
+            e.component.refresh();
+          }
+        }
+      }
+    ]
+  }
+];
@@ -0,0 +1,110 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import SelectBox from 'devextreme-react/select-box';
+import notify from 'devextreme/ui/notify';
+import { confirm } from 'devextreme/ui/dialog';
+import { useQueryClient } from '@tanstack/react-query';
+import { ODataGrid } from '../../components';
+import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
+import { getDeletedRecordsUrl } from '../../config/api-endpoints';
+import { purgeDeletedRecord, restoreDeletedRecord } from '../../adapters/recycle-bin.adapter';
+import { createRecycleBinColumns, recycleBinEntityTypes } from './recycle-bin-columns';
+import './recycle-bin.scss';
+
+interface RecycleBinParams {
+  projectId?: string;
+}
+
+/**
+ * Lists soft-deleted records of one entity type with who deleted them and when
+ * Records can be restored by anyone allowed to delete them; only admins can purge them
+ * Opened from a project it lists that project's deliverables and variations
+ */
+const RecycleBin: React.FC = () => {
+  const { projectId } = useParams<RecycleBinParams>();
+  const { user } = useAuth();
+  const { can } = usePermissions(projectId);
+  const queryClient = useQueryClient();
+
+  const entityTypes = useMemo(
+    () => recycleBinEntityTypes.filter(entityType => !projectId || entityType.projectScoped),
+    [projectId]
+  );
+  const [entityTypeId, setEntityTypeId] = useState(entityTypes[0].id);
+  const entityType = entityTypes.find(type => type.id === entityTypeId) || entityTypes[0];
+
+  const handleRestore = useCallback(async (guid: string) => {
+    try {
+      await restoreDeletedRecord(entityType.endpoint, guid, user?.token || '');
+      ['dashboard', ...entityType.queryKeys].forEach(queryKey =>
+        queryClient.invalidateQueries({ queryKey: [queryKey] })
+      );
+      notify('Record restored', 'success', 2500);
+      return true;
+    } catch (error) {
+      notify(`Error restoring record: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+      return false;
+    }
+  }, [entityType.endpoint, entityType.queryKeys, user?.token, queryClient]);
+
+  const handlePurge = useCallback(async (guid: string) => {
+    const confirmed = await confirm(
+      'Permanently delete this record? It cannot be restored afterwards.',
+      'Purge Record'
+    );
+    if (!confirmed) return false;
+
+    try {
+      await purgeDeletedRecord(entityType.endpoint, guid, user?.token || '');
+      notify('Record purged', 'success', 2500);
+      return true;
+    } catch (error) {
+      notify(`Error purging record: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+      return false;
+    }
+  }, [entityType.endpoint, user?.token]);
+
+  const columns = useMemo(() => createRecycleBinColumns(entityType, {
+    canRestore: can(entityType.restorePermission),
+    canPurge: can('recycleBin.purge'),
+    onRestore: handleRestore,
+    onPurge: handlePurge
+  }), [entityType, can, handleRestore, handlePurge]);
+
+  return (
+    <div className="recycle-bin-container">
+      <div className="custom-grid-wrapper">
+        <div className="recycle-bin-header">
+          <div className="grid-custom-title">Recycle Bin</div>
+          <SelectBox
+            items={entityTypes}
+            value={entityType.id}
+            valueExpr="id"
+            displayExpr="name"
+            onValueChanged={e => setEntityTypeId(e.value)}
+            width={220}
+          />
+        </div>
+        <ODataGrid
+          key={entityType.id}
+          title=" "
+          endpoint={getDeletedRecordsUrl(entityType.endpoint)}
+          columns={columns}
+          keyField="guid"
+          allowAdding={false}
+          allowUpdating={false}
+          allowDeleting={false}
+          allowLayouts={false}
+          historyEntity={entityType.id}
+          defaultFilter={projectId ? [['projectGuid', '=', projectId]] : []}
+          defaultSort={[{ selector: 'deleted', desc: true }]}
+          showRecordCount={false}
+          customGridHeight={900}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -1,5 +1,8 @@
 import type { ODataGridColumn } from '../../components';
 import { departmentEnum, deliverableTypeEnum } from '../../types/enums';
+import { ProjectRate } from '../../types/odata-types';
+import { CURRENCY_FORMAT, formatCurrency } from '../../utils/rate-utils';
+import { getVariationValueDelta } from '../../utils/variation-summary-utils';
 // No need to import entity types directly
 import 'devextreme/ui/html_editor';
 
@@ -13,7 +16,8 @@ export const createVariationDeliverableColumns = (
   documentTypesDataSource: any,
   isMobile: boolean = false,
   onCancellationClick?: (data: any, isReadOnly?: boolean) => void,
-  isReadOnly: boolean = false
+  isReadOnly: boolean = false,
+  rates: ProjectRate[] = []
 ): ODataGridColumn[] => {
   return [
     {
@@ -177,15 +181,30 @@ export const createVariationDeliverableColumns = (
         step: 1
       },
       customizeText: (cellInfo: any) => {
-        return cellInfo.value ? `$${cellInfo.value.toFixed(2)}` : '$0.00';
+        return formatCurrency(cellInfo.value || 0);
       },
       showSummary: true,
       summaryType: 'sum',
-      summaryFormat: {
-        type: 'currency',
-        precision: 2,
-        currency: 'AUD'
-      }
+      summaryFormat: CURRENCY_FORMAT
+    },
+    {
+      dataField: 'variationValue',
+      caption: 'Variation Value',
+      hidingPriority: 9,
+      dataType: 'number',
+      allowEditing: false, // Calculated from the hour change and the project's rate table
+      allowSorting: false,
+      allowFiltering: false,
+      allowHeaderFiltering: false,
+      cellClass: 'faded-placeholder',
+      calculateCellValue: (rowData: any) => getVariationValueDelta(rowData, rates),
+      customizeText: (cellInfo: any) => {
+        if (cellInfo.value === null || cellInfo.value === undefined) return 'No rate';
+        return formatCurrency(cellInfo.value, true);
+      },
+      showSummary: true,
+      summaryType: 'sum',
+      summaryFormat: CURRENCY_FORMAT
     },
     {
       dataField: 'variationName',
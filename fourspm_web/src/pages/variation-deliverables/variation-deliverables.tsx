@@ -1,5 +1,5 @@
-import React, { useMemo } from 'react';
-import { ErrorMessage } from '@/components';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ErrorMessage, AccessDenied } from '@/components';
 import { useParams } from 'react-router-dom';
 import { ODataGrid } from '@/components';
 import { createVariationDeliverableColumns, processVariationDeliverableColumns } from './variation-deliverable-columns';
@@ -8,12 +8,22 @@ import './variation-deliverables.scss';
 import { getVariationDeliverablesWithParamUrl } from '@/config/api-endpoints';
 import { useScreenSizeClass } from '@/utils/media-query';
 import { LoadPanel } from 'devextreme-react/load-panel';
+import Button from 'devextreme-react/button';
+import notify from 'devextreme/ui/notify';
 import { VariationDeliverablesProvider, useVariationDeliverables } from '@/contexts/variation-deliverables/variation-deliverables-context';
 import { DeliverablesProvider } from '@/contexts/deliverables/deliverables-context';
 // Use the DeliverableEditor context from deliverables context
 import { useVariationDeliverableGridHandlers } from '@/hooks/grid-handlers/useVariationDeliverableGridHandlers';
 import { useVariationInfo } from '@/hooks/utils/useVariationInfo';
 import { useAuth } from '@/contexts/auth';
+import { usePermissions } from '@/hooks/utils/usePermissions';
+import { useVariationSummary } from '@/hooks/queries/useVariationSummary';
+import { useProjectRates } from '@/hooks/queries/useProjectRates';
+import { VariationSummaryPanel } from './variation-summary-panel';
+import { getVariationLifecycleStatus, isVariationEditable } from '@/utils/variation-lifecycle-utils';
+import { variationLifecycleStatuses } from '@/types/enums';
+import { getVariationDeliverables } from '@/adapters/variation-deliverable.adapter';
+import { createVariationDocument, getVariationDocumentFileName } from '@/utils/variation-document-utils';
 
 // Type definition for route parameters
 interface VariationDeliverableParams {
@@ -32,6 +42,7 @@ export function VariationDeliverables(): React.ReactElement {
   // Get the variation info to retrieve the correct project ID
   // Always call hooks before any conditional returns
   const { projectGuid, loading } = useVariationInfo(variationId || '', user?.token);
+  const { isProjectMember, isLoading: isMembershipLoading } = usePermissions(projectGuid);
   
   // Validate variationId exists
   if (!variationId) {
@@ -39,7 +50,7 @@ export function VariationDeliverables(): React.ReactElement {
   }
   
   // Show loading state while we fetch the variation data
-  if (loading) {
+  if (loading || isMembershipLoading) {
     return <div className="loading-message">Loading variation data...</div>;
   }
   
@@ -48,6 +59,16 @@ export function VariationDeliverables(): React.ReactElement {
     return <div className="error-message">Cannot load project for this variation.</div>;
   }
   
+  // Variations belong to a project and are only open to its members
+  if (!isProjectMember) {
+    return (
+      <AccessDenied
+        title="No access to this project"
+        message="You are not a member of the project this variation belongs to."
+      />
+    );
+  }
+  
   return (
     <DeliverablesProvider projectId={projectGuid}>
       <VariationDeliverablesProvider variationId={variationId}>
@@ -101,17 +122,49 @@ const VariationDeliverablesContent = React.memo((): React.ReactElement => {
     projectGuid
   });
 
+  const { user } = useAuth();
+  const { can } = usePermissions(projectGuid);
+  const [showSummary, setShowSummary] = useState(false);
+  
+  // Only load the summary while the panel is open
+  const {
+    data: variationSummary,
+    isLoading: isSummaryLoading,
+    refetch: refetchSummary
+  } = useVariationSummary(showSummary ? variationId : undefined, projectGuid, user?.token);
+
+  // Build the client-facing variation document in the browser and download it
+  const [isCreatingDocument, setIsCreatingDocument] = useState(false);
+  const handleDownloadDocument = useCallback(async () => {
+    if (!variation || !variationId) return;
+
+    setIsCreatingDocument(true);
+    try {
+      const deliverables = await getVariationDeliverables(variationId, user?.token);
+      createVariationDocument(variation, project, deliverables).save(getVariationDocumentFileName(variation, project));
+    } catch (error) {
+      notify(`Could not create the variation document: ${error instanceof Error ? error.message : String(error)}`, 'error', 4000);
+    } finally {
+      setIsCreatingDocument(false);
+    }
+  }, [variation, variationId, project, user?.token]);
+
+  // Rate table used to value each added, edited or cancelled deliverable
+  const { data: projectRates = [], isLoading: isRatesLoading } = useProjectRates(projectGuid, user?.token);
+
   const screenClass = useScreenSizeClass();
   const isMobile = screenClass === 'screen-x-small' || screenClass === 'screen-small';
   
   // Determine if we're still loading any data
-  const isLoading = state.loading || isLookupDataLoading;
+  const isLoading = state.loading || isLookupDataLoading || isRatesLoading;
   
   // Combine all error sources
   const hasError = state.error !== null;
   
-  // Set the grid to read-only if the variation has been submitted
-  const isReadOnly = variation?.submitted !== null && variation?.submitted !== undefined;
+  // Set the grid to read-only once the variation has left Draft (submitted, decided or withdrawn)
+  const isReadOnly = !!variation && !isVariationEditable(variation);
+  // Users who cannot edit variations always see the grid read-only
+  const isGridReadOnly = isReadOnly || !can('variations.edit');
   
   // Create columns with the lookup data sources from dedicated providers
   const columns = useMemo(() => {
@@ -126,12 +179,13 @@ const VariationDeliverablesContent = React.memo((): React.ReactElement => {
       documentTypesDataSource,
       isMobile,
       handleCancellationClick,
-      isReadOnly
+      isGridReadOnly,
+      projectRates
     );
     
     // Process columns to ensure all have a dataField property for ODataGrid compatibility
     return processVariationDeliverableColumns(baseColumns);
-  }, [areasDataSource, disciplinesDataSource, documentTypesDataSource, isLoading, isMobile, handleCancellationClick, isReadOnly]);
+  }, [areasDataSource, disciplinesDataSource, documentTypesDataSource, isLoading, isMobile, handleCancellationClick, isGridReadOnly, projectRates]);
   
   // Adjust columns for mobile size if needed
   const mobileAdjustedColumns = useMemo(() => {
@@ -168,6 +222,39 @@ const VariationDeliverablesContent = React.memo((): React.ReactElement => {
             : 'Variation Deliverables'}
         </div>
         
+        {!isLoading && !hasError && variation && (
+          <div className="variation-deliverables-toolbar">
+            <Button
+              text={showSummary ? 'Hide summary' : 'Show summary'}
+              icon="chart"
+              stylingMode="outlined"
+              onClick={() => setShowSummary(visible => !visible)}
+            />
+            <Button
+              text="Download PDF"
+              icon="exportpdf"
+              stylingMode="outlined"
+              onClick={handleDownloadDocument}
+              disabled={isCreatingDocument}
+            />
+            {isReadOnly && (
+              <span className="variation-read-only-note">
+                {`${variationLifecycleStatuses.find(item => item.id === getVariationLifecycleStatus(variation))?.name} - deliverables can no longer be edited`}
+              </span>
+            )}
+          </div>
+        )}
+        
+        {showSummary && (
+          <VariationSummaryPanel
+            summary={variationSummary}
+            isLoading={isSummaryLoading}
+            project={project}
+            variation={variation}
+            onRefresh={() => refetchSummary()}
+          />
+        )}
+        
         {!isLoading && !hasError && variation && variationId && (
           <ODataGrid
             title=" "
@@ -182,8 +269,8 @@ const VariationDeliverablesContent = React.memo((): React.ReactElement => {
             onInitialized={handleGridInitialized}
             countColumn="guid"
             defaultSort={[{ selector: 'internalDocumentNumber', desc: false }]}
-            allowAdding={!isReadOnly}
-            allowUpdating={!isReadOnly}
+            allowAdding={!isGridReadOnly}
+            allowUpdating={!isGridReadOnly}
             allowDeleting={false}
             customGridHeight={900}
             // The ref is passed to the grid via onInitialized instead of directly
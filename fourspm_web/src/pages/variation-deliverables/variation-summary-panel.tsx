@@ -0,0 +1,166 @@
+import React from 'react';
+import Button from 'devextreme-react/button';
+import notify from 'devextreme/ui/notify';
+import { Project, Variation } from '../../types/odata-types';
+import { VariationSummary, VariationSummaryGroup } from '../../utils/variation-summary-utils';
+import { escapeHtml, printHtmlReport } from '../../utils/print-utils';
+import { formatCurrency } from '../../utils/rate-utils';
+
+interface VariationSummaryPanelProps {
+  summary: VariationSummary | undefined;
+  isLoading: boolean;
+  project: Project | null | undefined;
+  variation: Variation | null | undefined;
+  onRefresh: () => void;
+}
+
+// Hour changes are shown signed so additions and reductions read at a glance
+const formatDelta = (hours: number) => `${hours > 0 ? '+' : ''}${hours.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const STATUS_CAPTIONS: Record<string, string> = {
+  Add: 'Added',
+  Edit: 'Edited',
+  Cancel: 'Cancelled'
+};
+
+const GROUPINGS: { title: string; keyCaption: string; getGroups: (summary: VariationSummary) => VariationSummaryGroup[] }[] = [
+  { title: 'By Status', keyCaption: 'Status', getGroups: summary => summary.byStatus },
+  { title: 'By Discipline', keyCaption: 'Discipline', getGroups: summary => summary.byDiscipline },
+  { title: 'By Area', keyCaption: 'Area', getGroups: summary => summary.byArea }
+];
+
+const getGroupCaption = (group: VariationSummaryGroup) => STATUS_CAPTIONS[group.key] || group.key;
+
+/**
+ * Builds the printable HTML version of a variation summary
+ */
+const buildSummaryReportHtml = (
+  summary: VariationSummary,
+  project: Project | null | undefined,
+  variation: Variation | null | undefined
+): string => {
+  const tables = GROUPINGS.map(({ title, keyCaption, getGroups }) => {
+    const rows = getGroups(summary).map(group =>
+      `<tr><td>${escapeHtml(getGroupCaption(group))}</td>` +
+      `<td class="number">${group.count}</td>` +
+      `<td class="number">${escapeHtml(formatDelta(group.hoursDelta))}</td>` +
+      `<td class="number">${escapeHtml(formatCurrency(group.valueDelta, true))}</td></tr>`
+    ).join('');
+
+    return `<h2>${escapeHtml(title)}</h2>` +
+      `<table><thead><tr><th>${escapeHtml(keyCaption)}</th><th class="number">Deliverables</th>` +
+      `<th class="number">Hours Change</th><th class="number">Value</th></tr></thead>` +
+      `<tbody>${rows || '<tr><td colspan="4">No changes</td></tr>'}</tbody></table>`;
+  }).join('');
+
+  return `<h1>${escapeHtml(variation?.name || 'Variation')} - Summary</h1>` +
+    `<div class="report-subtitle">${escapeHtml(project ? `${project.projectNumber} ${project.name}` : '')}` +
+    ` &middot; Printed ${escapeHtml(new Date().toLocaleString())}</div>` +
+    '<table><tbody>' +
+    `<tr><td>Deliverables changed</td><td class="number">${summary.deliverableCount}</td></tr>` +
+    `<tr><td>Current project hours</td><td class="number">${escapeHtml(formatHours(summary.currentProjectHours))}</td></tr>` +
+    `<tr><td>Net change if approved</td><td class="number">${escapeHtml(formatDelta(summary.netHoursDelta))}</td></tr>` +
+    `<tr class="total"><td>Project hours if approved</td><td class="number">${escapeHtml(formatHours(summary.projectHoursIfApproved))}</td></tr>` +
+    `<tr class="total"><td>Variation value</td><td class="number">${escapeHtml(formatCurrency(summary.netValueDelta, true))}</td></tr>` +
+    '</tbody></table>' +
+    (summary.unratedCount > 0
+      ? `<p>${summary.unratedCount} deliverable(s) have no applicable rate and are not included in the value.</p>`
+      : '') +
+    tables;
+};
+
+/**
+ * Shows what a variation changes: deliverable counts, hour changes and their value by status, discipline and area,
+ * and the effect on the project's total hours if it is approved
+ */
+export const VariationSummaryPanel: React.FC<VariationSummaryPanelProps> = ({
+  summary,
+  isLoading,
+  project,
+  variation,
+  onRefresh
+}) => {
+  const handlePrint = () => {
+    if (!summary) return;
+    if (!printHtmlReport(`${variation?.name || 'Variation'} Summary`, buildSummaryReportHtml(summary, project, variation))) {
+      notify('The report window was blocked. Allow pop-ups for this site and try again.', 'warning', 4000);
+    }
+  };
+
+  if (isLoading || !summary) {
+    return <div className="variation-summary-panel dx-card">Loading variation summary...</div>;
+  }
+
+  return (
+    <div className="variation-summary-panel dx-card">
+      <div className="variation-summary-header">
+        <div className="variation-summary-totals">
+          <div className="variation-summary-total">
+            <span className="variation-summary-label">Deliverables changed</span>
+            <span className="variation-summary-value">{summary.deliverableCount}</span>
+          </div>
+          <div className="variation-summary-total">
+            <span className="variation-summary-label">Net hours if approved</span>
+            <span className={`variation-summary-value ${summary.netHoursDelta < 0 ? 'negative' : 'positive'}`}>
+              {formatDelta(summary.netHoursDelta)}
+            </span>
+          </div>
+          <div className="variation-summary-total">
+            <span className="variation-summary-label">Variation value</span>
+            <span className={`variation-summary-value ${summary.netValueDelta < 0 ? 'negative' : 'positive'}`}>
+              {formatCurrency(summary.netValueDelta, true)}
+            </span>
+            {summary.unratedCount > 0 && (
+              <span className="variation-summary-warning">
+                {`${summary.unratedCount} without a rate`}
+              </span>
+            )}
+          </div>
+          <div className="variation-summary-total">
+            <span className="variation-summary-label">Project hours</span>
+            <span className="variation-summary-value">
+              {`${formatHours(summary.currentProjectHours)} → ${formatHours(summary.projectHoursIfApproved)}`}
+            </span>
+          </div>
+        </div>
+        <div className="variation-summary-actions">
+          <Button icon="refresh" hint="Refresh summary" stylingMode="text" onClick={onRefresh} />
+          <Button text="Print" icon="print" stylingMode="outlined" onClick={handlePrint} />
+        </div>
+      </div>
+
+      <div className="variation-summary-groups">
+        {GROUPINGS.map(({ title, keyCaption, getGroups }) => {
+          const groups = getGroups(summary);
+          return (
+            <table key={title} className="variation-summary-table">
+              <caption>{title}</caption>
+              <thead>
+                <tr>
+                  <th>{keyCaption}</th>
+                  <th className="number">Count</th>
+                  <th className="number">Hours</th>
+                  <th className="number">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.length === 0 && (
+                  <tr><td colSpan={4}>No changes</td></tr>
+                )}
+                {groups.map(group => (
+                  <tr key={group.key}>
+                    <td>{getGroupCaption(group)}</td>
+                    <td className="number">{group.count}</td>
+                    <td className="number">{formatDelta(group.hoursDelta)}</td>
+                    <td className="number">{formatCurrency(group.valueDelta, true)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
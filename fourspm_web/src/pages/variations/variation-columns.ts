@@ -1,9 +1,21 @@
 import type { ODataGridColumn } from '../../components';
+import { variationLifecycleStatuses } from '../../types/enums';
+import {
+  canApproveVariation,
+  canRejectVariation,
+  canSubmitVariation,
+  canWithdrawVariation,
+  isVariationEditable
+} from '../../utils/variation-lifecycle-utils';
 
 // Define the configuration type for variation columns
 type VariationColumnsConfig = {
   handleApproveVariation: (variationGuid: string, variation?: any) => Promise<boolean>;
   handleRejectVariation: (variationGuid: string) => Promise<boolean>;
+  handleSubmitVariation: (variationGuid: string) => Promise<boolean>;
+  handleWithdrawVariation: (variationGuid: string) => Promise<boolean>;
+  canEdit: boolean; // Submit, withdraw and delete
+  canApprove: boolean; // Record the client's approval or rejection
   showSuccess: (message: string) => void;
   showError: (message: string) => void;
 };
@@ -24,17 +36,34 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
     allowEditing: true,
     hidingPriority: 2
   },
+  {
+    dataField: 'status',
+    caption: 'Status',
+    width: 140,
+    allowEditing: false, // Status changes through the client actions
+    hidingPriority: 3,
+    lookup: {
+      dataSource: variationLifecycleStatuses,
+      valueExpr: 'id',
+      displayExpr: 'name'
+    }
+  },
   {
     dataField: 'submitted',
     caption: 'Submitted',
-    allowEditing: true,
+    allowEditing: false, // Stamped by Submit to Client
+    cellClass: 'faded-placeholder',
     hidingPriority: 1,
     dataType: 'date',
-    editorOptions: {
-      allowNull: true,
-      showClearButton: true,
-      useMaskBehavior: true
-    }
+    allowHeaderFiltering: false
+  },
+  {
+    dataField: 'submittedBy',
+    caption: 'Submitted By',
+    allowEditing: false,
+    cellClass: 'faded-placeholder',
+    hidingPriority: 0,
+    visible: false
   },
   {
     dataField: 'clientApproved',
@@ -42,7 +71,8 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
     allowEditing: false, // Read-only field - client approval requires the approval process
     cellClass: 'faded-placeholder',
     hidingPriority: 1,
-    dataType: 'date'
+    dataType: 'date',
+    allowHeaderFiltering: false
   },
   {
     dataField: 'created',
@@ -76,19 +106,32 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
     dataField: 'guid_clientActions', // Make the dataField unique by incorporating the button name
     name: 'clientActions', // Unique name for this buttons column
     caption: 'Client Action',
-    width: 120,
+    width: 200,
     fixed: true,
     fixedPosition: 'right',
     allowEditing: false,
     hidingPriority: 3, // Show as long as possible
     // Define buttons for different states
     buttons: [
-      // Approve button - only visible when not approved yet
+      // Submit button - only visible while the variation is a draft
+      {
+        hint: 'Submit to Client',
+        icon: 'export',
+        text: 'Submit',
+        visible: (e) => config.canEdit && canSubmitVariation(e.row.data) && !e.row.isNewRow && e.row.data.guid,
+        onClick: async (e) => {
+          const success = await config.handleSubmitVariation(e.row.data.guid);
+          if (success) {
+            e.component.refresh();
+          }
+        }
+      },
+      // Approve button - only visible once submitted to the client
       {
         hint: 'Approve Variation',
         icon: 'check',
         text: 'Approve',
-        visible: (e) => !e.row.data.clientApproved && !e.row.isNewRow && e.row.data.guid,
+        visible: (e) => config.canApprove && canApproveVariation(e.row.data) && !e.row.isNewRow && e.row.data.guid,
         onClick: async (e) => {
           // Call the approve variation handler from the config
           const success = await config.handleApproveVariation(e.row.data.guid, e.row.data);
@@ -99,12 +142,12 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
           }
         }
       },
-      // Reject button - only visible when already approved
+      // Reject button - visible while submitted or already approved
       {
         hint: 'Reject Variation',
         icon: 'close',
         text: 'Reject',
-        visible: (e) => !!e.row.data.clientApproved && !e.row.isNewRow && e.row.data.guid,
+        visible: (e) => config.canApprove && canRejectVariation(e.row.data) && !e.row.isNewRow && e.row.data.guid,
         onClick: async (e) => {
           // Call the reject variation handler from the config
           const success = await config.handleRejectVariation(e.row.data.guid);
@@ -114,6 +157,19 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
             e.component.refresh();
           }
         }
+      },
+      // Withdraw button - not available once approved
+      {
+        hint: 'Withdraw Variation',
+        icon: 'remove',
+        text: 'Withdraw',
+        visible: (e) => config.canEdit && canWithdrawVariation(e.row.data) && !e.row.isNewRow && e.row.data.guid,
+        onClick: async (e) => {
+          const success = await config.handleWithdrawVariation(e.row.data.guid);
+          if (success) {
+            e.component.refresh();
+          }
+        }
       }
     ]
   },
@@ -125,7 +181,8 @@ export const variationColumns = (config: VariationColumnsConfig): ODataGridColum
       {
         hint: 'Delete Variation',
         icon: 'trash',
-        visible: (e) => !e.row.isNewRow && e.row.data.guid,
+        // Only drafts can be deleted; anything the client has seen is withdrawn instead
+        visible: (e) => config.canEdit && !e.row.isNewRow && e.row.data.guid && isVariationEditable(e.row.data),
         onClick: (e: any) => {
           e.component.deleteRow(e.row.rowIndex);
         }
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import Button from 'devextreme-react/button';
+import { alert, confirm } from 'devextreme/ui/dialog';
+import notify from 'devextreme/ui/notify';
+import { getApprovalOrder, VariationDependencyNode } from '../../utils/variation-dependency-utils';
+import { canApproveVariation, getVariationLifecycleStatus } from '../../utils/variation-lifecycle-utils';
+import { variationLifecycleStatuses } from '../../types/enums';
+
+interface VariationDependencyPanelProps {
+  nodes: Record<string, VariationDependencyNode>;
+  isLoading: boolean;
+  canApprove: boolean;
+  onApprove: (variationGuid: string) => Promise<void>;
+  onApproved: () => void;
+}
+
+/**
+ * Shows which variations depend on which, laid out left to right by dependency depth
+ * Selecting a variation highlights the chain it needs and offers to approve that chain in order
+ */
+export const VariationDependencyPanel: React.FC<VariationDependencyPanelProps> = ({
+  nodes,
+  isLoading,
+  canApprove,
+  onApprove,
+  onApproved
+}) => {
+  const [selectedGuid, setSelectedGuid] = useState<string | null>(null);
+  const [isApproving, setIsApproving] = useState(false);
+
+  // Group variations into columns by level, oldest first within a column
+  const columns = useMemo(() => {
+    const grouped: VariationDependencyNode[][] = [];
+    Object.values(nodes)
+      .sort((a, b) => new Date(a.variation.created).getTime() - new Date(b.variation.created).getTime())
+      .forEach(node => {
+        grouped[node.level] = grouped[node.level] || [];
+        grouped[node.level].push(node);
+      });
+    return grouped.filter(Boolean);
+  }, [nodes]);
+
+  // Pending variations that must be approved, in order, for the selected one
+  const { approvalOrder, orderError } = useMemo(() => {
+    if (!selectedGuid) return { approvalOrder: [] as string[], orderError: null };
+    try {
+      return { approvalOrder: getApprovalOrder(nodes, selectedGuid), orderError: null };
+    } catch (error) {
+      return { approvalOrder: [] as string[], orderError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [nodes, selectedGuid]);
+
+  const getName = (guid: string) => nodes[guid]?.variation.name || guid;
+
+  // Display name of a variation's lifecycle status, e.g. "Client Approved"
+  const getStatusName = (guid: string) => {
+    const status = getVariationLifecycleStatus(nodes[guid]?.variation);
+    return variationLifecycleStatuses.find(item => item.id === status)?.name || status;
+  };
+
+  const handleApproveChain = async () => {
+    if (!approvalOrder.length) return;
+
+    // Only variations the client has been sent can be approved
+    const notSubmitted = approvalOrder.filter(guid => !canApproveVariation(nodes[guid].variation));
+    if (notSubmitted.length) {
+      await alert(
+        `These variations must be submitted to the client before they can be approved: ${notSubmitted.map(getName).join(', ')}`,
+        'Approve in Dependency Order'
+      );
+      return;
+    }
+
+    const orderText = approvalOrder.map((guid, index) => `${index + 1}. ${getName(guid)}`).join('<br/>');
+    const confirmed = await confirm(
+      `The following variations will be approved in this order:<br/><br/>${orderText}`,
+      'Approve in Dependency Order'
+    );
+    if (!confirmed) return;
+
+    setIsApproving(true);
+    let approvedCount = 0;
+    try {
+      for (const guid of approvalOrder) {
+        await onApprove(guid);
+        approvedCount++;
+      }
+      notify(`${approvedCount} variation${approvedCount === 1 ? '' : 's'} approved`, 'success', 2500);
+    } catch (error) {
+      // Stop at the first failure so nothing is approved ahead of its dependencies
+      const failedName = getName(approvalOrder[approvedCount]);
+      await alert(
+        `${approvedCount} of ${approvalOrder.length} variations were approved. ` +
+        `Approving "${failedName}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        'Approval Stopped'
+      );
+    } finally {
+      setIsApproving(false);
+      onApproved();
+    }
+  };
+
+  const getStatus = (node: VariationDependencyNode) => {
+    if (node.isApproved) return { text: 'Approved', className: 'approved' };
+    if (!node.isPending) return { text: node.status, className: 'closed' };
+    if (node.blockedBy.length) return { text: 'Blocked', className: 'blocked' };
+    return { text: 'Ready to approve', className: 'ready' };
+  };
+
+  if (isLoading) {
+    return <div className="variation-dependency-panel dx-card">Loading variation dependencies...</div>;
+  }
+
+  if (!columns.length) {
+    return <div className="variation-dependency-panel dx-card">This project has no variations.</div>;
+  }
+
+  return (
+    <div className="variation-dependency-panel dx-card">
+      <div className="variation-dependency-toolbar">
+        <span className="variation-dependency-hint">
+          {selectedGuid
+            ? orderError || (approvalOrder.length
+              ? `Approval order: ${approvalOrder.map(getName).join(' → ')}`
+              : `"${getName(selectedGuid)}" is ${getStatusName(selectedGuid).toLowerCase()} and has nothing left to approve`)
+            : 'Select a variation to see the variations it depends on'}
+        </span>
+        {canApprove && (
+          <Button
+            text="Approve in dependency order"
+            icon="check"
+            type="default"
+            stylingMode="contained"
+            onClick={handleApproveChain}
+            disabled={!approvalOrder.length || isApproving}
+          />
+        )}
+      </div>
+
+      <div className="variation-dependency-graph">
+        {columns.map((column, level) => (
+          <div key={level} className="variation-dependency-column">
+            <div className="variation-dependency-column-title">
+              {level === 0 ? 'No dependencies' : `Depth ${level}`}
+            </div>
+            {column.map(node => {
+              const status = getStatus(node);
+              const guid = node.variation.guid;
+              const isSelected = guid === selectedGuid;
+              const isInChain = approvalOrder.includes(guid);
+
+              return (
+                <div
+                  key={guid}
+                  className={[
+                    'variation-dependency-node',
+                    status.className,
+                    isSelected ? 'selected' : '',
+                    isInChain && !isSelected ? 'in-chain' : ''
+                  ].join(' ')}
+                  onClick={() => setSelectedGuid(isSelected ? null : guid)}
+                >
+                  <div className="variation-dependency-node-name">{node.variation.name}</div>
+                  <div className="variation-dependency-node-status">{status.text}</div>
+                  {node.dependsOn.length > 0 && (
+                    <div className="variation-dependency-node-links">
+                      Depends on: {node.dependsOn.map(getName).join(', ')}
+                    </div>
+                  )}
+                  {node.blockedBy.length > 0 && (
+                    <div className="variation-dependency-node-links">
+                      Waiting for: {node.blockedBy.map(getName).join(', ')}
+                    </div>
+                  )}
+                  {node.dependents.length > 0 && (
+                    <div className="variation-dependency-node-links">
+                      Used by: {node.dependents.map(getName).join(', ')}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
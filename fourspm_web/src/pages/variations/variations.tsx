@@ -1,14 +1,18 @@
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { ODataGrid } from '../../components';
 import { variationColumns } from './variation-columns';
 import { VARIATIONS_ENDPOINT } from '../../config/api-endpoints';
 import { LoadPanel } from 'devextreme-react/load-panel';
+import Button from 'devextreme-react/button';
 import notify from 'devextreme/ui/notify';
 import { useAuth } from '../../contexts/auth';
+import { usePermissions } from '../../hooks/utils/usePermissions';
 // Removed useProjectInfo import as we now get project from context
 import { VariationsProvider, useVariations } from '../../contexts/variations/variations-context';
 import { useVariationGridHandlers } from '../../hooks/grid-handlers/useVariationGridHandlers';
+import { useVariationDependencies } from '../../hooks/queries/useVariationDependencies';
+import { VariationDependencyPanel } from './variation-dependency-panel';
 import ScrollToTop from '../../components/scroll-to-top';
 import './variations.scss';
 
@@ -40,9 +44,10 @@ function Variations(): React.ReactElement {
 const VariationsContent = (): React.ReactElement => {
   const { projectId } = useParams<VariationParams>();
   const { user } = useAuth();
+  const { can } = usePermissions(projectId);
   
   // Get data from our combined context - now including project data
-  const { state, project, isLookupDataLoading } = useVariations();
+  const { state, project, isLookupDataLoading, changeVariationStatus } = useVariations();
   
   // Use our custom grid handlers
   const {
@@ -55,7 +60,9 @@ const VariationsContent = (): React.ReactElement => {
     handleInitNewRow,
     // Status operations
     handleApproveVariation,
-    handleRejectVariation
+    handleRejectVariation,
+    handleSubmitVariation,
+    handleWithdrawVariation
   } = useVariationGridHandlers({
     projectId,
     userToken: user?.token
@@ -65,6 +72,10 @@ const VariationsContent = (): React.ReactElement => {
   const variationColumnsConfig = {
     handleApproveVariation,
     handleRejectVariation,
+    handleSubmitVariation,
+    handleWithdrawVariation,
+    canEdit: can('variations.edit'),
+    canApprove: can('variations.approve'),
     showSuccess: (message: string) => notify({
       message: `Success: ${message}`,
       type: 'success',
@@ -87,6 +98,37 @@ const VariationsContent = (): React.ReactElement => {
     })
   };
   
+  // Dependencies between variations, used for the dependency view and to flag blocked rows
+  const [showDependencies, setShowDependencies] = useState(false);
+  const { data: dependencyNodes = {}, isLoading: isDependencyLoading } =
+    useVariationDependencies(projectId, user?.token);
+
+  // Keep the grid instance so it can be reloaded after approving a chain
+  const gridInstanceRef = useRef<any>(null);
+  const handleGridInitialized = useCallback((e: any) => {
+    gridInstanceRef.current = e.component;
+  }, []);
+
+  const handleApproveInOrder = useCallback((variationGuid: string) => {
+    return changeVariationStatus({ variationId: variationGuid, approve: true, projectGuid: projectId });
+  }, [changeVariationStatus, projectId]);
+
+  const handleChainApproved = useCallback(() => {
+    gridInstanceRef.current?.refresh();
+  }, []);
+
+  // Flag variations that cannot be approved until other variations are approved
+  const handleRowPrepared = useCallback((e: any) => {
+    if (e.rowType !== 'data') return;
+    const node = dependencyNodes[e.data.guid];
+    if (node && node.blockedBy.length > 0) {
+      e.rowElement.classList.add('variation-blocked-row');
+      e.rowElement.title = `Waiting for approval of: ${node.blockedBy
+        .map(guid => dependencyNodes[guid]?.variation.name || guid)
+        .join(', ')}`;
+    }
+  }, [dependencyNodes]);
+
   // Create project filter for grid
   const projectFilter: [string, string, any][] = projectId ? [["projectGuid", "=", projectId]] : [];
   
@@ -123,6 +165,25 @@ const VariationsContent = (): React.ReactElement => {
           {project ? `${project.projectNumber} - ${project.name} Variations` : 'Variations'}
         </div>
         
+        <div className="variations-toolbar">
+          <Button
+            text={showDependencies ? 'Hide dependencies' : 'Show dependencies'}
+            icon="hierarchy"
+            stylingMode="outlined"
+            onClick={() => setShowDependencies(visible => !visible)}
+          />
+        </div>
+        
+        {showDependencies && (
+          <VariationDependencyPanel
+            nodes={dependencyNodes}
+            isLoading={isDependencyLoading}
+            canApprove={can('variations.approve')}
+            onApprove={handleApproveInOrder}
+            onApproved={handleChainApproved}
+          />
+        )}
+        
         <ODataGrid
           title=" "
           endpoint={VARIATIONS_ENDPOINT}
@@ -133,9 +194,12 @@ const VariationsContent = (): React.ReactElement => {
           onRowRemoving={handleRowRemoving}
           onEditorPreparing={handleEditorPreparing}
           onInitNewRow={handleInitNewRow}
-          allowAdding={true}
-          allowUpdating={true}
-          allowDeleting={true}
+          onInitialized={handleGridInitialized}
+          onRowPrepared={handleRowPrepared}
+          allowAdding={can('variations.edit')}
+          allowUpdating={can('variations.edit')}
+          allowDeleting={can('variations.edit')}
+          showHeaderFilter={true}
           defaultFilter={projectFilter}
           // Add default sort to ensure consistent query parameters
           defaultSort={[{ selector: 'created', desc: true }]}
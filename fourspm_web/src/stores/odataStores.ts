@@ -1,7 +1,38 @@
 import ODataStore from 'devextreme/data/odata/store';
+import { Deferred, DxPromise } from 'devextreme/core/utils/deferred';
 import { useAuth } from '../contexts/auth';
+import { sessionService } from '../api/session.service';
 import { useMemo } from 'react';
 
+/**
+ * Retries a store read once the session has been refreshed when the API rejected it with 401
+ * DevExtreme sends no request again by itself, so lookups would otherwise stay empty
+ * @param read Sends the read; its token is taken from the session at the time it is sent
+ * @returns A DevExtreme promise that settles like the first attempt, or like the retry
+ */
+const retryAfterUnauthorized = <T>(read: () => DxPromise<T>): DxPromise<T> => {
+  const rejectedToken = sessionService.getStoredUser()?.token;
+  const result = Deferred<T>();
+  // Every argument is passed on, as load resolves with the total count after the data
+  const resolve = (...args: T[]) => {
+    result.resolve(...args);
+  };
+  const reject = (error: any) => {
+    result.reject(error);
+  };
+
+  read().then(resolve, (error: any) => {
+    if (error?.httpStatus !== 401) {
+      reject(error);
+      return;
+    }
+    sessionService.getTokenAfterUnauthorized(rejectedToken)
+      .then(() => read().then(resolve, reject), reject);
+  });
+
+  return result.promise();
+};
+
 /**
  * Custom hook to create a configured ODataStore with authentication
  * @param endpointPath The full path to the OData endpoint (including base URL)
@@ -14,7 +45,7 @@ export const useODataStore = (endpointPath: string, keyField: string = 'guid', s
   
   // Use useMemo to prevent creating a new store on every render
   return useMemo(() => {
-    return new ODataStore({
+    const store = new ODataStore({
       url: endpointPath, // Endpoint already includes the base URL from api-endpoints.ts
       version: 4,
       key: keyField,
@@ -26,13 +57,15 @@ export const useODataStore = (endpointPath: string, keyField: string = 'guid', s
       },
       ...storeOptions,
       beforeSend: (options: any) => {
-        if (!user?.token) {
+        // The stored token is renewed by a session refresh before the store is recreated
+        const token = sessionService.getStoredUser()?.token || user?.token;
+        if (!token) {
           console.error('No token available');
           return false;
         }
 
         options.headers = {
-          'Authorization': `Bearer ${user?.token}`,
+          'Authorization': `Bearer ${token}`,
           'Accept': 'application/json'
         };
 
@@ -44,14 +77,16 @@ export const useODataStore = (endpointPath: string, keyField: string = 'guid', s
         return true;
       },
       errorHandler: (error) => {
-        if (error.httpStatus === 401) {
-          // Handle token expiration - redirect to login
-          // No need to clear localStorage as AuthContext will handle this
-          window.location.href = '/login';
-          return true;
-        }
-        return false;
+        // Reads are retried once the session is refreshed, see retryAfterUnauthorized
+        return error.httpStatus === 401;
       }
     });
+
+    const load = store.load.bind(store);
+    const byKey = store.byKey.bind(store);
+    store.load = ((options?: any) => retryAfterUnauthorized(() => load(options))) as typeof store.load;
+    store.byKey = ((key: any, extraOptions?: any) => retryAfterUnauthorized(() => byKey(key, extraOptions))) as typeof store.byKey;
+
+    return store;
   }, [endpointPath, keyField, user?.token, storeOptions]); // Only recreate the store when these dependencies change
 };
@@ -1,8 +1,36 @@
+/**
+ * Roles a user can hold, issued in the login token
+ */
+export type UserRole = 'Admin' | 'ProjectManager' | 'DocumentController' | 'Viewer';
+
+/**
+ * Roles a user can be given on a single project
+ */
+export type ProjectRole = Exclude<UserRole, 'Admin'>;
+
 export interface User {
     id: string;
     email: string;
     avatarUrl : string;
     token: string;
+    refreshToken?: string;
     name: string;
+    roles: UserRole[];
   }
-  
\ No newline at end of file
+
+/**
+ * The signed-in user's own profile and preferences
+ */
+export interface UserProfile {
+    firstName: string;
+    lastName: string;
+    email: string;                        // Sign-in name, read-only
+    avatarUrl?: string | null;
+    defaultProjectGuid?: string | null;   // Project opened from the home page
+    timeZone: string;                     // IANA time zone, e.g. Australia/Brisbane
+    notifyVariationSubmitted: boolean;
+    notifyVariationDecided: boolean;      // Client approved or rejected a variation
+    notifyPeriodClosed: boolean;
+    weeklyProgressDigest: boolean;
+  }
+
@@ -7,6 +7,16 @@ export interface ProjectPeriod {
   endDate: Date;
 }
 
+// How often a project's reporting periods roll over - mirrors backend ReportingFrequency enum
+export type ReportingFrequency = 'Weekly' | 'Fortnightly' | 'Monthly' | 'Custom';
+
+// Resolved reporting calendar for a project, built by createPeriodCalendar in utils/period-utils
+export interface PeriodCalendar {
+  frequency: ReportingFrequency;
+  startDate: Date;
+  customCutoffs: Date[]; // Ascending cut-off dates for periods 1..n when frequency is 'Custom'
+}
+
 // Project navigation item interface - simplified project for navigation
 export interface ProjectNavigationItem {
   guid: string;
@@ -44,6 +54,17 @@ export interface DeliverableProgressDto {
   cumulativeEarntPercentage?: number;     // Cumulative percentage earned up to and including current period
   currentPeriodEarntPercentage?: number;  // Percentage earned specifically in the current period
   currentPeriodEarntHours?: number;       // Hours earned in the current period
+  cumulativePlannedPercentage?: number;   // Baseline planned percentage up to and including current period
+  cumulativeActualHours?: number;         // Actual hours booked up to and including current period
+  
+  // Deliverable identification and classification fields returned alongside progress
+  internalDocumentNumber?: string;
+  documentTitle?: string;
+  areaNumber?: string;
+  discipline?: string;
+  documentType?: string;
+  departmentId?: string;
+  deliverableTypeId?: string;
 }
 
 /**
@@ -52,3 +73,9 @@ export interface DeliverableProgressDto {
  * Now directly included in the Deliverable interface from the backend
  */
 export type VariationDeliverableUiStatus = 'Original' | 'Add' | 'Edit' | 'Cancel';
+
+/**
+ * Lifecycle of a variation: Draft → Submitted → ClientApproved / Rejected → Withdrawn
+ * Only draft variations can be edited; once submitted the variation is what the client has seen
+ */
+export type VariationLifecycleStatus = 'Draft' | 'Submitted' | 'ClientApproved' | 'Rejected' | 'Withdrawn';
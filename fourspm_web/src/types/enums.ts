@@ -30,3 +30,49 @@ export const variationStatusEnum = [
   { id: 'UnapprovedCancellation', name: 'Unapproved Cancellation' },
   { id: 'ApprovedCancellation', name: 'Approved Cancellation' }
 ];
+
+// Variation lifecycle status options
+export const variationLifecycleStatuses = [
+  { id: 'Draft', name: 'Draft' },
+  { id: 'Submitted', name: 'Submitted' },
+  { id: 'ClientApproved', name: 'Client Approved' },
+  { id: 'Rejected', name: 'Rejected' },
+  { id: 'Withdrawn', name: 'Withdrawn' }
+];
+
+// Reporting period frequency options
+export const reportingFrequencies = [
+  { id: 'Weekly', name: 'Weekly' },
+  { id: 'Fortnightly', name: 'Fortnightly' },
+  { id: 'Monthly', name: 'Monthly' },
+  { id: 'Custom', name: 'Custom Cut-off Schedule' }
+];
+
+// Baseline comparison change options
+export const baselineChangeTypes = [
+  { id: 'Added', name: 'Added' },
+  { id: 'Removed', name: 'Removed' },
+  { id: 'HoursChanged', name: 'Hours Changed' },
+  { id: 'Unchanged', name: 'Unchanged' }
+];
+
+// Project membership role options
+export const projectMemberRoles = [
+  { id: 'ProjectManager', name: 'Project Manager' },
+  { id: 'DocumentController', name: 'Document Controller' },
+  { id: 'Viewer', name: 'Viewer' }
+];
+
+// Time zone options for user profiles
+export const timeZones = [
+  { id: 'Australia/Perth', name: 'Perth (AWST)' },
+  { id: 'Australia/Darwin', name: 'Darwin (ACST)' },
+  { id: 'Australia/Adelaide', name: 'Adelaide (ACST/ACDT)' },
+  { id: 'Australia/Brisbane', name: 'Brisbane (AEST)' },
+  { id: 'Australia/Sydney', name: 'Sydney (AEST/AEDT)' },
+  { id: 'Australia/Melbourne', name: 'Melbourne (AEST/AEDT)' },
+  { id: 'Australia/Hobart', name: 'Hobart (AEST/AEDT)' },
+  { id: 'Pacific/Auckland', name: 'Auckland (NZST/NZDT)' },
+  { id: 'Asia/Singapore', name: 'Singapore (SGT)' },
+  { id: 'UTC', name: 'UTC' }
+];
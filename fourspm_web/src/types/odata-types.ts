@@ -1,5 +1,6 @@
 // Standard OData entity types that mirror backend entity models
-import { VariationDeliverableUiStatus } from './app-types';
+import { VariationDeliverableUiStatus, VariationLifecycleStatus } from './app-types';
+import { ProjectRole } from '../types';
 
 // Type to represent basic entity with ID
 export type Entity = {
@@ -37,6 +38,9 @@ export interface Project extends Entity {
   deleted?: string | null;
   deletedBy?: string | null;
   progressStart?: string | Date | null;
+  reportingFrequency?: string | null;            // Maps to ReportingFrequency enum in backend
+  reportingPeriodCutoffs?: string[] | null;      // Cut-off dates used when reportingFrequency is 'Custom'
+  contractValue?: number | null;                 // Agreed contract value (see CURRENCY_CODE)
 }
 
 
@@ -116,6 +120,11 @@ export interface Variation extends Entity {
   submittedBy?: string;
   clientApproved?: Date;
   clientApprovedBy?: string;
+  rejected?: Date;
+  rejectedBy?: string;
+  withdrawn?: Date;
+  withdrawnBy?: string;
+  status?: VariationLifecycleStatus;     // Calculated on server from the submitted/approved/rejected/withdrawn stamps
   created: Date;
   createdBy: string;
   updated?: Date;
@@ -123,3 +132,115 @@ export interface Variation extends Entity {
   deleted?: Date;
   deletedBy?: string;
 }
+
+// ProgressPeriodLock interface - mirrors backend ProgressPeriodLockEntity.cs
+// A period is closed while a lock exists for it that has not been reopened
+export interface ProgressPeriodLock extends Entity {
+  projectGuid: string;
+  period: number;
+  closed: Date;
+  closedBy: string;
+  reopened?: Date | null;
+  reopenedBy?: string | null;
+  reopenReason?: string | null;
+}
+
+// PlannedProgress interface - mirrors backend PlannedProgressEntity.cs
+// The baseline: how far through a deliverable is planned to be by the end of each period
+export interface PlannedProgress extends Entity {
+  deliverableGuid: string;
+  period: number;
+  cumulativePlannedPercentage: number;   // Planned % up to and including the period (0..1)
+  created?: Date;
+  createdBy?: string;
+  updated?: Date | null;
+  updatedBy?: string | null;
+}
+
+// DeliverableBaseline interface - mirrors backend DeliverableBaselineEntity.cs
+// A named, frozen copy of a project's deliverables register
+export interface DeliverableBaseline extends Entity {
+  projectGuid: string;
+  name: string;
+  description?: string | null;
+  deliverableCount?: number;     // Calculated on server from the baseline's items
+  totalHours?: number;           // Calculated on server from the baseline's items
+  created: Date;
+  createdBy: string;
+}
+
+// DeliverableBaselineItem interface - mirrors backend DeliverableBaselineItemEntity.cs
+// One deliverable as it stood when the baseline was created
+export interface DeliverableBaselineItem extends Entity {
+  baselineGuid: string;
+  deliverableGuid: string;
+  internalDocumentNumber?: string;
+  clientDocumentNumber?: string;
+  documentTitle?: string;
+  areaNumber?: string;
+  discipline?: string;
+  departmentId?: string;
+  deliverableGateGuid?: string | null;
+  budgetHours?: number;
+  variationHours?: number;
+  totalHours?: number;
+}
+
+// GridLayout interface - mirrors backend GridLayoutEntity.cs
+// Layouts are returned for the current user plus any layouts shared with the team
+export interface GridLayout extends Entity {
+  gridKey: string;       // Identifies the grid (route pattern and title)
+  name: string;
+  state: string;         // Serialized DataGrid state: columns, filters, sort and grouping
+  isShared: boolean;     // Visible to everyone, not just the owner
+  isOwner?: boolean;     // Calculated on server: the current user created this layout
+  created?: Date;
+  createdBy?: string;
+  updated?: Date | null;
+  updatedBy?: string | null;
+}
+
+// ProjectRate interface - mirrors backend ProjectRateEntity.cs
+// A rate applies to a department, a discipline or both; a rate with neither is the project's default rate
+export interface ProjectRate extends Entity {
+  projectGuid: string;
+  departmentId?: string | null;   // Maps to Department enum in backend
+  discipline?: string | null;     // Discipline code
+  hourlyRate: number;
+  created?: Date;
+  createdBy?: string;
+  updated?: Date | null;
+  updatedBy?: string | null;
+}
+
+// ProjectMember interface - mirrors backend ProjectMemberEntity.cs
+// A user assigned to a project; the project role limits what the user can do on that project
+export interface ProjectMember extends Entity {
+  projectGuid: string;
+  email: string;                   // Used to invite the user; the server links it to their account
+  userName?: string | null;        // Calculated on server once the invited user has signed in
+  projectRole: ProjectRole;
+  created?: Date;
+  createdBy?: string;
+  updated?: Date | null;
+  updatedBy?: string | null;
+}
+
+// AuditLog interface - mirrors backend AuditLogEntity.cs
+// One field-level change written by the server whenever an entity is created, updated, deleted or restored
+export interface AuditLog extends Entity {
+  entityName: string;                // Entity set the change belongs to, e.g. 'Deliverables'
+  entityGuid: string;
+  projectGuid?: string | null;
+  action: AuditAction;
+  fieldName?: string | null;         // Null for create, delete and restore entries
+  oldValue?: string | null;          // Values are stored as text as they were at the time
+  newValue?: string | null;
+  changed: Date;
+  changedBy: string;
+  variationGuid?: string | null;     // Set when the change was applied by approving a variation
+  variationName?: string | null;
+}
+
+// Kinds of change recorded in the audit log
+export type AuditAction = 'Created' | 'Updated' | 'Deleted' | 'Restored';
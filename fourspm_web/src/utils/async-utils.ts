@@ -0,0 +1,20 @@
+/**
+ * Runs an async function over items with a limited number of calls in flight
+ * Used to spread many API requests out instead of sending them all at once
+ * @param items The items to process
+ * @param limit The most calls running at the same time
+ * @param fn The async function to call for each item
+ * @returns The results in the order of the items
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,122 @@
+import { DeliverableBaselineItem } from '../types/odata-types';
+
+/**
+ * How a deliverable has changed since a baseline
+ */
+export type BaselineChangeType = 'Added' | 'Removed' | 'HoursChanged' | 'Unchanged';
+
+/**
+ * The deliverable fields compared against a baseline
+ */
+export interface ComparedDeliverable {
+  guid: string;
+  internalDocumentNumber?: string;
+  clientDocumentNumber?: string;
+  documentTitle?: string;
+  areaNumber?: string;
+  discipline?: string;
+  totalHours?: number;
+}
+
+/**
+ * One row of a baseline comparison
+ */
+export interface BaselineComparisonRow {
+  deliverableGuid: string;
+  change: BaselineChangeType;
+  internalDocumentNumber: string;
+  clientDocumentNumber: string;
+  documentTitle: string;
+  areaNumber: string;
+  discipline: string;
+  baselineHours: number;
+  currentHours: number;
+  hoursDelta: number;          // currentHours - baselineHours
+}
+
+/**
+ * Totals of a baseline comparison
+ */
+export interface BaselineComparisonSummary {
+  addedCount: number;
+  removedCount: number;
+  hoursChangedCount: number;
+  unchangedCount: number;
+  baselineHours: number;
+  currentHours: number;
+  hoursDelta: number;
+}
+
+// Hours within this margin are treated as unchanged, so rounding on the server is not reported as scope change
+const HOURS_TOLERANCE = 0.005;
+
+/**
+ * Compares the current deliverables register against a baseline
+ * Deliverables are matched by GUID, so renumbered deliverables are still recognised
+ * @param current The project's current deliverables
+ * @param baselineItems The deliverables captured in the baseline
+ * @returns One row per deliverable in either list, added and removed rows first
+ */
+export const compareToBaseline = (
+  current: ComparedDeliverable[],
+  baselineItems: DeliverableBaselineItem[]
+): BaselineComparisonRow[] => {
+  const baselineByGuid = new Map(baselineItems.map(item => [item.deliverableGuid, item]));
+  const currentGuids = new Set(current.map(deliverable => deliverable.guid));
+
+  const currentRows = current.map<BaselineComparisonRow>(deliverable => {
+    const baseline = baselineByGuid.get(deliverable.guid);
+    const baselineHours = baseline?.totalHours || 0;
+    const currentHours = deliverable.totalHours || 0;
+    const hoursDelta = currentHours - baselineHours;
+
+    return {
+      deliverableGuid: deliverable.guid,
+      change: !baseline ? 'Added' : Math.abs(hoursDelta) > HOURS_TOLERANCE ? 'HoursChanged' : 'Unchanged',
+      internalDocumentNumber: deliverable.internalDocumentNumber || '',
+      clientDocumentNumber: deliverable.clientDocumentNumber || '',
+      documentTitle: deliverable.documentTitle || '',
+      areaNumber: deliverable.areaNumber || '',
+      discipline: deliverable.discipline || '',
+      baselineHours,
+      currentHours,
+      hoursDelta
+    };
+  });
+
+  const removedRows = baselineItems
+    .filter(item => !currentGuids.has(item.deliverableGuid))
+    .map<BaselineComparisonRow>(item => ({
+      deliverableGuid: item.deliverableGuid,
+      change: 'Removed',
+      internalDocumentNumber: item.internalDocumentNumber || '',
+      clientDocumentNumber: item.clientDocumentNumber || '',
+      documentTitle: item.documentTitle || '',
+      areaNumber: item.areaNumber || '',
+      discipline: item.discipline || '',
+      baselineHours: item.totalHours || 0,
+      currentHours: 0,
+      hoursDelta: -(item.totalHours || 0)
+    }));
+
+  const changeOrder: BaselineChangeType[] = ['Added', 'Removed', 'HoursChanged', 'Unchanged'];
+  return [...currentRows, ...removedRows].sort((a, b) =>
+    changeOrder.indexOf(a.change) - changeOrder.indexOf(b.change) ||
+    a.internalDocumentNumber.localeCompare(b.internalDocumentNumber)
+  );
+};
+
+/**
+ * Totals a baseline comparison
+ * @param rows The comparison rows
+ * @returns Counts of each kind of change and the hours before and after
+ */
+export const summarizeBaselineComparison = (rows: BaselineComparisonRow[]): BaselineComparisonSummary => ({
+  addedCount: rows.filter(row => row.change === 'Added').length,
+  removedCount: rows.filter(row => row.change === 'Removed').length,
+  hoursChangedCount: rows.filter(row => row.change === 'HoursChanged').length,
+  unchangedCount: rows.filter(row => row.change === 'Unchanged').length,
+  baselineHours: rows.reduce((sum, row) => sum + row.baselineHours, 0),
+  currentHours: rows.reduce((sum, row) => sum + row.currentHours, 0),
+  hoursDelta: rows.reduce((sum, row) => sum + row.hoursDelta, 0)
+});
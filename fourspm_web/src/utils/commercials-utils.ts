@@ -0,0 +1,74 @@
+import { ProjectRate } from '../types/odata-types';
+import { DeliverableProgressDto } from '../types/app-types';
+import { findHourlyRate } from './rate-utils';
+
+/**
+ * The deliverable fields needed to cost a project
+ */
+export interface CostedDeliverable {
+  guid: string;
+  departmentId?: string | null;
+  discipline?: string | null;
+  totalHours?: number;
+  approvedVariationHours?: number;
+}
+
+/**
+ * Roll-up of a project's deliverable hours and their value at the project's rates
+ */
+export interface ProjectCommercialsRollUp {
+  totalHours: number;               // Budget and variation hours of every deliverable
+  budgetCost: number;               // totalHours valued at the project's rates
+  earnedHours: number;              // Hours earned up to and including the period
+  earnedValue: number;              // earnedHours valued at the project's rates
+  approvedVariationHours: number;   // Hours added (or removed) by approved variations
+  approvedVariationsValue: number;  // approvedVariationHours valued at the project's rates
+  percentComplete: number;          // earnedHours / totalHours (0..1)
+  unratedCount: number;             // Deliverables left out of the values because no rate applies
+}
+
+/**
+ * Works out the budget cost, earned value and approved variations value of a project
+ * @param deliverables The project's deliverables register
+ * @param progressRows Deliverable progress for the period to measure earned value at
+ * @param rates The project's rate table
+ * @returns Hours and their values across the project
+ */
+export const summarizeProjectCommercials = (
+  deliverables: CostedDeliverable[],
+  progressRows: DeliverableProgressDto[],
+  rates: ProjectRate[]
+): ProjectCommercialsRollUp => {
+  const earntPercentages = new Map(progressRows.map(row => [row.guid, row.cumulativeEarntPercentage || 0]));
+
+  return deliverables.reduce<ProjectCommercialsRollUp>((rollUp, deliverable) => {
+    const totalHours = deliverable.totalHours || 0;
+    const earnedHours = totalHours * (earntPercentages.get(deliverable.guid) || 0);
+    const approvedVariationHours = deliverable.approvedVariationHours || 0;
+    const rate = findHourlyRate(rates, deliverable.departmentId, deliverable.discipline);
+
+    rollUp.totalHours += totalHours;
+    rollUp.earnedHours += earnedHours;
+    rollUp.approvedVariationHours += approvedVariationHours;
+    rollUp.percentComplete = rollUp.totalHours > 0 ? rollUp.earnedHours / rollUp.totalHours : 0;
+
+    if (rate === null) {
+      rollUp.unratedCount += totalHours !== 0 || approvedVariationHours !== 0 ? 1 : 0;
+      return rollUp;
+    }
+
+    rollUp.budgetCost += totalHours * rate;
+    rollUp.earnedValue += earnedHours * rate;
+    rollUp.approvedVariationsValue += approvedVariationHours * rate;
+    return rollUp;
+  }, {
+    totalHours: 0,
+    budgetCost: 0,
+    earnedHours: 0,
+    earnedValue: 0,
+    approvedVariationHours: 0,
+    approvedVariationsValue: 0,
+    percentComplete: 0,
+    unratedCount: 0
+  });
+};
@@ -0,0 +1,91 @@
+import { NavigationItem } from '../app-navigation';
+import { Project, ProjectMember, Variation } from '../types/odata-types';
+import { DeliverableProgressDto } from '../types/app-types';
+import { summarizeProgressPeriod } from './progress-summary-utils';
+import { getVariationLifecycleStatus } from './variation-lifecycle-utils';
+
+// Projects in these statuses are finished and left off the dashboard
+const INACTIVE_PROJECT_STATUSES = ['Closed', 'Cancelled'];
+
+// Project pages offered as quick links, the same pages as in the project navigation
+const QUICK_LINK_PAGES = [
+  { text: 'Deliverables', page: 'deliverables', icon: 'bulletlist' },
+  { text: 'Progress Tracking', page: 'progress', icon: 'chart' },
+  { text: 'Variations', page: 'variations', icon: 'detailslayout' }
+];
+
+/**
+ * A project as it appears on the dashboard
+ */
+export interface DashboardProjectInfo {
+  guid: string;
+  displayName: string;            // "<project number> - <name>"
+  projectStatus: string;          // Status id from projectStatuses
+  quickLinks: NavigationItem[];   // Deliverables, progress and variations pages
+}
+
+/**
+ * Key figures for one project on the dashboard
+ */
+export interface DashboardProject extends DashboardProjectInfo {
+  currentPeriod: number | null;      // Null when the project has no progress start date
+  totalHours: number;                // Budgeted hours of every deliverable
+  earnedPercentage: number;          // Hours earned up to and including the current period / totalHours (0..1)
+  hasProgressThisPeriod: boolean;    // Any deliverable earned (or lost) progress in the current period
+  unapprovedVariations: Variation[]; // Draft and submitted variations
+}
+
+/**
+ * Picks the user's active projects
+ * @param projects Every project
+ * @param memberships The user's project memberships; null includes every project (admins)
+ * @returns The projects the user can open that are not closed or cancelled
+ */
+export const getActiveDashboardProjects = (
+  projects: Project[],
+  memberships: ProjectMember[] | null
+): DashboardProjectInfo[] => {
+  const memberProjectGuids = new Set(memberships?.map(membership => membership.projectGuid));
+
+  return projects
+    .filter(project => !memberships || memberProjectGuids.has(project.guid))
+    .filter(project => !INACTIVE_PROJECT_STATUSES.includes(project.projectStatus))
+    .map(project => ({
+      guid: project.guid,
+      displayName: `${project.projectNumber} - ${project.name}`,
+      projectStatus: project.projectStatus,
+      quickLinks: QUICK_LINK_PAGES.map(({ text, page, icon }) => ({
+        text,
+        icon,
+        path: `/projects/${project.guid}/${page}`
+      }))
+    }));
+};
+
+/**
+ * Works out a project's dashboard figures from its current period progress and variations
+ * @param project The project to summarise
+ * @param currentPeriod The project's current reporting period, if it has a period calendar
+ * @param progressRows Deliverable progress for the current period
+ * @param variations The project's variations
+ * @returns The project with its key figures
+ */
+export const summarizeDashboardProject = (
+  project: DashboardProjectInfo,
+  currentPeriod: number | null,
+  progressRows: DeliverableProgressDto[],
+  variations: Variation[]
+): DashboardProject => {
+  const summary = summarizeProgressPeriod(currentPeriod ?? 0, progressRows, null);
+
+  return {
+    ...project,
+    currentPeriod,
+    totalHours: summary.totalHours,
+    earnedPercentage: summary.cumulativePercentage,
+    hasProgressThisPeriod: progressRows.some(row => (row.currentPeriodEarntPercentage || 0) !== 0),
+    unapprovedVariations: variations.filter(variation =>
+      ['Draft', 'Submitted'].includes(getVariationLifecycleStatus(variation))
+    )
+  };
+};
@@ -3,9 +3,10 @@ import { User } from '@/types';
 const defaultUser: User = {
   id: '1',
   email: 'user@example.com',
-  avatarUrl: 'https://js.devexpress.com/Demos/WidgetsGallery/JSDemos/images/employees/06.png',
+  avatarUrl: '',
   token: '',
-  name: 'Sandra Adams'
+  name: '',
+  roles: []
 };
 
 export default defaultUser;
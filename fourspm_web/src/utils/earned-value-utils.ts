@@ -0,0 +1,82 @@
+import { DeliverableProgressDto } from '../types/app-types';
+
+/**
+ * Earned value metrics for a set of deliverables at the end of one period, measured in hours
+ */
+export interface EarnedValueMetrics {
+  period: number;
+  periodLabel: string;
+  plannedHours: number;          // BCWS - budgeted cost of work scheduled, from the planned % baseline
+  earnedHours: number;           // BCWP - budgeted cost of work performed, from the cumulative earnt %
+  actualHours: number | null;    // ACWP - actual hours booked, null when none have been entered
+  scheduleVariance: number;      // Earned minus planned hours, over the deliverables with a planned %
+  spi: number | null;            // Schedule performance index over the deliverables with a planned %, null when nothing is planned yet
+  cpi: number | null;            // Cost performance index over the deliverables with actual hours, null without them
+  hasBaseline: boolean;          // At least one deliverable has a planned % for the period
+}
+
+/**
+ * Calculates earned value metrics from deliverable progress rows for one period
+ * @param period The period number
+ * @param rows Deliverable progress rows for the period (already filtered)
+ * @returns Planned, earned and actual hours with the schedule and cost performance indices
+ */
+export const calculateEarnedValue = (
+  period: number,
+  rows: DeliverableProgressDto[]
+): EarnedValueMetrics => {
+  let plannedHours = 0;
+  let earnedHours = 0;
+  let actualHours: number | null = null;
+  let earnedHoursWithBaseline = 0; // Earned hours of the deliverables that have a planned %, for the SPI
+  let earnedHoursWithActuals = 0;  // Earned hours of the deliverables that have actual hours, for the CPI
+  let hasBaseline = false;
+
+  for (const row of rows) {
+    const totalHours = row.totalHours || 0;
+    const rowEarnedHours = totalHours * (row.cumulativeEarntPercentage || 0);
+    earnedHours += rowEarnedHours;
+
+    if (row.cumulativePlannedPercentage !== null && row.cumulativePlannedPercentage !== undefined) {
+      plannedHours += totalHours * row.cumulativePlannedPercentage;
+      earnedHoursWithBaseline += rowEarnedHours;
+      hasBaseline = true;
+    }
+
+    if (row.cumulativeActualHours !== null && row.cumulativeActualHours !== undefined) {
+      actualHours = (actualHours || 0) + row.cumulativeActualHours;
+      earnedHoursWithActuals += rowEarnedHours;
+    }
+  }
+
+  return {
+    period,
+    periodLabel: `P${period}`,
+    plannedHours,
+    earnedHours,
+    actualHours,
+    scheduleVariance: earnedHoursWithBaseline - plannedHours,
+    spi: plannedHours > 0 ? earnedHoursWithBaseline / plannedHours : null,
+    cpi: actualHours ? earnedHoursWithActuals / actualHours : null,
+    hasBaseline
+  };
+};
+
+/**
+ * Formats a performance index for display
+ * @param value The SPI or CPI
+ * @returns The index to two decimals, or a dash when it cannot be calculated
+ */
+export const formatPerformanceIndex = (value: number | null): string =>
+  value === null ? '-' : value.toFixed(2);
+
+/**
+ * Gets the CSS modifier for a performance index: behind (below 1), on track or ahead
+ * @param value The SPI or CPI
+ * @returns 'behind', 'ahead' or an empty string
+ */
+export const getPerformanceIndexClass = (value: number | null): string => {
+  if (value === null) return '';
+  if (value < 0.95) return 'behind';
+  return value > 1.05 ? 'ahead' : '';
+};
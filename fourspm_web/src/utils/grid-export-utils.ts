@@ -0,0 +1,137 @@
+import { Workbook, Worksheet } from 'exceljs';
+import { saveAs } from 'file-saver';
+import { exportDataGrid } from 'devextreme/excel_exporter';
+import dxDataGrid from 'devextreme/ui/data_grid';
+import { formatDateOnly } from './period-utils';
+
+/**
+ * File formats a grid can be exported to
+ */
+export type GridExportFormat = 'xlsx' | 'csv';
+
+/**
+ * Builds a safe file name from a grid title, stamped with today's date
+ * @param title The grid title
+ * @param format The file extension
+ * @returns File name such as "Deliverables_2024-05-01.xlsx"
+ */
+export const getExportFileName = (title: string, format: GridExportFormat): string => {
+  const baseName = title.replace(/[\\/:*?"<>|]+/g, '').trim().replace(/\s+/g, '_') || 'Export';
+  const date = formatDateOnly(new Date());
+  return `${baseName}_${date}.${format}`;
+};
+
+/**
+ * Formats an exported date as the wall-clock value the grid shows
+ * The grid exporter stores local date and time in the date's UTC fields, so those are read as-is
+ * @param date The ExcelJS cell date
+ * @param includeTime Add the time, for datetime columns
+ * @returns Date such as "2024-05-01", or "2024-05-01 14:30" with the time
+ */
+const formatExportedDate = (date: Date, includeTime: boolean): string => {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return includeTime ? `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` : day;
+};
+
+/**
+ * Converts a worksheet cell value to the text written to a CSV file
+ * @param value The ExcelJS cell value
+ * @param includeTime Whether a date value comes from a datetime column
+ * @returns Quoted CSV field
+ */
+const toCsvField = (value: any, includeTime: boolean): string => {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = formatExportedDate(value, includeTime);
+  } else if (typeof value === 'object' && 'richText' in value) {
+    text = value.richText.map((part: { text: string }) => part.text).join('');
+  } else {
+    text = String(value);
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Serializes a worksheet to CSV text
+ * @param worksheet The worksheet filled by the grid exporter
+ * @param skippedRows Worksheet row numbers to leave out (e.g. summary rows)
+ * @param dateTimeColumns Worksheet column numbers of datetime grid columns
+ * @returns CSV content with one line per worksheet row
+ */
+const worksheetToCsv = (worksheet: Worksheet, skippedRows: Set<number>, dateTimeColumns: Set<number>): string => {
+  const lines: string[] = [];
+  const columnCount = worksheet.columnCount;
+
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    if (skippedRows.has(rowNumber)) return;
+
+    const fields: string[] = [];
+    for (let columnIndex = 1; columnIndex <= columnCount; columnIndex++) {
+      fields.push(toCsvField(row.getCell(columnIndex).value, dateTimeColumns.has(columnIndex)));
+    }
+    lines.push(fields.join(','));
+  });
+
+  return lines.join('\r\n');
+};
+
+/**
+ * Gets a valid worksheet name from a grid title
+ * Excel does not allow [ ] : * ? / \ in sheet names and limits them to 31 characters
+ * @param title The grid title
+ * @returns The worksheet name
+ */
+const getWorksheetName = (title: string): string =>
+  title.replace(/[[\]:*?/\\]/g, '').trim().substring(0, 31) || 'Sheet1';
+
+/**
+ * Exports every row of a DataGrid to an Excel or CSV file
+ * The grid exporter loads all pages using the grid's current filter and sort,
+ * writes lookup columns as their display text and applies each column's customizeText
+ * @param component The DataGrid instance
+ * @param title The grid title, used for the file and worksheet names
+ * @param format The file format to produce
+ */
+export const exportGrid = async (
+  component: dxDataGrid,
+  title: string,
+  format: GridExportFormat
+): Promise<void> => {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(getWorksheetName(title));
+  const summaryRows = new Set<number>();
+  const dateTimeColumns = new Set<number>();
+
+  await exportDataGrid({
+    component,
+    worksheet,
+    autoFilterEnabled: format === 'xlsx',
+    customizeCell: ({ gridCell, excelCell }) => {
+      // Summary rows only make sense in a spreadsheet, so remember them to leave out of CSV
+      if (gridCell?.rowType === 'totalFooter') {
+        summaryRows.add(Number(excelCell.row));
+      }
+      // Only datetime columns keep their time in CSV; date columns are written as the day alone
+      if (gridCell?.column?.dataType === 'datetime') {
+        dateTimeColumns.add(Number(excelCell.fullAddress.col));
+      }
+    }
+  });
+
+  if (format === 'xlsx') {
+    const buffer = await workbook.xlsx.writeBuffer();
+    saveAs(
+      new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      getExportFileName(title, format)
+    );
+  } else {
+    // Prefix with a byte order mark so Excel opens the file as UTF-8
+    saveAs(
+      new Blob(['\ufeff' + worksheetToCsv(worksheet, summaryRows, dateTimeColumns)], { type: 'text/csv;charset=utf-8' }),
+      getExportFileName(title, format)
+    );
+  }
+};
@@ -27,3 +27,20 @@ export const extractRowValue = (responseData: any, fieldName: string, defaultVal
   // Direct access
   return responseData[fieldName] !== undefined ? responseData[fieldName] : defaultValue;
 };
+
+/**
+ * Gets the entity set URL an OData grid endpoint reads from, without functions or query options
+ * e.g. .../odata/v1/Deliverables for .../odata/v1/Deliverables/GetWithProgressPercentages(...)
+ * @param endpoint The grid's endpoint
+ * @returns The entity set URL, or undefined for non-OData endpoints
+ */
+export const getEntitySetUrl = (endpoint?: string): string | undefined =>
+  endpoint?.match(/^(.*\/odata\/v\d+\/[A-Za-z]+)/)?.[1];
+
+/**
+ * Gets the name of the entity set an OData grid endpoint reads from, e.g. 'Deliverables'
+ * @param endpoint The grid's endpoint
+ * @returns The entity set name, or undefined for non-OData endpoints
+ */
+export const getEntitySetName = (endpoint?: string): string | undefined =>
+  getEntitySetUrl(endpoint)?.split('/').pop();
@@ -0,0 +1,153 @@
+import { Workbook } from 'exceljs';
+
+/**
+ * A row of an import file with its row number in the file (1-based)
+ */
+export interface ImportRow {
+  rowNumber: number;
+  values: string[];
+}
+
+/**
+ * Tabular content read from an import file
+ * Every cell is returned as trimmed text so callers can map and convert values themselves
+ */
+export interface ImportSheet {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+/**
+ * Parses CSV text into rows of fields
+ * Supports quoted fields containing commas, escaped quotes ("") and line breaks
+ * @param text The CSV file content
+ * @returns Rows of raw field values, numbered by the line each row starts on
+ */
+export const parseCsv = (text: string): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quoted field can span lines, so rows and lines are counted separately
+  let line = 1;
+  let rowStartLine = 1;
+
+  // Strip a UTF-8 byte order mark written by Excel
+  const content = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ rowNumber: rowStartLine, values: row });
+      row = [];
+      field = '';
+      line++;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ rowNumber: rowStartLine, values: row });
+  }
+
+  return rows;
+};
+
+/**
+ * Converts an ExcelJS cell value to plain text
+ * @param value The cell value (string, number, date, rich text, formula result or hyperlink)
+ * @returns The value as text
+ */
+const cellValueToText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part: { text: string }) => part.text).join('');
+    if ('result' in value) return cellValueToText(value.result);
+    if ('text' in value) return String(value.text);
+  }
+  return String(value);
+};
+
+/**
+ * Reads the first worksheet of an XLSX file
+ * @param buffer The file content
+ * @returns Rows of cell text with their worksheet row numbers
+ */
+const readXlsxRows = async (buffer: ArrayBuffer): Promise<ImportRow[]> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('The workbook does not contain any worksheets');
+  }
+
+  const rows: ImportRow[] = [];
+  const columnCount = worksheet.columnCount;
+  worksheet.eachRow({ includeEmpty: false }, row => {
+    const values: string[] = [];
+    for (let columnIndex = 1; columnIndex <= columnCount; columnIndex++) {
+      values.push(cellValueToText(row.getCell(columnIndex).value));
+    }
+    rows.push({ rowNumber: row.number, values });
+  });
+
+  return rows;
+};
+
+/**
+ * Reads an XLSX or CSV file into a header row and data rows
+ * The first non-empty row is treated as the header; blank rows are skipped, and every data row
+ * keeps its row number in the file so messages can point to it
+ * @param file The file chosen by the user
+ * @returns The headers and data rows of the file
+ */
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let rows: ImportRow[];
+  if (extension === 'xlsx') {
+    rows = await readXlsxRows(await file.arrayBuffer());
+  } else if (extension === 'csv') {
+    rows = parseCsv(await file.text());
+  } else {
+    throw new Error('Only .xlsx and .csv files can be imported');
+  }
+
+  const nonEmptyRows = rows
+    .map(row => ({ ...row, values: row.values.map(value => value.trim()) }))
+    .filter(row => row.values.some(value => value !== ''));
+
+  if (nonEmptyRows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const [headers, ...dataRows] = nonEmptyRows;
+  return {
+    headers: headers.values,
+    rows: dataRows
+  };
+};
@@ -43,3 +43,18 @@ export const createProjectFilter = (projectId: string, fieldName: string = 'proj
 export const createProjectFilterParam = (projectId: string, fieldName: string = 'projectGuid'): string => {
   return createODataFilterParam(createProjectFilter(projectId, fieldName));
 };
+
+/**
+ * Creates a DevExtreme DataSource filter matching a field to any of several values
+ * An empty list matches nothing rather than everything
+ * @param field Field name to filter on
+ * @param values Values to match
+ * @returns Filter expression for a DataSource or ODataGrid defaultFilter
+ */
+export const createAnyOfFilter = (field: string, values: string[]): any[] => {
+  if (values.length === 0) {
+    return [field, '=', null];
+  }
+
+  return values.flatMap((value, index) => index === 0 ? [[field, '=', value]] : ['or', [field, '=', value]]);
+};
@@ -1,19 +1,198 @@
+import { ProjectPeriod, PeriodCalendar, ReportingFrequency } from '../types/app-types';
+
 /**
- * Calculate the current reporting period based on project start date
- * @param progressStart The project's progress start date
+ * Reporting period calendar
+ *
+ * Single source of truth for mapping period numbers to dates. Period 0 is the
+ * project's progress start date; every later period N runs from the day after
+ * the previous cut-off up to and including its own cut-off date, which is the
+ * "progress date" shown against that period.
+ */
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a date as a local calendar day
+ * ISO strings are read by their year, month and day; new Date('YYYY-MM-DD') would give
+ * UTC midnight, which is the previous day in timezones west of UTC
+ * @param value A Date, an ISO date ('YYYY-MM-DD', optionally with a time) or other date text
+ * @returns A date at local midnight (invalid when the value cannot be parsed)
+ */
+export const parseDateOnly = (value: Date | string): Date => {
+  const isoDate = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})/) : null;
+  if (isoDate) {
+    return new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]));
+  }
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Formats a date as an ISO calendar day ('YYYY-MM-DD') in local time
+ * @param date The date to format
+ * @returns The date part only, without a timezone shift
+ */
+export const formatDateOnly = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+
+/**
+ * Adds whole calendar days to a date
+ */
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Adds calendar months to a date, clamping to the end of shorter months
+ * (e.g. 31-Jan + 1 month = 28/29-Feb) so the cut-off day never drifts
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const targetMonth = date.getMonth() + months;
+  const lastDayOfTarget = new Date(date.getFullYear(), targetMonth + 1, 0).getDate();
+  return new Date(date.getFullYear(), targetMonth, Math.min(date.getDate(), lastDayOfTarget));
+};
+
+/**
+ * Builds a period calendar from a project's reporting configuration
+ * @param project Project (or project-like object) with progress start and reporting settings
+ * @returns The period calendar, or null when the project has no progress start date
+ */
+export const createPeriodCalendar = (project: {
+  progressStart?: string | Date | null;
+  reportingFrequency?: ReportingFrequency | string | null;
+  reportingPeriodCutoffs?: (string | Date)[] | null;
+} | null | undefined): PeriodCalendar | null => {
+  if (!project?.progressStart) return null;
+
+  const startDate = parseDateOnly(project.progressStart);
+  const frequency = (project.reportingFrequency || 'Weekly') as ReportingFrequency;
+
+  // Custom cut-offs are only meaningful after the start date, in ascending order
+  const customCutoffs = (project.reportingPeriodCutoffs || [])
+    .map(parseDateOnly)
+    .filter(date => !isNaN(date.getTime()) && date > startDate)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return { frequency, startDate, customCutoffs };
+};
+
+/**
+ * Returns the highest period number the calendar defines
+ * @param calendar The period calendar
+ * @returns The last period for custom schedules, or null when periods are unbounded
+ */
+export const getLastPeriod = (calendar: PeriodCalendar): number | null => {
+  return calendar.frequency === 'Custom' ? calendar.customCutoffs.length : null;
+};
+
+/**
+ * Gets the cut-off (progress) date for a period
+ * @param period The period number (0 = progress start)
+ * @param calendar The period calendar
+ * @returns The cut-off date, or null if the period is outside a custom schedule
+ */
+export const getPeriodCutoffDate = (period: number, calendar: PeriodCalendar): Date | null => {
+  if (period < 0) return null;
+  if (period === 0) return new Date(calendar.startDate);
+
+  switch (calendar.frequency) {
+    case 'Weekly':
+      return addDays(calendar.startDate, period * 7);
+    case 'Fortnightly':
+      return addDays(calendar.startDate, period * 14);
+    case 'Monthly':
+      return addMonths(calendar.startDate, period);
+    case 'Custom':
+      return calendar.customCutoffs[period - 1] ? new Date(calendar.customCutoffs[period - 1]) : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Gets the full date range of a period
+ * @param period The period number
+ * @param calendar The period calendar
+ * @returns The period with its start and end (cut-off) dates, or null if undefined
+ */
+export const getProjectPeriod = (period: number, calendar: PeriodCalendar): ProjectPeriod | null => {
+  const endDate = getPeriodCutoffDate(period, calendar);
+  if (!endDate) return null;
+
+  // Period 0 is a single day; later periods start the day after the previous cut-off
+  const previousCutoff = period > 0 ? getPeriodCutoffDate(period - 1, calendar) : null;
+  const startDate = previousCutoff ? addDays(previousCutoff, 1) : new Date(endDate);
+
+  return { periodNumber: period, startDate, endDate };
+};
+
+/**
+ * Finds the period a given date falls into
+ * @param date The date to locate
+ * @param calendar The period calendar
+ * @returns The period number whose range contains the date (clamped to the calendar bounds)
+ */
+export const getPeriodForDate = (date: Date, calendar: PeriodCalendar): number => {
+  const target = parseDateOnly(date);
+  if (target <= calendar.startDate) return 0;
+
+  switch (calendar.frequency) {
+    case 'Weekly':
+    case 'Fortnightly': {
+      const intervalDays = calendar.frequency === 'Weekly' ? 7 : 14;
+      const daysSinceStart = Math.round((target.getTime() - calendar.startDate.getTime()) / DAY_IN_MS);
+      return Math.ceil(daysSinceStart / intervalDays);
+    }
+    case 'Monthly': {
+      // Estimate from the month difference, then step forward until the cut-off covers the date
+      let period = Math.max(1,
+        (target.getFullYear() - calendar.startDate.getFullYear()) * 12 +
+        (target.getMonth() - calendar.startDate.getMonth()) - 1);
+      while ((getPeriodCutoffDate(period, calendar) as Date) < target) {
+        period++;
+      }
+      return period;
+    }
+    case 'Custom': {
+      const index = calendar.customCutoffs.findIndex(cutoff => cutoff >= target);
+      return index === -1 ? calendar.customCutoffs.length : index + 1;
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Calculate the current reporting period based on the project's period calendar
+ * @param calendar The project's period calendar
  * @returns The current period number
  */
-export const calculateCurrentPeriod = (progressStart: Date): number => {
-  // Calculate months between start date and now
-  const now = new Date();
-  const startYear = progressStart.getFullYear();
-  const startMonth = progressStart.getMonth();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth();
-  
-  // Calculate the difference in months
-  const monthsDiff = (currentYear - startYear) * 12 + (currentMonth - startMonth);
-  
-  // Add 1 to get the period number (1-based)
-  return monthsDiff + 1;
+export const calculateCurrentPeriod = (calendar: PeriodCalendar): number => {
+  return getPeriodForDate(new Date(), calendar);
+};
+
+/**
+ * Describes the calendar's period length for display next to the period number
+ * @param calendar The period calendar, if known
+ * @returns A short human readable description
+ */
+export const getPeriodDescription = (calendar: PeriodCalendar | null): string => {
+  switch (calendar?.frequency) {
+    case 'Weekly':
+      return 'weeks from project start';
+    case 'Fortnightly':
+      return 'fortnights from project start';
+    case 'Monthly':
+      return 'months from project start';
+    case 'Custom':
+      return 'custom cut-off schedule';
+    default:
+      return 'periods from project start';
+  }
 };
@@ -0,0 +1,50 @@
+/**
+ * Escapes text for inclusion in generated report HTML
+ * @param value The value to escape
+ * @returns HTML-safe text
+ */
+export const escapeHtml = (value: unknown): string => {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Plain styles for printed reports; the app theme is not loaded in the print window
+const REPORT_STYLES = `
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  .report-subtitle { color: #666; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+  th { background: #f2f2f2; }
+  td.number, th.number { text-align: right; }
+  tr.total td { font-weight: bold; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Opens a report in a new window and shows the browser's print dialog
+ * The user can print it or save it as a PDF from there
+ * @param title Document title, also used as the default PDF file name
+ * @param bodyHtml Report content (values must already be escaped)
+ * @returns false when the browser blocked the report window
+ */
+export const printHtmlReport = (title: string, bodyHtml: string): boolean => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) {
+    return false;
+  }
+
+  reportWindow.document.open();
+  reportWindow.document.write(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+    `<style>${REPORT_STYLES}</style></head><body>${bodyHtml}</body></html>`
+  );
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+};
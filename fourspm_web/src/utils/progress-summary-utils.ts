@@ -0,0 +1,91 @@
+import { DeliverableProgressDto, ProjectPeriod } from '../types/app-types';
+
+/**
+ * Filter criteria for narrowing deliverable progress to part of a project
+ * Empty values mean "all"
+ */
+export interface ProgressFilter {
+  discipline?: string | null;
+  areaNumber?: string | null;
+  deliverableTypeId?: string | null;
+}
+
+/**
+ * Roll-up of deliverable progress for a single reporting period
+ */
+export interface PeriodProgressSummary {
+  period: number;
+  periodLabel: string;
+  periodEndDate: Date | null;
+  totalHours: number;            // Budgeted hours of the deliverables in scope
+  periodEarntHours: number;      // Hours earned within the period
+  cumulativeEarntHours: number;  // Hours earned up to and including the period
+  cumulativePercentage: number;  // cumulativeEarntHours / totalHours (0..1)
+}
+
+/**
+ * Applies a progress filter to a set of deliverable progress rows
+ * @param rows Deliverable progress rows for a period
+ * @param filter Discipline, area and deliverable type criteria
+ * @returns The rows that match every provided criterion
+ */
+export const filterProgressRows = (
+  rows: DeliverableProgressDto[],
+  filter: ProgressFilter
+): DeliverableProgressDto[] => {
+  return rows.filter(row =>
+    (!filter.discipline || row.discipline === filter.discipline) &&
+    (!filter.areaNumber || row.areaNumber === filter.areaNumber) &&
+    (!filter.deliverableTypeId || String(row.deliverableTypeId) === String(filter.deliverableTypeId))
+  );
+};
+
+/**
+ * Summarises deliverable progress rows for one period
+ * @param period The period number
+ * @param rows Deliverable progress rows for the period (already filtered)
+ * @param periodInfo Date range of the period from the period calendar
+ * @returns Totals of budgeted and earned hours for the period
+ */
+export const summarizeProgressPeriod = (
+  period: number,
+  rows: DeliverableProgressDto[],
+  periodInfo: ProjectPeriod | null
+): PeriodProgressSummary => {
+  const totalHours = rows.reduce((sum, row) => sum + (row.totalHours || 0), 0);
+  const periodEarntHours = rows.reduce((sum, row) => sum + (row.currentPeriodEarntHours || 0), 0);
+  const cumulativeEarntHours = rows.reduce(
+    (sum, row) => sum + (row.totalHours || 0) * (row.cumulativeEarntPercentage || 0),
+    0
+  );
+
+  return {
+    period,
+    periodLabel: `P${period}`,
+    periodEndDate: periodInfo?.endDate || null,
+    totalHours,
+    periodEarntHours,
+    cumulativeEarntHours,
+    cumulativePercentage: totalHours > 0 ? cumulativeEarntHours / totalHours : 0
+  };
+};
+
+/**
+ * Collects the distinct, non-empty values of a field across progress rows
+ * @param rows Deliverable progress rows
+ * @param field The field to collect
+ * @returns Sorted distinct values, for use as filter options
+ */
+export const getDistinctValues = (
+  rows: DeliverableProgressDto[],
+  field: keyof DeliverableProgressDto
+): string[] => {
+  const values = new Set<string>();
+  rows.forEach(row => {
+    const value = row[field];
+    if (value !== null && value !== undefined && value !== '') {
+      values.add(String(value));
+    }
+  });
+  return Array.from(values).sort();
+};
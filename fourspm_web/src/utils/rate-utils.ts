@@ -0,0 +1,50 @@
+import { ProjectRate } from '../types/odata-types';
+
+/**
+ * ISO 4217 code of the currency all rates, costs and contract values are held in
+ */
+export const CURRENCY_CODE = 'AUD';
+
+/**
+ * DevExtreme number format for currency editors and grid summaries
+ */
+export const CURRENCY_FORMAT = { type: 'currency', currency: CURRENCY_CODE, precision: 2 };
+
+/**
+ * Finds the hourly rate that applies to a deliverable
+ * The most specific rate wins: department and discipline, then discipline, then department,
+ * then the project's default rate (a rate with neither)
+ * @param rates The project's rate table
+ * @param departmentId The deliverable's department
+ * @param discipline The deliverable's discipline code
+ * @returns The hourly rate, or null when the rate table has no rate that applies
+ */
+export const findHourlyRate = (
+  rates: ProjectRate[],
+  departmentId: string | null | undefined,
+  discipline: string | null | undefined
+): number | null => {
+  const matches = (rate: ProjectRate, byDepartment: boolean, byDiscipline: boolean) =>
+    (byDepartment ? !!departmentId && rate.departmentId === departmentId : !rate.departmentId) &&
+    (byDiscipline ? !!discipline && rate.discipline === discipline : !rate.discipline);
+
+  const rate =
+    rates.find(item => matches(item, true, true)) ||
+    rates.find(item => matches(item, false, true)) ||
+    rates.find(item => matches(item, true, false)) ||
+    rates.find(item => matches(item, false, false));
+
+  return rate ? rate.hourlyRate : null;
+};
+
+/**
+ * Formats a dollar amount for display
+ * @param value The amount
+ * @param signed Show a + sign on positive amounts (for changes)
+ * @returns The formatted amount, e.g. "+$1,250.00"
+ */
+export const formatCurrency = (value: number, signed = false): string => {
+  const formatted = Math.abs(value).toLocaleString(undefined, { style: 'currency', currency: CURRENCY_CODE });
+  if (value < 0) return `-${formatted}`;
+  return signed && value > 0 ? `+${formatted}` : formatted;
+};
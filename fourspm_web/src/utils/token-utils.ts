@@ -0,0 +1,71 @@
+import { UserRole } from '../types';
+
+// Claim names the API may use for roles: the short JWT form and the ASP.NET Identity form
+const ROLE_CLAIMS = ['role', 'roles', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role'];
+
+const KNOWN_ROLES: UserRole[] = ['Admin', 'ProjectManager', 'DocumentController', 'Viewer'];
+
+/**
+ * Decodes the payload of a JWT without verifying it
+ * The signature is checked by the API on every request; the client only reads claims for display and UI rules
+ * @param token The JWT
+ * @returns The payload claims, or null when the token cannot be decoded
+ */
+export const decodeTokenPayload = (token: string | null | undefined): Record<string, any> | null => {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map(char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+        .join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the user's roles from the login token
+ * Users without a recognised role are treated as viewers
+ * @param token The JWT
+ * @returns The roles in the token
+ */
+export const getRolesFromToken = (token: string | null | undefined): UserRole[] => {
+  const claims = decodeTokenPayload(token);
+  if (!claims) return ['Viewer'];
+
+  const values = ROLE_CLAIMS.flatMap(claim => {
+    const value = claims[claim];
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  });
+
+  const roles = KNOWN_ROLES.filter(role => values.includes(role));
+  return roles.length > 0 ? roles : ['Viewer'];
+};
+
+/**
+ * Reads when the login token expires
+ * @param token The JWT
+ * @returns Expiry time in milliseconds since the epoch, or null when the token has no expiry
+ */
+export const getTokenExpiry = (token: string | null | undefined): number | null => {
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/**
+ * Checks whether the login token has expired
+ * @param token The JWT
+ * @param marginMs Treat the token as expired this many milliseconds early
+ * @returns True when the token has expired
+ */
+export const isTokenExpired = (token: string | null | undefined, marginMs: number = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= Date.now();
+};
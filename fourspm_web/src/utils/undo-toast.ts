@@ -0,0 +1,54 @@
+import notify from 'devextreme/ui/notify';
+
+/**
+ * Shows a toast with an "Undo" button
+ * The undo callback runs at most once; errors it throws are reported in a follow-up toast
+ * @param message The message describing what was just done
+ * @param onUndo Callback that reverses the change
+ * @param displayTime How long the toast stays visible in milliseconds
+ */
+export const showUndoToast = (
+  message: string,
+  onUndo: () => Promise<void> | void,
+  displayTime: number = 6000
+): void => {
+  let undone = false;
+
+  notify({
+    type: 'info',
+    displayTime,
+    closeOnClick: false,
+    position: {
+      at: 'bottom center',
+      my: 'bottom center',
+      offset: '0 -20'
+    },
+    contentTemplate: () => {
+      const content = document.createElement('div');
+      content.className = 'undo-toast-content';
+
+      const text = document.createElement('span');
+      text.textContent = message;
+      content.appendChild(text);
+
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'undo-toast-button';
+      button.textContent = 'Undo';
+      button.onclick = async () => {
+        if (undone) return;
+        undone = true;
+        button.disabled = true;
+        try {
+          await onUndo();
+          notify('Change undone', 'success', 2000);
+        } catch (error) {
+          notify(`Undo failed: ${error instanceof Error ? error.message : String(error)}`, 'error', 3500);
+        }
+      };
+      content.appendChild(button);
+
+      return content;
+    }
+  });
+};
@@ -0,0 +1,125 @@
+import { Deliverable, Variation } from '../types/odata-types';
+import { VariationLifecycleStatus } from '../types/app-types';
+import { getVariationLifecycleStatus } from './variation-lifecycle-utils';
+
+/**
+ * A variation and its position in the project's variation dependency graph
+ */
+export interface VariationDependencyNode {
+  variation: Variation;
+  status: VariationLifecycleStatus;
+  isApproved: boolean;
+  isPending: boolean;     // Still awaiting the client's decision; rejected and withdrawn variations are final
+  dependsOn: string[];    // Variations whose deliverables this variation changes
+  dependents: string[];   // Variations that change deliverables created by this variation
+  blockedBy: string[];    // Pending variations that must be approved before this one
+  level: number;          // Longest dependency chain below this variation (0 = no dependencies)
+}
+
+/**
+ * Builds the dependency graph between a project's variations
+ * Variation B depends on variation A when one of B's deliverables is a variation copy
+ * (originalDeliverableGuid) of a deliverable that was created by A. A must then be approved
+ * before B, and B rejected before A.
+ * @param variations The project's variations
+ * @param deliverablesByVariation Deliverables of each variation, keyed by variation GUID
+ * @returns Dependency node for each variation, keyed by variation GUID
+ */
+export const buildVariationDependencies = (
+  variations: Variation[],
+  deliverablesByVariation: Record<string, Deliverable[]>
+): Record<string, VariationDependencyNode> => {
+  const nodes: Record<string, VariationDependencyNode> = {};
+  variations.forEach(variation => {
+    const status = getVariationLifecycleStatus(variation);
+    nodes[variation.guid] = {
+      variation,
+      status,
+      isApproved: status === 'ClientApproved',
+      isPending: status === 'Draft' || status === 'Submitted',
+      dependsOn: [],
+      dependents: [],
+      blockedBy: [],
+      level: 0
+    };
+  });
+
+  // Which variation created each deliverable (its own guid is its original)
+  const creatingVariation: Record<string, string> = {};
+  Object.entries(deliverablesByVariation).forEach(([variationGuid, deliverables]) => {
+    deliverables.forEach(deliverable => {
+      if (deliverable.originalDeliverableGuid === deliverable.guid || !deliverable.originalDeliverableGuid) {
+        creatingVariation[deliverable.guid] = variationGuid;
+      }
+    });
+  });
+
+  Object.entries(deliverablesByVariation).forEach(([variationGuid, deliverables]) => {
+    const node = nodes[variationGuid];
+    if (!node) return;
+
+    deliverables.forEach(deliverable => {
+      const originalGuid = deliverable.originalDeliverableGuid;
+      if (!originalGuid || originalGuid === deliverable.guid) return;
+
+      const ownerGuid = creatingVariation[originalGuid];
+      if (ownerGuid && ownerGuid !== variationGuid && nodes[ownerGuid] && !node.dependsOn.includes(ownerGuid)) {
+        node.dependsOn.push(ownerGuid);
+        nodes[ownerGuid].dependents.push(variationGuid);
+      }
+    });
+  });
+
+  // Only dependencies still awaiting a decision block; approved, rejected and withdrawn ones are final
+  Object.values(nodes).forEach(node => {
+    node.blockedBy = node.isPending ? node.dependsOn.filter(guid => nodes[guid].isPending) : [];
+  });
+
+  // Level = length of the longest chain of dependencies, used to lay the graph out left to right
+  const levels: Record<string, number> = {};
+  const visiting = new Set<string>();
+  const getLevel = (guid: string): number => {
+    if (levels[guid] !== undefined) return levels[guid];
+    if (visiting.has(guid)) return 0; // Cycles should not occur; don't recurse forever if they do
+    visiting.add(guid);
+    const level = nodes[guid].dependsOn.reduce((max, dependency) => Math.max(max, getLevel(dependency) + 1), 0);
+    visiting.delete(guid);
+    levels[guid] = level;
+    return level;
+  };
+  Object.keys(nodes).forEach(guid => {
+    nodes[guid].level = getLevel(guid);
+  });
+
+  return nodes;
+};
+
+/**
+ * Works out the order in which to approve a variation and every pending variation it depends on
+ * Approved, rejected and withdrawn variations are final and are left out
+ * @param nodes The dependency graph from buildVariationDependencies
+ * @param variationGuid The variation the user wants to approve
+ * @returns Pending variation GUIDs with dependencies before the variations that need them
+ */
+export const getApprovalOrder = (
+  nodes: Record<string, VariationDependencyNode>,
+  variationGuid: string
+): string[] => {
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (guid: string, path: string[]) => {
+    const node = nodes[guid];
+    if (!node || !node.isPending || visited.has(guid)) return;
+    if (path.includes(guid)) {
+      throw new Error(`Circular variation dependency: ${[...path, guid].map(item => nodes[item].variation.name).join(' → ')}`);
+    }
+
+    node.dependsOn.forEach(dependency => visit(dependency, [...path, guid]));
+    visited.add(guid);
+    order.push(guid);
+  };
+
+  visit(variationGuid, []);
+  return order;
+};
@@ -0,0 +1,169 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { UserOptions } from 'jspdf-autotable';
+import { Deliverable, Project, Variation } from '../types/odata-types';
+import { getVariationHoursDelta, VARIATION_SUMMARY_STATUSES } from './variation-summary-utils';
+
+const CHANGE_CAPTIONS: Record<string, string> = {
+  Add: 'Added',
+  Edit: 'Changed',
+  Cancel: 'Cancelled'
+};
+
+const PAGE_MARGIN = 15; // mm
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString() : '';
+
+const formatHours = (hours: number, signed = false) =>
+  `${signed && hours > 0 ? '+' : ''}${hours.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Draws a table and returns where it ends
+ * The cursor after the last page drawn is the end of the table
+ * @param doc The document to draw on
+ * @param options The table's options
+ * @returns The y position below the table, in mm
+ */
+const drawTable = (doc: jsPDF, options: UserOptions): number => {
+  let finalY = 0;
+  autoTable(doc, {
+    ...options,
+    didDrawPage: data => {
+      finalY = data.cursor?.y ?? finalY;
+    }
+  });
+  return finalY;
+};
+
+/**
+ * Gets the file name for a variation document, e.g. "P123 - Variation 004.pdf"
+ * @param variation The variation
+ * @param project The variation's project
+ * @returns File name that is safe to save on any platform
+ */
+export const getVariationDocumentFileName = (variation: Variation, project: Project | null | undefined): string => {
+  const name = [project?.projectNumber, `Variation ${variation.name}`].filter(Boolean).join(' - ');
+  return `${name.replace(/[\\/:*?"<>|]+/g, '_')}.pdf`;
+};
+
+/**
+ * Builds the client-facing document for a variation: project and client details,
+ * the deliverables it adds, changes or cancels with their hour changes, comments and a signature block
+ * @param variation The variation
+ * @param project The variation's project, with its client expanded
+ * @param deliverables Deliverables returned for the variation (rows it does not change are left out)
+ * @returns The PDF document, ready to save
+ */
+export const createVariationDocument = (
+  variation: Variation,
+  project: Project | null | undefined,
+  deliverables: Deliverable[]
+): jsPDF => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const client = project?.client;
+
+  // Title
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(`Variation ${variation.name}`, PAGE_MARGIN, 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Issued ${formatDate(variation.submitted || new Date())}`, pageWidth - PAGE_MARGIN, 20, { align: 'right' });
+
+  // Project and client details side by side
+  const detailsEndY = drawTable(doc, {
+    startY: 26,
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: {
+      0: { fontStyle: 'bold', cellWidth: 30 },
+      2: { fontStyle: 'bold', cellWidth: 30 }
+    },
+    body: [
+      ['Project', `${project?.projectNumber || ''} ${project?.name || ''}`.trim(), 'Client', [client?.number, client?.description].filter(Boolean).join(' - ')],
+      ['Purchase Order', project?.purchaseOrderNumber || '', 'Contact', client?.clientContactName || ''],
+      ['Submitted By', variation.submittedBy || '', 'Email', client?.clientContactEmail || ''],
+      ['', '', 'Phone', client?.clientContactNumber || '']
+    ]
+  });
+
+  // Deliverables the variation changes, grouped Added / Changed / Cancelled
+  const changed = deliverables
+    .filter(deliverable => deliverable.uiStatus && VARIATION_SUMMARY_STATUSES.includes(deliverable.uiStatus))
+    .sort((a, b) =>
+      VARIATION_SUMMARY_STATUSES.indexOf(a.uiStatus!) - VARIATION_SUMMARY_STATUSES.indexOf(b.uiStatus!) ||
+      (a.internalDocumentNumber || '').localeCompare(b.internalDocumentNumber || '')
+    );
+  const netHours = changed.reduce((sum, deliverable) => sum + getVariationHoursDelta(deliverable), 0);
+
+  const deliverablesEndY = drawTable(doc, {
+    startY: detailsEndY + 6,
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: [242, 242, 242], textColor: 20, fontStyle: 'bold' },
+    footStyles: { fillColor: [242, 242, 242], textColor: 20, fontStyle: 'bold' },
+    columnStyles: { 6: { halign: 'right' } },
+    head: [['Change', 'Document No.', 'Client No.', 'Title', 'Area', 'Discipline', 'Hours']],
+    body: changed.length
+      ? changed.map(deliverable => [
+        CHANGE_CAPTIONS[deliverable.uiStatus!] || deliverable.uiStatus || '',
+        deliverable.internalDocumentNumber || '',
+        deliverable.clientDocumentNumber || '',
+        deliverable.documentTitle || '',
+        deliverable.areaNumber || '',
+        deliverable.discipline || '',
+        formatHours(getVariationHoursDelta(deliverable), true)
+      ])
+      : [[{ content: 'This variation does not change any deliverables', colSpan: 7 }]],
+    foot: [[{ content: 'Net change in hours', colSpan: 6 }, { content: formatHours(netHours, true), styles: { halign: 'right' } }]]
+  });
+
+  let y = deliverablesEndY + 10;
+
+  // Keep the comments and signatures together on the last page
+  const commentLines: string[] = doc.splitTextToSize(variation.comments || 'No comments.', pageWidth - PAGE_MARGIN * 2);
+  const requiredHeight = 12 + commentLines.length * 4.5 + 50;
+  if (y + requiredHeight > pageHeight - PAGE_MARGIN) {
+    doc.addPage();
+    y = 20;
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('Comments', PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(commentLines, PAGE_MARGIN, y + 6);
+  y += 12 + commentLines.length * 4.5;
+
+  // Signature block: one column for each party
+  const columnWidth = (pageWidth - PAGE_MARGIN * 2 - 10) / 2;
+  [
+    { title: 'Submitted by', x: PAGE_MARGIN, name: variation.submittedBy || '' },
+    { title: 'Accepted on behalf of the client', x: PAGE_MARGIN + columnWidth + 10, name: client?.clientContactName || '' }
+  ].forEach(({ title, x, name }) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, x, y);
+    doc.setFont('helvetica', 'normal');
+    ['Name', 'Signature', 'Date'].forEach((label, index) => {
+      const lineY = y + 12 + index * 11;
+      doc.text(`${label}:`, x, lineY);
+      doc.line(x + 20, lineY + 0.5, x + columnWidth, lineY + 0.5);
+      if (label === 'Name' && name) {
+        doc.text(name, x + 22, lineY - 0.5);
+      }
+    });
+  });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc;
+};
@@ -0,0 +1,57 @@
+import { Variation } from '../types/odata-types';
+import { VariationLifecycleStatus } from '../types/app-types';
+
+/**
+ * Gets the lifecycle status of a variation
+ * Uses the server-calculated status when present, otherwise works it out from the date stamps
+ * @param variation The variation
+ * @returns The variation's lifecycle status
+ */
+export const getVariationLifecycleStatus = (
+  variation: Partial<Variation> | null | undefined
+): VariationLifecycleStatus => {
+  if (!variation) return 'Draft';
+  if (variation.status) return variation.status;
+  if (variation.withdrawn) return 'Withdrawn';
+  if (variation.clientApproved) return 'ClientApproved';
+  if (variation.rejected) return 'Rejected';
+  if (variation.submitted) return 'Submitted';
+  return 'Draft';
+};
+
+/**
+ * Whether a variation and its deliverables can still be edited
+ * Editing stops once the variation has been sent to the client
+ */
+export const isVariationEditable = (variation: Partial<Variation> | null | undefined): boolean =>
+  getVariationLifecycleStatus(variation) === 'Draft';
+
+/**
+ * Whether a variation can be submitted to the client
+ */
+export const canSubmitVariation = (variation: Partial<Variation> | null | undefined): boolean =>
+  getVariationLifecycleStatus(variation) === 'Draft';
+
+/**
+ * Whether the client's decision can be recorded against a variation
+ */
+export const canApproveVariation = (variation: Partial<Variation> | null | undefined): boolean =>
+  getVariationLifecycleStatus(variation) === 'Submitted';
+
+/**
+ * Whether a variation can be rejected
+ * Approved variations can still be rejected, which reverts their deliverables
+ */
+export const canRejectVariation = (variation: Partial<Variation> | null | undefined): boolean => {
+  const status = getVariationLifecycleStatus(variation);
+  return status === 'Submitted' || status === 'ClientApproved';
+};
+
+/**
+ * Whether a variation can be withdrawn
+ * Approved variations must be rejected before they can be withdrawn
+ */
+export const canWithdrawVariation = (variation: Partial<Variation> | null | undefined): boolean => {
+  const status = getVariationLifecycleStatus(variation);
+  return status === 'Draft' || status === 'Submitted' || status === 'Rejected';
+};
@@ -0,0 +1,138 @@
+import { Deliverable, ProjectRate } from '../types/odata-types';
+import { VariationDeliverableUiStatus } from '../types/app-types';
+import { findHourlyRate } from './rate-utils';
+
+/**
+ * Statuses that change the project when a variation is approved
+ * Original rows are only listed in the variation grid so they can be picked up, they change nothing
+ */
+export const VARIATION_SUMMARY_STATUSES: VariationDeliverableUiStatus[] = ['Add', 'Edit', 'Cancel'];
+
+/**
+ * Count, hour change and value for one group of variation deliverables
+ */
+export interface VariationSummaryGroup {
+  key: string;
+  count: number;
+  hoursDelta: number;
+  valueDelta: number;      // Dollar value of the hour change at the project's rates
+  unratedCount: number;    // Deliverables with an hour change but no applicable rate
+}
+
+/**
+ * Roll-up of the changes a variation makes to the deliverables register
+ */
+export interface VariationSummary {
+  byStatus: VariationSummaryGroup[];
+  byDiscipline: VariationSummaryGroup[];
+  byArea: VariationSummaryGroup[];
+  deliverableCount: number;
+  netHoursDelta: number;              // Change to project totalHours if the variation is approved
+  netValueDelta: number;              // Dollar value of the change at the project's rates
+  unratedCount: number;               // Deliverables left out of the value because no rate applies
+  currentProjectHours: number;        // Project totalHours before the variation
+  projectHoursIfApproved: number;     // currentProjectHours + netHoursDelta
+}
+
+/**
+ * Works out how much a variation deliverable changes the project's total hours
+ * Added deliverables bring in all their hours, edits add their variation hours (which can be negative)
+ * and cancellations remove the hours the deliverable currently carries
+ * @param deliverable A deliverable belonging to the variation
+ * @returns The change in hours, 0 for rows the variation does not change
+ */
+export const getVariationHoursDelta = (deliverable: Deliverable): number => {
+  const budgetHours = deliverable.budgetHours || 0;
+  const variationHours = deliverable.variationHours || 0;
+
+  switch (deliverable.uiStatus) {
+    case 'Add':
+      return budgetHours + variationHours;
+    case 'Edit':
+      return variationHours;
+    case 'Cancel':
+      return -(deliverable.totalHours ?? budgetHours + variationHours);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Values the change a variation deliverable makes, in dollars
+ * @param deliverable A deliverable belonging to the variation
+ * @param rates The project's rate table
+ * @returns The change in value, or null when no rate applies to the deliverable
+ */
+export const getVariationValueDelta = (deliverable: Deliverable, rates: ProjectRate[]): number | null => {
+  const hoursDelta = getVariationHoursDelta(deliverable);
+  if (hoursDelta === 0) return 0;
+
+  const rate = findHourlyRate(rates, deliverable.departmentId, deliverable.discipline);
+  return rate === null ? null : hoursDelta * rate;
+};
+
+const createGroup = (key: string): VariationSummaryGroup => ({ key, count: 0, hoursDelta: 0, valueDelta: 0, unratedCount: 0 });
+
+/**
+ * Groups variation deliverables by a key, totalling counts, hour changes and values
+ * @param deliverables The variation's changed deliverables
+ * @param getKey Returns the group a deliverable belongs to
+ * @param rates The project's rate table
+ * @returns Groups sorted by key
+ */
+const groupDeliverables = (
+  deliverables: Deliverable[],
+  getKey: (deliverable: Deliverable) => string | undefined,
+  rates: ProjectRate[]
+): VariationSummaryGroup[] => {
+  const groups: Record<string, VariationSummaryGroup> = {};
+
+  deliverables.forEach(deliverable => {
+    const key = getKey(deliverable) || '(none)';
+    const valueDelta = getVariationValueDelta(deliverable, rates);
+    groups[key] = groups[key] || createGroup(key);
+    groups[key].count++;
+    groups[key].hoursDelta += getVariationHoursDelta(deliverable);
+    groups[key].valueDelta += valueDelta || 0;
+    groups[key].unratedCount += valueDelta === null ? 1 : 0;
+  });
+
+  return Object.values(groups).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Summarises the changes a variation makes by status, discipline and area
+ * @param variationDeliverables Deliverables returned for the variation (rows with Original status are ignored)
+ * @param currentProjectHours Total hours of the project's deliverables before the variation
+ * @param rates The project's rate table, used to value the changes
+ * @returns Counts, hour changes and values for the variation
+ */
+export const summarizeVariation = (
+  variationDeliverables: Deliverable[],
+  currentProjectHours: number,
+  rates: ProjectRate[] = []
+): VariationSummary => {
+  const changed = variationDeliverables.filter(
+    deliverable => deliverable.uiStatus && VARIATION_SUMMARY_STATUSES.includes(deliverable.uiStatus)
+  );
+
+  // Keep every status in a fixed order, even when the variation has none of them
+  const statusGroups = groupDeliverables(changed, deliverable => deliverable.uiStatus, rates);
+  const byStatus = VARIATION_SUMMARY_STATUSES.map(status =>
+    statusGroups.find(group => group.key === status) || createGroup(status)
+  );
+
+  const netHoursDelta = changed.reduce((sum, deliverable) => sum + getVariationHoursDelta(deliverable), 0);
+
+  return {
+    byStatus,
+    byDiscipline: groupDeliverables(changed, deliverable => deliverable.discipline, rates),
+    byArea: groupDeliverables(changed, deliverable => deliverable.areaNumber, rates),
+    deliverableCount: changed.length,
+    netHoursDelta,
+    netValueDelta: byStatus.reduce((sum, group) => sum + group.valueDelta, 0),
+    unratedCount: byStatus.reduce((sum, group) => sum + group.unratedCount, 0),
+    currentProjectHours,
+    projectHoursIfApproved: currentProjectHours + netHoursDelta
+  };
+};